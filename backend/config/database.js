@@ -38,7 +38,25 @@ const query = async (text, params) => {
   }
 };
 
+// Run `callback` inside a transaction on a dedicated client. The callback gets the
+// client to query with; the transaction is rolled back if it throws.
+const transaction = async (callback) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 module.exports = {
   query,
+  transaction,
   pool
 };
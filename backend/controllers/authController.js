@@ -11,6 +11,11 @@ const authController = {
     try {
       const { username, email, password, role } = req.body;
       
+      // Admins are appointed through ADMIN_EMAILS, never at sign up
+      if (role && !['client', 'freelancer'].includes(role)) {
+        return res.status(400).json({ message: 'Invalid role' });
+      }
+      
       // Check if email or username exists
       const existingUser = await userModel.findByEmail(email);
       if (existingUser) {
@@ -59,6 +64,10 @@ const authController = {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
       
+      if (user.suspendedAt) {
+        return res.status(403).json({ message: 'This account has been suspended', suspended: true });
+      }
+      
       // Update user status to online
       await userModel.updateStatus(user.id, 'online');
       
@@ -27,7 +27,9 @@ const chatController = {
           createdAt: chat.createdAt,
           updatedAt: chat.updatedAt,
           participants: participants.map(p => p.id),
-          participantDetails: participants
+          participantDetails: participants,
+          readCursors: chatModel.getReadCursors(participants),
+          unreadCount: chat.unreadCount
         };
         
         // Get last message
@@ -49,6 +51,35 @@ const chatController = {
     }
   },
   
+  // Mark the chat as read up to a message (the latest one by default)
+  async markAsRead(req, res) {
+    try {
+      const { chatId } = req.params;
+      const { userId } = req.user;
+      const { messageId } = req.body || {};
+      
+      // Check if user is a participant
+      const isParticipant = await chatModel.isParticipant(chatId, userId);
+      if (!isParticipant) {
+        return res.status(403).json({ message: 'You are not a participant in this chat' });
+      }
+      
+      const cursor = await chatModel.markAsRead(chatId, userId, messageId || null);
+      
+      // Let everyone in the chat (and the user's other sessions) see the new position
+      const socketService = req.app.get('socketService');
+      if (cursor && socketService) {
+        const participants = await chatModel.getParticipants(chatId);
+        socketService.notifyUsers(participants.map(p => p.id), 'chat:read', chatId, cursor);
+      }
+      
+      res.json({ success: true, lastReadMessageId: cursor ? cursor.lastReadMessageId : null });
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  },
+  
   // Create a private chat
   async createPrivateChat(req, res) {
     try {
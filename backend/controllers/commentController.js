@@ -0,0 +1,139 @@
+
+const commentModel = require('../models/commentModel');
+const jobModel = require('../models/jobModel');
+
+const commentController = {
+  // Add a comment to a job
+  async addComment(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { text } = req.body;
+      const userId = req.user.userId;
+
+      if (!text || !text.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Comment text is required'
+        });
+      }
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job || !jobModel.canSee(job, req.user)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      const comment = await commentModel.create({
+        jobId,
+        userId,
+        content: text.trim()
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Comment created successfully',
+        comment
+      });
+
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error adding comment',
+        error: error.message
+      });
+    }
+  },
+
+  // Add a reply to a comment
+  async addReply(req, res) {
+    try {
+      const { commentId } = req.params;
+      const { text } = req.body;
+      const userId = req.user.userId;
+
+      if (!text || !text.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Reply text is required'
+        });
+      }
+
+      const comment = await commentModel.findById(commentId);
+      const job = comment ? await jobModel.findById(comment.jobId) : null;
+
+      if (!comment || !job || !jobModel.canSee(job, req.user)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+      }
+
+      const reply = await commentModel.createReply({
+        commentId,
+        userId,
+        content: text.trim()
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Reply created successfully',
+        reply
+      });
+
+    } catch (error) {
+      console.error('Error adding reply:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error adding reply',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete a comment (its author or the job owner)
+  async deleteComment(req, res) {
+    try {
+      const { commentId } = req.params;
+      const userId = req.user.userId;
+
+      const comment = await commentModel.findById(commentId);
+
+      if (!comment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+      }
+
+      const job = await jobModel.findById(comment.jobId);
+
+      if (comment.userId !== userId && (!job || job.userId !== userId)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to delete this comment'
+        });
+      }
+
+      await commentModel.delete(commentId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting comment',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = commentController;
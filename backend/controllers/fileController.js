@@ -2,6 +2,26 @@
 const fileModel = require('../models/fileModel');
 const chatModel = require('../models/chatModel');
 const messageModel = require('../models/messageModel');
+const jobModel = require('../models/jobModel');
+const portfolioModel = require('../models/portfolioModel');
+
+// Job attachments are limited to 10 MB each and 10 per job
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_JOB = 10;
+
+// Portfolio items take files with the same size limit, 10 per item
+const MAX_FILES_PER_PORTFOLIO_ITEM = 10;
+
+// Attachment metadata sent to the client (never the binary data),
+// same shape as fileModel.findByJobId
+const formatAttachment = (file) => ({
+  id: file.id,
+  filename: file.filename,
+  contentType: file.content_type,
+  size: file.size,
+  jobId: file.jobId,
+  createdAt: file.created_at
+});
 
 const fileController = {
   // Upload a file and create a message
@@ -68,6 +88,15 @@ const fileController = {
         return res.status(404).json({ message: 'File not found' });
       }
       
+      // Job attachments and portfolio files can be downloaded by any logged-in user
+      if (file.jobId || file.portfolioItemId) {
+        res.set({
+          'Content-Type': file.content_type,
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(file.filename)}"`
+        });
+        return res.send(file.data);
+      }
+      
       // Find message that contains this file
       const message = await messageModel.findById(fileId);
       
@@ -93,6 +122,251 @@ const fileController = {
       console.error('Error getting file:', error);
       res.status(500).json({ message: 'Server error' });
     }
+  },
+  
+  // Attach a file to a job (only its owner)
+  async uploadJobAttachment(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { filename, contentType, data, size } = req.body;
+      
+      if (!filename || !data) {
+        return res.status(400).json({
+          success: false,
+          message: 'Filename and file data are required'
+        });
+      }
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+      
+      if (job.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to add attachments to this job'
+        });
+      }
+      
+      // Convert base64 data to Buffer
+      const fileBuffer = Buffer.from(data, 'base64');
+      
+      if (fileBuffer.length > MAX_ATTACHMENT_SIZE) {
+        return res.status(400).json({
+          success: false,
+          message: 'Attachments cannot be larger than 10 MB'
+        });
+      }
+      
+      const attachments = await fileModel.findByJobId(jobId);
+      
+      if (attachments.length >= MAX_ATTACHMENTS_PER_JOB) {
+        return res.status(400).json({
+          success: false,
+          message: `A job cannot have more than ${MAX_ATTACHMENTS_PER_JOB} attachments`
+        });
+      }
+      
+      const file = await fileModel.create({
+        filename,
+        contentType: contentType || 'application/octet-stream',
+        size: size || fileBuffer.length,
+        data: fileBuffer,
+        uploadedBy: req.user.userId,
+        jobId
+      });
+      
+      return res.status(201).json({
+        success: true,
+        message: 'Attachment uploaded successfully',
+        attachment: formatAttachment(file)
+      });
+      
+    } catch (error) {
+      console.error('Error uploading job attachment:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error uploading attachment',
+        error: error.message
+      });
+    }
+  },
+  
+  // Remove an attachment from a job (only its owner)
+  async deleteJobAttachment(req, res) {
+    try {
+      const { jobId, fileId } = req.params;
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+      
+      if (job.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to remove attachments from this job'
+        });
+      }
+      
+      const file = await fileModel.findById(fileId);
+      
+      if (!file || file.jobId !== jobId) {
+        return res.status(404).json({
+          success: false,
+          message: 'Attachment not found'
+        });
+      }
+      
+      await fileModel.delete(fileId);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'Attachment deleted successfully'
+      });
+      
+    } catch (error) {
+      console.error('Error deleting job attachment:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting attachment',
+        error: error.message
+      });
+    }
+  },
+  
+  // Add an image or file to a portfolio item (only its owner)
+  async uploadPortfolioFile(req, res) {
+    try {
+      const { itemId } = req.params;
+      const { filename, contentType, data, size } = req.body;
+      
+      if (!filename || !data) {
+        return res.status(400).json({
+          success: false,
+          message: 'Filename and file data are required'
+        });
+      }
+      
+      const item = await portfolioModel.findById(itemId);
+      
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          message: 'Portfolio item not found'
+        });
+      }
+      
+      if (item.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to add files to this portfolio item'
+        });
+      }
+      
+      // Convert base64 data to Buffer
+      const fileBuffer = Buffer.from(data, 'base64');
+      
+      if (fileBuffer.length > MAX_ATTACHMENT_SIZE) {
+        return res.status(400).json({
+          success: false,
+          message: 'Files cannot be larger than 10 MB'
+        });
+      }
+      
+      if (item.files.length >= MAX_FILES_PER_PORTFOLIO_ITEM) {
+        return res.status(400).json({
+          success: false,
+          message: `A portfolio item cannot have more than ${MAX_FILES_PER_PORTFOLIO_ITEM} files`
+        });
+      }
+      
+      const file = await fileModel.create({
+        filename,
+        contentType: contentType || 'application/octet-stream',
+        size: size || fileBuffer.length,
+        data: fileBuffer,
+        uploadedBy: req.user.userId,
+        portfolioItemId: itemId
+      });
+      
+      return res.status(201).json({
+        success: true,
+        message: 'File uploaded successfully',
+        file: {
+          id: file.id,
+          filename: file.filename,
+          contentType: file.content_type,
+          size: file.size,
+          portfolioItemId: file.portfolioItemId,
+          createdAt: file.created_at
+        }
+      });
+      
+    } catch (error) {
+      console.error('Error uploading portfolio file:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error uploading file',
+        error: error.message
+      });
+    }
+  },
+  
+  // Remove a file from a portfolio item (only its owner)
+  async deletePortfolioFile(req, res) {
+    try {
+      const { itemId, fileId } = req.params;
+      
+      const item = await portfolioModel.findById(itemId);
+      
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          message: 'Portfolio item not found'
+        });
+      }
+      
+      if (item.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to remove files from this portfolio item'
+        });
+      }
+      
+      const file = await fileModel.findById(fileId);
+      
+      if (!file || file.portfolioItemId !== itemId) {
+        return res.status(404).json({
+          success: false,
+          message: 'File not found'
+        });
+      }
+      
+      await fileModel.delete(fileId);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'File deleted successfully'
+      });
+      
+    } catch (error) {
+      console.error('Error deleting portfolio file:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting file',
+        error: error.message
+      });
+    }
   }
 };
 
@@ -0,0 +1,255 @@
+
+const invitationModel = require('../models/invitationModel');
+const proposalModel = require('../models/proposalModel');
+const jobModel = require('../models/jobModel');
+const userModel = require('../models/userModel');
+const notificationController = require('./notificationController');
+
+// A job takes proposals while it is open and its deadline has not passed
+// (the expiry worker runs periodically, so the deadline is checked here as well)
+const isAcceptingProposals = (job) =>
+  job.status === 'open' && !(job.deadline && new Date(job.deadline) <= new Date());
+
+const invitationController = {
+  // Invite a freelancer to bid on one of the current user's jobs
+  async createInvitation(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { userId: inviteeId, message } = req.body;
+      const userId = req.user.userId;
+
+      if (!inviteeId) {
+        return res.status(400).json({
+          success: false,
+          message: 'The user to invite is required'
+        });
+      }
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only invite freelancers to your own jobs'
+        });
+      }
+
+      if (!isAcceptingProposals(job)) {
+        return res.status(400).json({
+          success: false,
+          message: 'This job is no longer accepting proposals'
+        });
+      }
+
+      const invitee = await userModel.findById(inviteeId);
+      if (!invitee || invitee.role !== 'freelancer' || invitee.id === userId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only freelancers can be invited'
+        });
+      }
+
+      const existingInvitation = await invitationModel.findByJobAndUser(jobId, inviteeId);
+      if (existingInvitation) {
+        return res.status(409).json({
+          success: false,
+          message: 'This freelancer has already been invited to this job'
+        });
+      }
+
+      const existingProposal = await proposalModel.findByJobAndUser(jobId, inviteeId);
+      if (existingProposal) {
+        return res.status(409).json({
+          success: false,
+          message: 'This freelancer has already sent a proposal to this job'
+        });
+      }
+
+      const invitation = await invitationModel.create({
+        jobId,
+        userId: inviteeId,
+        invitedBy: userId,
+        message: message ? String(message).trim() : null
+      });
+
+      const inviter = await userModel.findById(userId);
+      const inviterName = inviter ? inviter.name : 'Un cliente';
+
+      await notificationController.notify(req, [inviteeId], {
+        type: 'job-invitation',
+        title: `${inviterName} te invita a enviar una oferta`,
+        message: job.title,
+        link: '/invitations',
+        data: { jobId, invitationId: invitation.id }
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Invitation sent successfully',
+        invitation: {
+          ...invitation,
+          userName: invitee.name,
+          userPhoto: invitee.avatar
+        }
+      });
+
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating invitation',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the invitations sent for one of the current user's jobs
+  async getJobInvitations(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to see the invitations of this job'
+        });
+      }
+
+      const invitations = await invitationModel.findByJobId(jobId);
+
+      return res.status(200).json({
+        success: true,
+        invitations
+      });
+
+    } catch (error) {
+      console.error('Error getting job invitations:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting job invitations',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the invitations received by the current user
+  async getInvitations(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const invitations = await invitationModel.findByUserId(userId);
+
+      return res.status(200).json({
+        success: true,
+        invitations
+      });
+
+    } catch (error) {
+      console.error('Error getting invitations:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting invitations',
+        error: error.message
+      });
+    }
+  },
+
+  // Accept or decline a pending invitation; the client is notified either way
+  async respondToInvitation(req, res, status) {
+    try {
+      const { invitationId } = req.params;
+      const userId = req.user.userId;
+
+      const invitation = await invitationModel.findById(invitationId);
+
+      if (!invitation) {
+        return res.status(404).json({
+          success: false,
+          message: 'Invitation not found'
+        });
+      }
+
+      if (invitation.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to answer this invitation'
+        });
+      }
+
+      if (invitation.status !== 'pending') {
+        return res.status(400).json({
+          success: false,
+          message: 'This invitation has already been answered'
+        });
+      }
+
+      if (status === 'accepted') {
+        const job = await jobModel.findById(invitation.jobId);
+        if (!job || !isAcceptingProposals(job)) {
+          return res.status(400).json({
+            success: false,
+            message: 'This job is no longer accepting proposals'
+          });
+        }
+      }
+
+      const updatedInvitation = await invitationModel.updateStatus(invitationId, status);
+
+      const invitee = await userModel.findById(userId);
+      const inviteeName = invitee ? invitee.name : 'El freelancer';
+
+      await notificationController.notify(req, [invitation.invitedBy], {
+        type: 'job-invitation',
+        title: status === 'accepted'
+          ? `${inviteeName} ha aceptado tu invitación`
+          : `${inviteeName} ha rechazado tu invitación`,
+        message: invitation.jobTitle,
+        link: `/jobs/${invitation.jobId}`,
+        data: { jobId: invitation.jobId, invitationId }
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: status === 'accepted' ? 'Invitation accepted' : 'Invitation declined',
+        invitation: { ...invitation, ...updatedInvitation }
+      });
+
+    } catch (error) {
+      console.error('Error answering invitation:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error answering invitation',
+        error: error.message
+      });
+    }
+  },
+
+  // Accept an invitation (the freelancer then sends a proposal as usual)
+  async acceptInvitation(req, res) {
+    return invitationController.respondToInvitation(req, res, 'accepted');
+  },
+
+  // Decline an invitation
+  async declineInvitation(req, res) {
+    return invitationController.respondToInvitation(req, res, 'declined');
+  }
+};
+
+module.exports = invitationController;
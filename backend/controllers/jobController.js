@@ -1,30 +1,228 @@
 
 const jobModel = require('../models/jobModel');
 const userModel = require('../models/userModel');
+const proposalModel = require('../models/proposalModel');
+const commentModel = require('../models/commentModel');
+const savedSearchModel = require('../models/savedSearchModel');
+const jobStatusHistoryModel = require('../models/jobStatusHistoryModel');
+const fileModel = require('../models/fileModel');
+const jobTemplateModel = require('../models/jobTemplateModel');
+const notificationController = require('./notificationController');
+
+// Allowed status changes. A job goes open → in progress → completed; it can be
+// cancelled until it is completed, and reopened when cancelled or while in progress
+// (e.g. the hired freelancer drops out). Completed is final.
+// Only the expiry worker moves a job to "expired"; the owner can then renew it.
+const JOB_STATUS_TRANSITIONS = {
+  'open': ['in progress', 'cancelled'],
+  'in progress': ['completed', 'open', 'cancelled'],
+  'completed': [],
+  'cancelled': ['open'],
+  'expired': ['open', 'cancelled']
+};
+
+// How long a renewed job stays open
+const RENEWAL_DAYS = 14;
+
+// Validate an application deadline: empty clears it, otherwise it must be a future date.
+// Returns { deadline } or { error }.
+const parseDeadline = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return { deadline: null };
+  }
+  
+  const deadline = new Date(value);
+  if (isNaN(deadline.getTime())) {
+    return { error: 'Invalid deadline' };
+  }
+  
+  if (deadline <= new Date()) {
+    return { error: 'The deadline must be in the future' };
+  }
+  
+  return { deadline };
+};
+
+const BUDGET_TYPES = ['fixed', 'hourly', 'range'];
+
+// Validate and normalize the pricing of a job. Fixed and hourly jobs have a single
+// amount (sent as "budget"); ranges need 0 < budgetMin <= budgetMax. "budget" is
+// stored as the upper amount. Returns { pricing } or { error }.
+const parsePricing = ({ budget, budgetType = 'fixed', budgetMin, budgetMax, currency = 'USD' }) => {
+  if (!BUDGET_TYPES.includes(budgetType)) {
+    return { error: `Invalid budget type "${budgetType}"` };
+  }
+  
+  const currencyCode = String(currency).trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currencyCode)) {
+    return { error: 'Currency must be an ISO 4217 code (e.g. USD, EUR)' };
+  }
+  
+  let min;
+  let max;
+  if (budgetType === 'range') {
+    min = parseFloat(budgetMin);
+    max = parseFloat(budgetMax);
+    if (!(min > 0) || !(max > 0) || min > max) {
+      return { error: 'A budget range needs a minimum and a maximum, with the minimum not above the maximum' };
+    }
+  } else {
+    min = max = parseFloat(budget !== undefined ? budget : budgetMin);
+    if (!(min > 0)) {
+      return { error: 'Budget must be a positive amount' };
+    }
+  }
+  
+  return {
+    pricing: { budget: max, budgetType, budgetMin: min, budgetMax: max, currency: currencyCode }
+  };
+};
+
+const PRICING_FIELDS = ['budget', 'budgetType', 'budgetMin', 'budgetMax', 'currency'];
+
+// Pick the fields of `body` that were sent
+const pickSent = (body, fields) =>
+  Object.fromEntries(fields.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+// Drafts keep whatever has been filled in so far; nothing is required until the
+// draft is published (see validateForPublication). Returns only the fields sent,
+// merging the pricing with the current one of the draft.
+const parseDraftFields = (body, current = {}) => {
+  const fields = {};
+  
+  ['title', 'description', 'category'].forEach(field => {
+    if (body[field] !== undefined) fields[field] = String(body[field] || '');
+  });
+  
+  if (Array.isArray(body.skills)) fields.skills = body.skills;
+  
+  if (PRICING_FIELDS.some(field => body[field] !== undefined)) {
+    const sent = {
+      budgetType: current.budgetType,
+      budgetMin: current.budgetMin,
+      budgetMax: current.budgetMax,
+      currency: current.currency,
+      ...pickSent(body, PRICING_FIELDS)
+    };
+    const { pricing } = parsePricing(sent);
+    
+    if (pricing) {
+      Object.assign(fields, pricing);
+    } else {
+      const toAmount = (value) => (parseFloat(value) > 0 ? parseFloat(value) : null);
+      const budgetType = BUDGET_TYPES.includes(sent.budgetType) ? sent.budgetType : 'fixed';
+      const amount = toAmount(budgetType === 'range' ? sent.budgetMax : (sent.budget !== undefined ? sent.budget : sent.budgetMin));
+      const currencyCode = String(sent.currency || '').trim().toUpperCase();
+      
+      Object.assign(fields, {
+        budget: amount || 0,
+        budgetType,
+        budgetMin: budgetType === 'range' ? toAmount(sent.budgetMin) : amount,
+        budgetMax: amount,
+        currency: /^[A-Z]{3}$/.test(currencyCode) ? currencyCode : 'USD'
+      });
+    }
+  }
+  
+  if (body.deadline !== undefined) {
+    const deadline = body.deadline ? new Date(body.deadline) : null;
+    fields.deadline = deadline && !isNaN(deadline.getTime()) ? deadline : null;
+  }
+  
+  return fields;
+};
+
+// Check that a draft has everything a job needs to be published at `publishAt`.
+// Returns an error message, or null when it can be published.
+const validateForPublication = (job, publishAt = new Date()) => {
+  if (!job.title.trim() || !job.description.trim() || !job.category.trim()) {
+    return 'Missing required fields (title, description, budget, category)';
+  }
+  
+  const { error } = parsePricing({
+    budget: job.budgetMax,
+    budgetType: job.budgetType,
+    budgetMin: job.budgetMin,
+    budgetMax: job.budgetMax,
+    currency: job.currency
+  });
+  if (error) return error;
+  
+  if (job.deadline && new Date(job.deadline) <= publishAt) {
+    return 'The deadline must be after the publication date';
+  }
+  
+  return null;
+};
 
 const jobController = {
+  // Helper used when a job goes public (created directly, or a draft published by
+  // its owner or by the publish worker): record its creation in the status history
+  // and alert the users whose saved searches match it.
+  async announceJob(req, job) {
+    await jobStatusHistoryModel.create({
+      jobId: job.id,
+      toStatus: job.status,
+      userId: job.userId
+    });
+    
+    // A failure here must not fail the publication
+    try {
+      const matchingSearches = await savedSearchModel.findMatchingJob(job.id);
+      // One notification per search, so the user knows which search matched
+      await Promise.all(matchingSearches.map(search =>
+        notificationController.notify(req, [search.userId], {
+          type: 'saved-search',
+          title: `Nueva propuesta para "${search.name}"`,
+          message: job.title,
+          link: `/jobs/${job.id}`,
+          data: { jobId: job.id, savedSearchId: search.id }
+        })
+      ));
+    } catch (alertError) {
+      console.error('Error sending saved search alerts:', alertError);
+    }
+  },
+  
   // Create a new job
   async createJob(req, res) {
     try {
-      const { title, description, budget, category, skills } = req.body;
+      const { title, description, category, skills } = req.body;
       const userId = req.user.userId;
       
-      console.log('Creating job with data:', { title, description, budget, category, skills, userId });
+      console.log('Creating job with data:', { title, description, category, skills, userId });
       
       // Validate required fields
-      if (!title || !description || !budget || !category) {
-        console.error('Missing required fields:', { title, description, budget, category });
+      if (!title || !description || !category) {
+        console.error('Missing required fields:', { title, description, category });
         return res.status(400).json({
           success: false,
           message: 'Missing required fields (title, description, budget, category)'
         });
       }
       
+      const { pricing, error: pricingError } = parsePricing(req.body);
+      if (pricingError) {
+        return res.status(400).json({
+          success: false,
+          message: pricingError
+        });
+      }
+      
+      const { deadline, error: deadlineError } = parseDeadline(req.body.deadline);
+      if (deadlineError) {
+        return res.status(400).json({
+          success: false,
+          message: deadlineError
+        });
+      }
+      
       // Create the job
       const job = await jobModel.create({
         title,
         description,
-        budget: parseFloat(budget),
+        ...pricing,
+        deadline,
         category,
         skills: Array.isArray(skills) ? skills : [],
         userId
@@ -32,6 +230,8 @@ const jobController = {
       
       console.log('Job created successfully:', job);
       
+      await jobController.announceJob(req, job);
+      
       // Get user info for the response
       const user = await userModel.findById(userId);
       
@@ -69,9 +269,13 @@ const jobController = {
   // Get all jobs with filters
   async getAllJobs(req, res) {
     try {
-      const { category, search, status } = req.query;
+      const {
+        category, search, status, userId, cursor, limit,
+        budgetMin, budgetMax, budgetType, currency, skills, skillsMatch, postedWithin, facets
+      } = req.query;
       
-      const filter = {};
+      // currentUserId lets the model tell whether the user liked each job
+      const filter = { currentUserId: req.user.userId };
       
       // Filter by category
       if (category) {
@@ -83,12 +287,50 @@ const jobController = {
         filter.status = status;
       }
       
-      // Search by title or description (simplified for PostgreSQL)
-      if (search) {
-        filter.search = search;
+      // Full-text search on title, skills and description, ranked by relevance
+      if (search && search.trim()) {
+        filter.search = search.trim();
+      }
+      
+      // Filter by owner
+      if (userId) {
+        filter.userId = userId;
+      }
+      
+      // Filter by budget range
+      if (budgetMin !== undefined && budgetMin !== '' && !isNaN(parseFloat(budgetMin))) {
+        filter.budgetMin = parseFloat(budgetMin);
+      }
+      
+      if (budgetMax !== undefined && budgetMax !== '' && !isNaN(parseFloat(budgetMax))) {
+        filter.budgetMax = parseFloat(budgetMax);
+      }
+      
+      // Filter by pricing model and currency
+      if (BUDGET_TYPES.includes(budgetType)) {
+        filter.budgetType = budgetType;
+      }
+      
+      if (currency) {
+        filter.currency = String(currency).toUpperCase();
+      }
+      
+      // Filter by skills (comma-separated), matching any or all of them
+      if (skills) {
+        filter.skills = String(skills).split(',').map(skill => skill.trim()).filter(Boolean);
+        filter.skillsMatch = skillsMatch === 'all' ? 'all' : 'any';
       }
       
-      const jobs = await jobModel.findAll(filter);
+      // Filter by posting date: jobs posted within the last N days
+      if (postedWithin && parseInt(postedWithin, 10) > 0) {
+        filter.postedWithinDays = parseInt(postedWithin, 10);
+      }
+      
+      // One page at a time; the client passes nextCursor back to get the following page
+      const { jobs, nextCursor } = await jobModel.findAll(filter, { cursor, limit });
+      
+      // Facet counts are only needed with the first page
+      const jobFacets = facets === 'true' && !cursor ? await jobModel.findFacets(filter) : undefined;
       
       // Get user info for each job
       const jobsWithUserInfo = await Promise.all(jobs.map(async (job) => {
@@ -102,7 +344,9 @@ const jobController = {
       
       return res.status(200).json({
         success: true,
-        jobs: jobsWithUserInfo
+        jobs: jobsWithUserInfo,
+        nextCursor,
+        facets: jobFacets
       });
       
     } catch (error) {
@@ -115,14 +359,58 @@ const jobController = {
     }
   },
   
+  // Get the most popular open jobs (public: also shown on the landing page)
+  async getPopularJobs(req, res) {
+    try {
+      const limit = Math.min(parseInt(req.query.limit, 10) || 3, 20);
+      
+      const jobs = await jobModel.findPopular(limit);
+      
+      return res.status(200).json({
+        success: true,
+        jobs
+      });
+      
+    } catch (error) {
+      console.error('Error getting popular jobs:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting popular jobs',
+        error: error.message
+      });
+    }
+  },
+  
+  // Get the open jobs that best match the current user's skills and history
+  async getRecommendedJobs(req, res) {
+    try {
+      const limit = Math.min(parseInt(req.query.limit, 10) || 3, 20);
+
+      const jobs = await jobModel.findRecommended(req.user.userId, limit);
+
+      return res.status(200).json({
+        success: true,
+        jobs
+      });
+
+    } catch (error) {
+      console.error('Error getting recommended jobs:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting recommended jobs',
+        error: error.message
+      });
+    }
+  },
+
   // Get job by ID
   async getJobById(req, res) {
     try {
       const { jobId } = req.params;
       
-      const job = await jobModel.findById(jobId);
+      const job = await jobModel.findById(jobId, req.user.userId);
       
-      if (!job) {
+      if (!job || !jobModel.canSee(job, req.user)) {
         return res.status(404).json({
           success: false,
           message: 'Job not found'
@@ -132,10 +420,20 @@ const jobController = {
       // Get user info
       const user = await userModel.findById(job.userId);
       
+      // Get comments with their replies
+      const comments = await commentModel.findByJobId(jobId);
+      
+      const statusHistory = await jobStatusHistoryModel.findByJobId(jobId);
+      
+      const attachments = await fileModel.findByJobId(jobId);
+      
       const jobWithUser = {
         ...job,
         userName: user ? user.username : 'Unknown',
-        userPhoto: user ? user.avatar : null
+        userPhoto: user ? user.avatar : null,
+        comments,
+        statusHistory,
+        attachments
       };
       
       return res.status(200).json({
@@ -157,7 +455,7 @@ const jobController = {
   async updateJob(req, res) {
     try {
       const { jobId } = req.params;
-      const { title, description, budget, category, skills, status } = req.body;
+      const { title, description, category, skills, status, statusReason, proposalId } = req.body;
       const userId = req.user.userId;
       
       // Check if job exists
@@ -178,17 +476,124 @@ const jobController = {
         });
       }
       
+      if (job.status === 'draft') {
+        return res.status(400).json({
+          success: false,
+          message: 'Drafts are saved and published through /api/jobs/drafts'
+        });
+      }
+      
+      // Accepting a proposal moves the job from "open" to "in progress"
+      if (proposalId) {
+        const proposal = await proposalModel.findById(proposalId);
+        
+        if (!proposal || proposal.jobId !== jobId) {
+          return res.status(404).json({
+            success: false,
+            message: 'Proposal not found'
+          });
+        }
+        
+        if (job.status !== 'open' || status !== 'in progress' || proposal.status !== 'pending') {
+          return res.status(400).json({
+            success: false,
+            message: 'A pending proposal can only be accepted while the job is open'
+          });
+        }
+      }
+      
+      const statusChanged = status && status !== job.status;
+      
+      if (statusChanged && !(JOB_STATUS_TRANSITIONS[job.status] || []).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status transition from "${job.status}" to "${status}"`
+        });
+      }
+      
+      // Pricing fields that are not sent keep their current values
+      let pricing = {};
+      if (PRICING_FIELDS.some(field => req.body[field] !== undefined)) {
+        const current = {
+          budgetType: job.budgetType,
+          budgetMin: job.budgetMin,
+          budgetMax: job.budgetMax,
+          currency: job.currency
+        };
+        const parsed = parsePricing({ ...current, ...pickSent(req.body, PRICING_FIELDS) });
+        
+        if (parsed.error) {
+          return res.status(400).json({
+            success: false,
+            message: parsed.error
+          });
+        }
+        pricing = parsed.pricing;
+      }
+      
+      let deadline = job.deadline;
+      if (req.body.deadline !== undefined) {
+        const parsed = parseDeadline(req.body.deadline);
+        
+        if (parsed.error) {
+          return res.status(400).json({
+            success: false,
+            message: parsed.error
+          });
+        }
+        deadline = parsed.deadline;
+      }
+      
+      // An open job cannot be left with a deadline that already passed
+      if ((status || job.status) === 'open' && deadline && new Date(deadline) <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Set a future deadline (or none) to reopen this job'
+        });
+      }
+      
+      // Accept the proposal (and move the job to "in progress") before anything else,
+      // so the job is only edited when the acceptance went through
+      if (proposalId) {
+        const acceptedProposal = await proposalModel.accept(jobId, proposalId);
+        
+        if (!acceptedProposal) {
+          return res.status(409).json({
+            success: false,
+            message: 'The job is no longer open or the proposal is no longer pending'
+          });
+        }
+      }
+      
       // Update job
-      const updatedData = {};
+      const updatedData = { ...pricing };
+      if (req.body.deadline !== undefined) updatedData.deadline = deadline;
       if (title) updatedData.title = title;
       if (description) updatedData.description = description;
-      if (budget) updatedData.budget = parseFloat(budget);
       if (category) updatedData.category = category;
       if (skills) updatedData.skills = skills;
       if (status) updatedData.status = status;
       
       const updatedJob = await jobModel.update(jobId, updatedData);
       
+      // A reopened job looks for a new freelancer
+      if (statusChanged && status === 'open') {
+        await proposalModel.releaseAccepted(jobId);
+      }
+      
+      let statusEntry = null;
+      if (statusChanged) {
+        statusEntry = await jobStatusHistoryModel.create({
+          jobId,
+          fromStatus: job.status,
+          toStatus: status,
+          reason: statusReason && statusReason.trim()
+            ? statusReason.trim()
+            : (proposalId ? 'Oferta aceptada' : null),
+          userId
+        });
+      }
+      
       // Get user info for the response
       const user = await userModel.findById(userId);
       
@@ -201,7 +606,8 @@ const jobController = {
       return res.status(200).json({
         success: true,
         message: 'Job updated successfully',
-        job: jobWithUser
+        job: jobWithUser,
+        statusEntry
       });
       
     } catch (error) {
@@ -214,6 +620,404 @@ const jobController = {
     }
   },
   
+  // Create a draft (only visible to its owner; nothing is required yet)
+  async createDraft(req, res) {
+    try {
+      const userId = req.user.userId;
+      
+      const job = await jobModel.create({
+        title: '',
+        description: '',
+        category: '',
+        skills: [],
+        ...parseDraftFields({ budgetType: 'fixed', ...req.body }),
+        status: 'draft',
+        userId
+      });
+      
+      return res.status(201).json({
+        success: true,
+        message: 'Draft saved',
+        job
+      });
+      
+    } catch (error) {
+      console.error('Error creating draft:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating draft',
+        error: error.message
+      });
+    }
+  },
+  
+  // Save the changes of a draft (autosave). Sending publishAt: null cancels a
+  // scheduled publication; scheduling goes through publishDraft.
+  async updateDraft(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job || job.status !== 'draft') {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft not found'
+        });
+      }
+      
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to edit this draft'
+        });
+      }
+      
+      const updatedData = parseDraftFields(req.body, job);
+      if (req.body.publishAt === null) updatedData.publishAt = null;
+      
+      const updatedJob = await jobModel.update(jobId, updatedData);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'Draft saved',
+        job: updatedJob
+      });
+      
+    } catch (error) {
+      console.error('Error updating draft:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error updating draft',
+        error: error.message
+      });
+    }
+  },
+  
+  // Publish a draft now, or schedule it when a future publishAt is sent
+  // (the publish worker publishes it then)
+  async publishDraft(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { publishAt } = req.body;
+      const userId = req.user.userId;
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job || job.status !== 'draft') {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft not found'
+        });
+      }
+      
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to publish this draft'
+        });
+      }
+      
+      let publishDate = null;
+      if (publishAt) {
+        publishDate = new Date(publishAt);
+        if (isNaN(publishDate.getTime()) || publishDate <= new Date()) {
+          return res.status(400).json({
+            success: false,
+            message: 'The publication date must be in the future'
+          });
+        }
+      }
+      
+      const validationError = validateForPublication(job, publishDate || new Date());
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          message: validationError
+        });
+      }
+      
+      if (publishDate) {
+        const scheduledJob = await jobModel.update(jobId, { publishAt: publishDate });
+        
+        return res.status(200).json({
+          success: true,
+          message: 'Draft scheduled',
+          job: scheduledJob
+        });
+      }
+      
+      const publishedJob = await jobModel.publish(jobId);
+      
+      // Published (by the worker), or deleted, since it was loaded above
+      if (!publishedJob) {
+        return res.status(409).json({
+          success: false,
+          message: 'The draft is no longer a draft'
+        });
+      }
+      
+      await jobController.announceJob(req, publishedJob);
+      
+      const user = await userModel.findById(userId);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'Draft published',
+        job: {
+          ...publishedJob,
+          userName: user ? user.username : 'Unknown',
+          userPhoto: user ? user.avatar : null
+        }
+      });
+      
+    } catch (error) {
+      console.error('Error publishing draft:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error publishing draft',
+        error: error.message
+      });
+    }
+  },
+  
+  // Copy one of the current user's jobs into a new draft (content, pricing and
+  // attachments; the deadline and publication date are left for the owner to set)
+  async duplicateJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+      
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to duplicate this job'
+        });
+      }
+      
+      const draft = await jobModel.create({
+        title: job.title,
+        description: job.description,
+        category: job.category,
+        skills: job.skills || [],
+        budget: job.budget,
+        budgetType: job.budgetType,
+        budgetMin: job.budgetMin,
+        budgetMax: job.budgetMax,
+        currency: job.currency,
+        status: 'draft',
+        userId
+      });
+      
+      await fileModel.copyToJob(jobId, draft.id, userId);
+      
+      return res.status(201).json({
+        success: true,
+        message: 'Job duplicated as a draft',
+        job: draft
+      });
+      
+    } catch (error) {
+      console.error('Error duplicating job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error duplicating job',
+        error: error.message
+      });
+    }
+  },
+  
+  // Get the templates the current user can start a job from (own and global)
+  async getTemplates(req, res) {
+    try {
+      const userId = req.user.userId;
+      
+      const templates = await jobTemplateModel.findAvailable(userId);
+      
+      return res.status(200).json({
+        success: true,
+        templates
+      });
+      
+    } catch (error) {
+      console.error('Error getting job templates:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting job templates',
+        error: error.message
+      });
+    }
+  },
+  
+  // Save a private template. Like drafts, only the name is required; the pricing
+  // is normalized the same way (see parseDraftFields).
+  async createTemplate(req, res) {
+    try {
+      const { name } = req.body;
+      const userId = req.user.userId;
+      
+      if (!name || !String(name).trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'A name is required'
+        });
+      }
+      
+      const fields = parseDraftFields({ budgetType: 'fixed', ...req.body });
+      
+      const template = await jobTemplateModel.create({
+        name: String(name).trim(),
+        title: fields.title || '',
+        description: fields.description || '',
+        category: fields.category || '',
+        skills: fields.skills || [],
+        budgetType: fields.budgetType,
+        budgetMin: fields.budgetMin,
+        budgetMax: fields.budgetMax,
+        currency: fields.currency,
+        userId
+      });
+      
+      return res.status(201).json({
+        success: true,
+        message: 'Template saved successfully',
+        template
+      });
+      
+    } catch (error) {
+      console.error('Error saving job template:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error saving job template',
+        error: error.message
+      });
+    }
+  },
+  
+  // Delete one of the current user's templates (global templates cannot be deleted)
+  async deleteTemplate(req, res) {
+    try {
+      const { templateId } = req.params;
+      const userId = req.user.userId;
+      
+      const template = await jobTemplateModel.findById(templateId);
+      
+      if (!template) {
+        return res.status(404).json({
+          success: false,
+          message: 'Template not found'
+        });
+      }
+      
+      if (template.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to delete this template'
+        });
+      }
+      
+      await jobTemplateModel.delete(templateId);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'Template deleted successfully'
+      });
+      
+    } catch (error) {
+      console.error('Error deleting job template:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting job template',
+        error: error.message
+      });
+    }
+  },
+  
+  // Reopen an expired job with a new deadline (RENEWAL_DAYS from now unless one is sent)
+  async renewJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+      
+      const job = await jobModel.findById(jobId);
+      
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+      
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to renew this job'
+        });
+      }
+      
+      if (job.status !== 'expired') {
+        return res.status(400).json({
+          success: false,
+          message: 'Only expired jobs can be renewed'
+        });
+      }
+      
+      let deadline = new Date(Date.now() + RENEWAL_DAYS * 24 * 60 * 60 * 1000);
+      if (req.body.deadline) {
+        const parsed = parseDeadline(req.body.deadline);
+        
+        if (parsed.error) {
+          return res.status(400).json({
+            success: false,
+            message: parsed.error
+          });
+        }
+        deadline = parsed.deadline;
+      }
+      
+      const updatedJob = await jobModel.update(jobId, { status: 'open', deadline });
+      
+      const statusEntry = await jobStatusHistoryModel.create({
+        jobId,
+        fromStatus: job.status,
+        toStatus: 'open',
+        reason: 'Propuesta renovada',
+        userId
+      });
+      
+      const user = await userModel.findById(userId);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'Job renewed successfully',
+        job: {
+          ...updatedJob,
+          userName: user ? user.username : 'Unknown',
+          userPhoto: user ? user.avatar : null
+        },
+        statusEntry
+      });
+      
+    } catch (error) {
+      console.error('Error renewing job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error renewing job',
+        error: error.message
+      });
+    }
+  },
+  
   // Delete a job
   async deleteJob(req, res) {
     try {
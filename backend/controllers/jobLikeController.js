@@ -0,0 +1,66 @@
+
+const jobLikeModel = require('../models/jobLikeModel');
+const jobModel = require('../models/jobModel');
+
+const jobLikeController = {
+  // Like a job
+  async likeJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job || !jobModel.canSee(job, req.user)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      const likesCount = await jobLikeModel.like(jobId, userId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Job liked',
+        liked: true,
+        likesCount
+      });
+
+    } catch (error) {
+      console.error('Error liking job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error liking job',
+        error: error.message
+      });
+    }
+  },
+
+  // Remove the current user's like from a job
+  async unlikeJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      const likesCount = await jobLikeModel.unlike(jobId, userId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Job unliked',
+        liked: false,
+        likesCount
+      });
+
+    } catch (error) {
+      console.error('Error unliking job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error unliking job',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = jobLikeController;
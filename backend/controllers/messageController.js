@@ -2,9 +2,14 @@
 const messageModel = require('../models/messageModel');
 const chatModel = require('../models/chatModel');
 const fileModel = require('../models/fileModel');
+const reactionModel = require('../models/reactionModel');
+
+// Messages per history page
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
 
 const messageController = {
-  // Get messages for a chat
+  // Get a page of messages for a chat (?before=, ?after= or ?date=)
   async getMessages(req, res) {
     try {
       const { chatId } = req.params;
@@ -15,16 +20,23 @@ const messageController = {
         return res.status(403).json({ message: 'You are not a participant in this chat' });
       }
       
-      // Get messages
-      const messages = await messageModel.findByChatId(chatId);
+      const { before, after, date } = req.query;
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: 'Date must use the YYYY-MM-DD format' });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+      
+      // Get one page of messages
+      const page = await messageModel.findByChatId(chatId, { before, after, date, limit });
       
-      // Mark messages as read
-      await messageModel.markAsRead(chatId, req.user.userId);
+      // Attach the reactions of the page's messages
+      const reactions = await reactionModel.findByMessageIds(page.messages.map(m => m.id));
+      page.messages = page.messages.map(m => ({ ...m, reactions: reactions[m.id] || [] }));
       
       // Log message info for debugging
-      console.log(`Retrieved ${messages.length} messages for chat ${chatId}. User ID: ${req.user.userId}`);
+      console.log(`Retrieved ${page.messages.length} messages for chat ${chatId}. User ID: ${req.user.userId}`);
       
-      res.json(messages);
+      res.json(page);
     } catch (error) {
       console.error('Error getting messages:', error);
       res.status(500).json({ message: 'Server error' });
@@ -154,6 +166,54 @@ const messageController = {
     }
   },
   
+  // Toggle the user's emoji reaction on a message
+  async toggleReaction(req, res) {
+    try {
+      const { messageId } = req.params;
+      const { emoji } = req.body;
+      
+      if (!reactionModel.isValidEmoji(emoji)) {
+        return res.status(400).json({ message: 'A single emoji is required' });
+      }
+      
+      // Get message
+      const message = await messageModel.findById(messageId);
+      
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      // Any participant can react, but not to deleted messages
+      const isParticipant = await chatModel.isParticipant(message.chatId, req.user.userId);
+      if (!isParticipant) {
+        return res.status(403).json({ message: 'You are not a participant in this chat' });
+      }
+      
+      if (message.deleted) {
+        return res.status(400).json({ message: 'Cannot react to a deleted message' });
+      }
+      
+      await reactionModel.toggle(messageId, req.user.userId, emoji);
+      const reactions = await reactionModel.findByMessageId(messageId);
+      
+      // Get the socket service from the app
+      const socketService = req.app.get('socketService');
+      if (socketService) {
+        // Get all participants of the chat
+        const participants = await chatModel.getParticipants(message.chatId);
+        const participantIds = participants.map(p => p.id);
+        
+        // Notify all participants about the new reactions
+        socketService.notifyUsers(participantIds, 'chat:message:reactions', message.chatId, { messageId, reactions });
+      }
+      
+      res.json({ messageId, reactions });
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  },
+  
   // Delete a message
   async deleteMessage(req, res) {
     try {
@@ -0,0 +1,251 @@
+
+const reportModel = require('../models/reportModel');
+const jobModel = require('../models/jobModel');
+const commentModel = require('../models/commentModel');
+const messageModel = require('../models/messageModel');
+const chatModel = require('../models/chatModel');
+const userModel = require('../models/userModel');
+const notificationController = require('./notificationController');
+
+const REPORT_STATUSES = ['open', 'resolved', 'dismissed'];
+
+// What the author is told when a moderator hides their content
+const HIDDEN_NOTIFICATION_TITLES = {
+  job: 'Un moderador ha ocultado una de tus propuestas',
+  comment: 'Un moderador ha ocultado uno de tus comentarios',
+  message: 'Un moderador ha ocultado uno de tus mensajes'
+};
+
+// Hide a message and update it in the open chats of its participants
+const hideMessage = async (req, messageId) => {
+  const message = await messageModel.hide(messageId);
+  if (!message) return;
+
+  await chatModel.updateLastMessage(message.chatId);
+
+  const socketService = req.app.get('socketService');
+  if (socketService) {
+    const participants = await chatModel.getParticipants(message.chatId);
+    socketService.notifyUsers(participants.map(p => p.id), 'chat:message:delete', message.chatId, {
+      id: message.id,
+      chatId: message.chatId,
+      deleted: true,
+      content: message.content,
+      timestamp: message.updatedAt
+    });
+  }
+};
+
+// Find an open report; sends the error response and returns null otherwise
+const findOpenReport = async (req, res) => {
+  const report = await reportModel.findById(req.params.reportId);
+
+  if (!report) {
+    res.status(404).json({
+      success: false,
+      message: 'Report not found'
+    });
+    return null;
+  }
+
+  if (report.status !== 'open') {
+    res.status(400).json({
+      success: false,
+      message: 'This report has already been closed'
+    });
+    return null;
+  }
+
+  return report;
+};
+
+const moderationController = {
+  // Get the moderation queue (?status=open by default, or resolved / dismissed)
+  async getReports(req, res) {
+    try {
+      const status = req.query.status || 'open';
+
+      if (!REPORT_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${REPORT_STATUSES.join(', ')}`
+        });
+      }
+
+      const reports = await reportModel.findByStatus(status);
+
+      return res.status(200).json({
+        success: true,
+        reports
+      });
+
+    } catch (error) {
+      console.error('Error getting reports:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting reports',
+        error: error.message
+      });
+    }
+  },
+
+  // Hide the reported job, comment or message and resolve every open report about it
+  async hideContent(req, res) {
+    try {
+      const report = await findOpenReport(req, res);
+      if (!report) return;
+
+      if (report.targetType === 'job') {
+        await jobModel.hide(report.targetId);
+      } else if (report.targetType === 'comment') {
+        await commentModel.hide(report.targetId);
+      } else if (report.targetType === 'message') {
+        await hideMessage(req, report.targetId);
+      } else {
+        return res.status(400).json({
+          success: false,
+          message: 'Reported users cannot be hidden, suspend the account instead'
+        });
+      }
+
+      const reports = await reportModel.closeByTarget(report.targetType, report.targetId, {
+        status: 'resolved',
+        resolution: 'hidden',
+        resolvedBy: req.user.userId
+      });
+
+      if (report.targetUserId) {
+        await notificationController.notify(req, [report.targetUserId], {
+          type: 'moderation',
+          title: HIDDEN_NOTIFICATION_TITLES[report.targetType],
+          message: 'Incumple las normas de la comunidad.',
+          link: report.jobId ? `/jobs/${report.jobId}` : undefined,
+          data: { targetType: report.targetType, targetId: report.targetId }
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Content hidden successfully',
+        reports
+      });
+
+    } catch (error) {
+      console.error('Error hiding reported content:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error hiding reported content',
+        error: error.message
+      });
+    }
+  },
+
+  // Dismiss every open report about the reported content, leaving it as it is
+  async dismissReport(req, res) {
+    try {
+      const report = await findOpenReport(req, res);
+      if (!report) return;
+
+      const reports = await reportModel.closeByTarget(report.targetType, report.targetId, {
+        status: 'dismissed',
+        resolvedBy: req.user.userId
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Report dismissed successfully',
+        reports
+      });
+
+    } catch (error) {
+      console.error('Error dismissing report:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error dismissing report',
+        error: error.message
+      });
+    }
+  },
+
+  // Suspend an account: it is logged out and every open report against it is resolved
+  async suspendUser(req, res) {
+    try {
+      const { userId } = req.params;
+
+      const user = await userModel.findById(userId);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      if (user.role === 'admin') {
+        return res.status(400).json({
+          success: false,
+          message: 'Admin accounts cannot be suspended'
+        });
+      }
+
+      const suspendedUser = await userModel.setSuspended(userId, true);
+
+      const reports = await reportModel.resolveByTargetUser(userId, {
+        resolution: 'suspended',
+        resolvedBy: req.user.userId
+      });
+
+      const socketService = req.app.get('socketService');
+      if (socketService) {
+        socketService.disconnectUser(userId);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'User suspended successfully',
+        user: suspendedUser,
+        reports
+      });
+
+    } catch (error) {
+      console.error('Error suspending user:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error suspending user',
+        error: error.message
+      });
+    }
+  },
+
+  // Lift the suspension of an account
+  async unsuspendUser(req, res) {
+    try {
+      const { userId } = req.params;
+
+      const user = await userModel.setSuspended(userId, false);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Suspension lifted successfully',
+        user
+      });
+
+    } catch (error) {
+      console.error('Error lifting suspension:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error lifting suspension',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = moderationController;
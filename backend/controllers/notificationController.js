@@ -0,0 +1,97 @@
+
+const notificationModel = require('../models/notificationModel');
+
+const notificationController = {
+  // Helper used by other controllers: store a notification for each user and
+  // push it over Socket.IO to the ones that are connected
+  async notify(req, userIds, notificationData) {
+    const notifications = await Promise.all(
+      userIds.map(userId => notificationModel.create({ ...notificationData, userId }))
+    );
+
+    const socketService = req.app.get('socketService');
+    if (socketService) {
+      notifications.forEach(notification => {
+        socketService.notifyUsers([notification.userId], 'notification:new', notification);
+      });
+    }
+
+    return notifications;
+  },
+
+  // Get the current user's notifications
+  async getNotifications(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const notifications = await notificationModel.findByUserId(userId);
+
+      return res.status(200).json({
+        success: true,
+        notifications
+      });
+
+    } catch (error) {
+      console.error('Error getting notifications:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting notifications',
+        error: error.message
+      });
+    }
+  },
+
+  // Mark a notification as read
+  async markAsRead(req, res) {
+    try {
+      const { notificationId } = req.params;
+      const userId = req.user.userId;
+
+      const notification = await notificationModel.markAsRead(notificationId, userId);
+
+      if (!notification) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        notification
+      });
+
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error marking notification as read',
+        error: error.message
+      });
+    }
+  },
+
+  // Mark all notifications of the current user as read
+  async markAllAsRead(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const updatedCount = await notificationModel.markAllAsRead(userId);
+
+      return res.status(200).json({
+        success: true,
+        updatedCount
+      });
+
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error marking notifications as read',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = notificationController;
@@ -0,0 +1,242 @@
+
+const portfolioModel = require('../models/portfolioModel');
+const userModel = require('../models/userModel');
+
+const MAX_TAGS = 10;
+
+// Validate and normalize the editable fields of a portfolio item. Only the fields
+// sent are returned; the title is required when creating. Returns { fields } or { error }.
+const parseItemFields = (body, { requireTitle = false } = {}) => {
+  const fields = {};
+
+  if (body.title !== undefined || requireTitle) {
+    const title = String(body.title || '').trim();
+    if (!title) {
+      return { error: 'A title is required' };
+    }
+    fields.title = title;
+  }
+
+  if (body.description !== undefined) {
+    fields.description = String(body.description || '').trim();
+  }
+
+  if (body.link !== undefined) {
+    const link = String(body.link || '').trim();
+    if (link && !/^https?:\/\/\S+$/i.test(link)) {
+      return { error: 'The link must be an http(s) URL' };
+    }
+    fields.link = link || null;
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags)) {
+      return { error: 'Tags must be a list' };
+    }
+    const tags = [...new Set(body.tags.map(tag => String(tag).trim()).filter(Boolean))];
+    if (tags.length > MAX_TAGS) {
+      return { error: `A portfolio item cannot have more than ${MAX_TAGS} tags` };
+    }
+    fields.tags = tags;
+  }
+
+  return { fields };
+};
+
+const portfolioController = {
+  // Get the portfolio of a user
+  async getUserPortfolio(req, res) {
+    try {
+      const { userId } = req.params;
+
+      const items = await portfolioModel.findByUserId(userId);
+
+      return res.status(200).json({
+        success: true,
+        items
+      });
+
+    } catch (error) {
+      console.error('Error getting portfolio:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting portfolio',
+        error: error.message
+      });
+    }
+  },
+
+  // Add an item to the current user's portfolio (freelancers only)
+  async createItem(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const user = await userModel.findById(userId);
+      if (!user || user.role !== 'freelancer') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only freelancers can have a portfolio'
+        });
+      }
+
+      const { fields, error } = parseItemFields(req.body, { requireTitle: true });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error
+        });
+      }
+
+      const item = await portfolioModel.create({
+        description: '',
+        link: null,
+        tags: [],
+        ...fields,
+        userId
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Portfolio item created successfully',
+        item
+      });
+
+    } catch (error) {
+      console.error('Error creating portfolio item:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating portfolio item',
+        error: error.message
+      });
+    }
+  },
+
+  // Update one of the current user's portfolio items
+  async updateItem(req, res) {
+    try {
+      const { itemId } = req.params;
+      const userId = req.user.userId;
+
+      const item = await portfolioModel.findById(itemId);
+
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          message: 'Portfolio item not found'
+        });
+      }
+
+      if (item.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to edit this portfolio item'
+        });
+      }
+
+      const { fields, error } = parseItemFields(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error
+        });
+      }
+
+      const updatedItem = await portfolioModel.update(itemId, fields);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Portfolio item updated successfully',
+        item: updatedItem
+      });
+
+    } catch (error) {
+      console.error('Error updating portfolio item:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error updating portfolio item',
+        error: error.message
+      });
+    }
+  },
+
+  // Save a new display order for the current user's portfolio
+  async reorderItems(req, res) {
+    try {
+      const { itemIds } = req.body;
+      const userId = req.user.userId;
+
+      const items = await portfolioModel.findByUserId(userId);
+      const ownIds = items.map(item => item.id);
+
+      // The new order must contain every item of the portfolio exactly once
+      const isPermutation = Array.isArray(itemIds) &&
+        itemIds.length === ownIds.length &&
+        new Set(itemIds).size === itemIds.length &&
+        itemIds.every(id => ownIds.includes(id));
+
+      if (!isPermutation) {
+        return res.status(400).json({
+          success: false,
+          message: 'itemIds must list every item of your portfolio once'
+        });
+      }
+
+      await portfolioModel.reorder(userId, itemIds);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Portfolio reordered successfully',
+        items: await portfolioModel.findByUserId(userId)
+      });
+
+    } catch (error) {
+      console.error('Error reordering portfolio:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error reordering portfolio',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete one of the current user's portfolio items
+  async deleteItem(req, res) {
+    try {
+      const { itemId } = req.params;
+      const userId = req.user.userId;
+
+      const item = await portfolioModel.findById(itemId);
+
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          message: 'Portfolio item not found'
+        });
+      }
+
+      if (item.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to delete this portfolio item'
+        });
+      }
+
+      await portfolioModel.delete(itemId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Portfolio item deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting portfolio item:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting portfolio item',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = portfolioController;
@@ -0,0 +1,247 @@
+
+const proposalModel = require('../models/proposalModel');
+const jobModel = require('../models/jobModel');
+const userModel = require('../models/userModel');
+
+const proposalController = {
+  // Send a proposal to a job
+  async createProposal(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { coverLetter, bidAmount, estimatedDuration } = req.body;
+      const userId = req.user.userId;
+
+      // Validate required fields
+      if (!coverLetter || !bidAmount || !estimatedDuration) {
+        return res.status(400).json({
+          success: false,
+          message: 'Missing required fields (coverLetter, bidAmount, estimatedDuration)'
+        });
+      }
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      // The expiry worker runs periodically, so check the deadline here as well
+      const deadlinePassed = job.deadline && new Date(job.deadline) <= new Date();
+      
+      if (job.status !== 'open' || deadlinePassed) {
+        return res.status(400).json({
+          success: false,
+          message: 'This job is no longer accepting proposals'
+        });
+      }
+
+      if (job.userId === userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You cannot send a proposal to your own job'
+        });
+      }
+
+      // Only freelancers can bid
+      const user = await userModel.findById(userId);
+      if (!user || user.role !== 'freelancer') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only freelancers can send proposals'
+        });
+      }
+
+      const existingProposal = await proposalModel.findByJobAndUser(jobId, userId);
+      if (existingProposal) {
+        return res.status(409).json({
+          success: false,
+          message: 'You have already sent a proposal to this job'
+        });
+      }
+
+      const proposal = await proposalModel.create({
+        jobId,
+        userId,
+        coverLetter,
+        bidAmount: parseFloat(bidAmount),
+        estimatedDuration: parseInt(estimatedDuration, 10)
+      });
+
+      const proposalWithUser = {
+        ...proposal,
+        userName: user.name,
+        userPhoto: user.avatar
+      };
+
+      // Let the job owner know in real time
+      const socketService = req.app.get('socketService');
+      if (socketService) {
+        socketService.notifyUsers([job.userId], 'job:proposal', jobId, proposalWithUser);
+      }
+
+      return res.status(201).json({
+        success: true,
+        message: 'Proposal sent successfully',
+        proposal: proposalWithUser
+      });
+
+    } catch (error) {
+      console.error('Error creating proposal:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating proposal',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the proposals of a job
+  // The owner sees every proposal, anyone else only sees their own
+  async getProposals(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      let proposals;
+      if (job.userId === userId) {
+        proposals = await proposalModel.findByJobId(jobId);
+      } else {
+        const ownProposal = await proposalModel.findByJobAndUser(jobId, userId);
+        proposals = ownProposal ? [ownProposal] : [];
+      }
+
+      return res.status(200).json({
+        success: true,
+        proposals
+      });
+
+    } catch (error) {
+      console.error('Error getting proposals:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting proposals',
+        error: error.message
+      });
+    }
+  },
+
+  // Reject a proposal (job owner only)
+  async rejectProposal(req, res) {
+    try {
+      const { jobId, proposalId } = req.params;
+      const userId = req.user.userId;
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      if (job.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to manage proposals for this job'
+        });
+      }
+
+      const proposal = await proposalModel.findById(proposalId);
+
+      if (!proposal || proposal.jobId !== jobId) {
+        return res.status(404).json({
+          success: false,
+          message: 'Proposal not found'
+        });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(400).json({
+          success: false,
+          message: 'Only pending proposals can be rejected'
+        });
+      }
+
+      const updatedProposal = await proposalModel.updateStatus(proposalId, 'rejected');
+
+      return res.status(200).json({
+        success: true,
+        message: 'Proposal rejected',
+        proposal: {
+          ...updatedProposal,
+          userName: proposal.userName,
+          userPhoto: proposal.userPhoto
+        }
+      });
+
+    } catch (error) {
+      console.error('Error rejecting proposal:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error rejecting proposal',
+        error: error.message
+      });
+    }
+  },
+
+  // Withdraw a pending proposal (author only)
+  async deleteProposal(req, res) {
+    try {
+      const { jobId, proposalId } = req.params;
+      const userId = req.user.userId;
+
+      const proposal = await proposalModel.findById(proposalId);
+
+      if (!proposal || proposal.jobId !== jobId) {
+        return res.status(404).json({
+          success: false,
+          message: 'Proposal not found'
+        });
+      }
+
+      if (proposal.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to withdraw this proposal'
+        });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(400).json({
+          success: false,
+          message: 'Only pending proposals can be withdrawn'
+        });
+      }
+
+      await proposalModel.delete(proposalId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Proposal withdrawn successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting proposal:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting proposal',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = proposalController;
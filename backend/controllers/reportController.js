@@ -0,0 +1,125 @@
+
+const reportModel = require('../models/reportModel');
+const jobModel = require('../models/jobModel');
+const commentModel = require('../models/commentModel');
+const messageModel = require('../models/messageModel');
+const chatModel = require('../models/chatModel');
+const userModel = require('../models/userModel');
+
+const TARGET_TYPES = ['job', 'comment', 'message', 'user'];
+const REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'fraud', 'other'];
+const MAX_NOTE_LENGTH = 1000;
+
+// Every reportable entity has a UUID primary key
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Load the reported content as the reporter can see it. Returns the account
+// responsible for it and a copy of the content, or null if it cannot be reported.
+const findTarget = async (targetType, targetId, userId) => {
+  switch (targetType) {
+    case 'job': {
+      const job = await jobModel.findById(targetId);
+      if (!job || job.status === 'draft') return null;
+      return { targetUserId: job.userId, snapshot: `${job.title}\n\n${job.description}` };
+    }
+    case 'comment': {
+      const comment = await commentModel.findById(targetId);
+      if (!comment) return null;
+      return { targetUserId: comment.userId, snapshot: comment.content };
+    }
+    case 'message': {
+      // Only the participants of a chat can see (and report) its messages
+      const message = await messageModel.findById(targetId);
+      if (!message || message.deleted || !(await chatModel.isParticipant(message.chatId, userId))) return null;
+      return { targetUserId: message.senderId, snapshot: message.content };
+    }
+    case 'user': {
+      const user = await userModel.findById(targetId);
+      if (!user) return null;
+      return { targetUserId: user.id, snapshot: [user.name, user.bio].filter(Boolean).join('\n\n') };
+    }
+    default:
+      return null;
+  }
+};
+
+const reportController = {
+  // Report a job, comment, message or user to the moderators
+  async createReport(req, res) {
+    try {
+      const { targetType, targetId, reason, note } = req.body;
+      const userId = req.user.userId;
+
+      if (!TARGET_TYPES.includes(targetType) || !UUID_PATTERN.test(String(targetId || ''))) {
+        return res.status(400).json({
+          success: false,
+          message: 'A valid targetType and targetId are required'
+        });
+      }
+
+      if (!REPORT_REASONS.includes(reason)) {
+        return res.status(400).json({
+          success: false,
+          message: `Reason must be one of: ${REPORT_REASONS.join(', ')}`
+        });
+      }
+
+      const trimmedNote = note ? String(note).trim() : '';
+      if (trimmedNote.length > MAX_NOTE_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          message: `The note cannot be longer than ${MAX_NOTE_LENGTH} characters`
+        });
+      }
+
+      const target = await findTarget(targetType, targetId, userId);
+      if (!target) {
+        return res.status(404).json({
+          success: false,
+          message: 'Reported content not found'
+        });
+      }
+
+      if (target.targetUserId === userId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You cannot report your own content'
+        });
+      }
+
+      const existingReport = await reportModel.findByTargetAndReporter(targetType, targetId, userId);
+      if (existingReport) {
+        return res.status(409).json({
+          success: false,
+          message: 'You have already reported this'
+        });
+      }
+
+      const report = await reportModel.create({
+        targetType,
+        targetId,
+        targetUserId: target.targetUserId,
+        reason,
+        note: trimmedNote || null,
+        snapshot: target.snapshot,
+        reporterId: userId
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Report sent successfully',
+        report
+      });
+
+    } catch (error) {
+      console.error('Error creating report:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating report',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = reportController;
@@ -0,0 +1,163 @@
+
+const reviewModel = require('../models/reviewModel');
+const proposalModel = require('../models/proposalModel');
+const jobModel = require('../models/jobModel');
+const userModel = require('../models/userModel');
+const notificationController = require('./notificationController');
+
+const reviewController = {
+  // Review the other side of a completed job: the client reviews the freelancer
+  // whose proposal was accepted and the freelancer reviews the client
+  async createReview(req, res) {
+    try {
+      const { jobId } = req.params;
+      const { rating, comment } = req.body;
+      const userId = req.user.userId;
+
+      const ratingValue = parseInt(rating, 10);
+      if (!(ratingValue >= 1 && ratingValue <= 5) || String(ratingValue) !== String(rating).trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Rating must be a whole number between 1 and 5'
+        });
+      }
+
+      if (!comment || !String(comment).trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'A written review is required'
+        });
+      }
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      const acceptedProposal = await proposalModel.findAcceptedByJobId(jobId);
+      const freelancerId = acceptedProposal ? acceptedProposal.userId : null;
+
+      // Only the two participants of the job can review each other
+      let revieweeId = null;
+      if (userId === job.userId) {
+        revieweeId = freelancerId;
+      } else if (userId === freelancerId) {
+        revieweeId = job.userId;
+      }
+
+      if (!revieweeId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only the client and the hired freelancer can review this job'
+        });
+      }
+
+      if (job.status !== 'completed') {
+        return res.status(400).json({
+          success: false,
+          message: 'Reviews can only be left once the job is completed'
+        });
+      }
+
+      const existingReview = await reviewModel.findByJobAndReviewer(jobId, userId);
+      if (existingReview) {
+        return res.status(409).json({
+          success: false,
+          message: 'You have already reviewed this job'
+        });
+      }
+
+      const review = await reviewModel.create({
+        jobId,
+        reviewerId: userId,
+        revieweeId,
+        rating: ratingValue,
+        comment: String(comment).trim()
+      });
+
+      const reviewer = await userModel.findById(userId);
+      const reviewerName = reviewer ? reviewer.name : 'Un usuario';
+
+      await notificationController.notify(req, [revieweeId], {
+        type: 'review',
+        title: `${reviewerName} te ha valorado con ${ratingValue} ${ratingValue === 1 ? 'estrella' : 'estrellas'}`,
+        message: job.title,
+        link: `/jobs/${jobId}`,
+        data: { jobId, reviewId: review.id }
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Review saved successfully',
+        review: {
+          ...review,
+          reviewerName: reviewer ? reviewer.name : null,
+          reviewerPhoto: reviewer ? reviewer.avatar : null
+        }
+      });
+
+    } catch (error) {
+      console.error('Error creating review:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error creating review',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the reviews of a job
+  async getJobReviews(req, res) {
+    try {
+      const { jobId } = req.params;
+
+      const reviews = await reviewModel.findByJobId(jobId);
+
+      return res.status(200).json({
+        success: true,
+        reviews
+      });
+
+    } catch (error) {
+      console.error('Error getting job reviews:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting job reviews',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the reviews a user has received, with their average rating
+  async getUserReviews(req, res) {
+    try {
+      const { userId } = req.params;
+
+      const reviews = await reviewModel.findByRevieweeId(userId);
+      const averageRating = reviews.length > 0
+        ? Math.round(reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length * 10) / 10
+        : null;
+
+      return res.status(200).json({
+        success: true,
+        reviews,
+        averageRating,
+        reviewCount: reviews.length
+      });
+
+    } catch (error) {
+      console.error('Error getting user reviews:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting user reviews',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = reviewController;
@@ -0,0 +1,84 @@
+
+const savedJobModel = require('../models/savedJobModel');
+const jobModel = require('../models/jobModel');
+
+const savedJobController = {
+  // Get the jobs saved by the current user
+  async getSavedJobs(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const jobs = await savedJobModel.findByUserId(userId);
+
+      return res.status(200).json({
+        success: true,
+        jobs
+      });
+
+    } catch (error) {
+      console.error('Error getting saved jobs:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting saved jobs',
+        error: error.message
+      });
+    }
+  },
+
+  // Save a job for the current user
+  async saveJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      const job = await jobModel.findById(jobId);
+
+      if (!job || !jobModel.canSee(job, req.user)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found'
+        });
+      }
+
+      await savedJobModel.save(jobId, userId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Job saved successfully'
+      });
+
+    } catch (error) {
+      console.error('Error saving job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error saving job',
+        error: error.message
+      });
+    }
+  },
+
+  // Remove a job from the current user's saved jobs
+  async unsaveJob(req, res) {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user.userId;
+
+      await savedJobModel.remove(jobId, userId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Job removed from saved jobs'
+      });
+
+    } catch (error) {
+      console.error('Error unsaving job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error removing saved job',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = savedJobController;
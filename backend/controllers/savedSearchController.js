@@ -0,0 +1,182 @@
+
+const savedSearchModel = require('../models/savedSearchModel');
+
+// Filters that can be saved (same as the query of GET /api/jobs)
+const ALLOWED_FILTERS = ['search', 'category', 'status', 'budgetMin', 'budgetMax', 'budgetType', 'currency', 'skills', 'skillsMatch', 'postedWithin'];
+
+const JOB_STATUSES = ['open', 'in progress', 'completed', 'cancelled', 'expired'];
+const BUDGET_TYPES = ['fixed', 'hourly', 'range'];
+const SKILLS_MATCHES = ['any', 'all'];
+const POSTED_WITHIN_DAYS = [1, 7, 30];
+
+// Validate and normalize the saved filters: they are matched in SQL against every
+// new job, so a value of the wrong type would break the alerts of every user.
+// Unknown and empty filters are dropped. Returns { filters } or { error }.
+const parseFilters = (filters) => {
+  if (filters !== undefined && filters !== null && (typeof filters !== 'object' || Array.isArray(filters))) {
+    return { error: 'Filters must be an object' };
+  }
+
+  const cleanFilters = {};
+
+  for (const [key, value] of Object.entries(filters || {})) {
+    if (!ALLOWED_FILTERS.includes(key)) continue;
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+
+    switch (key) {
+      case 'search':
+      case 'category': {
+        if (typeof value !== 'string') return { error: `"${key}" must be a string` };
+        if (value.trim()) cleanFilters[key] = value.trim();
+        break;
+      }
+      case 'currency': {
+        const currency = typeof value === 'string' ? value.trim().toUpperCase() : '';
+        if (!/^[A-Z]{3}$/.test(currency)) return { error: 'Currency must be an ISO 4217 code (e.g. USD, EUR)' };
+        cleanFilters.currency = currency;
+        break;
+      }
+      case 'budgetMin':
+      case 'budgetMax': {
+        const amount = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+        if (!Number.isFinite(amount) || amount < 0) return { error: `"${key}" must be a non-negative number` };
+        cleanFilters[key] = amount;
+        break;
+      }
+      case 'skills': {
+        if (!Array.isArray(value) || value.some(skill => typeof skill !== 'string')) {
+          return { error: 'Skills must be a list of strings' };
+        }
+        const skills = value.map(skill => skill.trim()).filter(Boolean);
+        if (skills.length > 0) cleanFilters.skills = skills;
+        break;
+      }
+      case 'status':
+      case 'budgetType':
+      case 'skillsMatch':
+      case 'postedWithin': {
+        const allowed = {
+          status: JOB_STATUSES,
+          budgetType: BUDGET_TYPES,
+          skillsMatch: SKILLS_MATCHES,
+          postedWithin: POSTED_WITHIN_DAYS
+        }[key];
+        const option = key === 'postedWithin' ? Number(value) : value;
+        if (!allowed.includes(option)) return { error: `"${key}" must be one of: ${allowed.join(', ')}` };
+        cleanFilters[key] = option;
+        break;
+      }
+    }
+  }
+
+  return { filters: cleanFilters };
+};
+
+const savedSearchController = {
+  // Get the current user's saved searches
+  async getSavedSearches(req, res) {
+    try {
+      const userId = req.user.userId;
+
+      const savedSearches = await savedSearchModel.findByUserId(userId);
+
+      return res.status(200).json({
+        success: true,
+        savedSearches
+      });
+
+    } catch (error) {
+      console.error('Error getting saved searches:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error getting saved searches',
+        error: error.message
+      });
+    }
+  },
+
+  // Save a search under a name
+  async createSavedSearch(req, res) {
+    try {
+      const { name, filters } = req.body;
+      const userId = req.user.userId;
+
+      if (!name || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'A name is required'
+        });
+      }
+
+      const parsed = parseFilters(filters);
+      if (parsed.error) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error
+        });
+      }
+
+      const savedSearch = await savedSearchModel.create({
+        name: name.trim(),
+        filters: parsed.filters,
+        userId
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Search saved successfully',
+        savedSearch
+      });
+
+    } catch (error) {
+      console.error('Error saving search:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error saving search',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete a saved search
+  async deleteSavedSearch(req, res) {
+    try {
+      const { searchId } = req.params;
+      const userId = req.user.userId;
+
+      const savedSearch = await savedSearchModel.findById(searchId);
+
+      if (!savedSearch) {
+        return res.status(404).json({
+          success: false,
+          message: 'Saved search not found'
+        });
+      }
+
+      if (savedSearch.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have permission to delete this search'
+        });
+      }
+
+      await savedSearchModel.delete(searchId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Saved search deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error deleting saved search',
+        error: error.message
+      });
+    }
+  }
+};
+
+module.exports = savedSearchController;
@@ -13,6 +13,29 @@ const userController = {
     }
   },
   
+  // Search freelancers by skills, hourly rate range and online status
+  async getFreelancers(req, res) {
+    try {
+      const { skills, rateMin, rateMax, online, sort } = req.query;
+      const toNumber = (value) =>
+        value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+      
+      const users = await userModel.findFreelancers({
+        skills: skills ? String(skills).split(',').map(s => s.trim()).filter(Boolean) : [],
+        rateMin: toNumber(rateMin),
+        rateMax: toNumber(rateMax),
+        online: online === 'true',
+        sort,
+        excludeUserId: req.user.userId
+      });
+      
+      res.json(users);
+    } catch (error) {
+      console.error('Error getting freelancers:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  },
+  
   // Get user by ID
   async getUserById(req, res) {
     try {
@@ -32,13 +55,18 @@ const userController = {
   // Update user profile
   async updateProfile(req, res) {
     try {
-      const { username, avatar, bio, skills } = req.body;
+      const { username, avatar, bio, skills, hourlyRate } = req.body;
+      
+      if (hourlyRate !== undefined && hourlyRate !== null && (isNaN(Number(hourlyRate)) || Number(hourlyRate) < 0)) {
+        return res.status(400).json({ message: 'Hourly rate must be a positive number' });
+      }
       
       const updatedUser = await userModel.updateProfile(req.user.userId, {
         username,
         avatar,
         bio,
-        skills
+        skills,
+        hourlyRate: hourlyRate !== undefined && hourlyRate !== null ? Number(hourlyRate) : null
       });
       
       res.json(updatedUser);
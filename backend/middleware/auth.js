@@ -1,5 +1,6 @@
 
 const jwt = require('jsonwebtoken');
+const userModel = require('../models/userModel');
 require('dotenv').config();
 
 // JWT Middleware for REST API
@@ -17,15 +18,36 @@ const authenticateToken = (req, res, next) => {
     return res.status(401).json({ message: 'No authentication token provided' });
   }
   
-  jwt.verify(token, process.env.JWT_SECRET, (err, user) => {
+  jwt.verify(token, process.env.JWT_SECRET, async (err, user) => {
     if (err) {
       return res.status(403).json({ message: 'Invalid or expired token' });
     }
-    req.user = user;
-    next();
+    
+    try {
+      // The role is read on each request (it is not in the token) and suspended
+      // accounts are rejected even if their token is still valid
+      const account = await userModel.findAccountStatus(user.userId);
+      if (account && account.suspendedAt) {
+        return res.status(403).json({ message: 'This account has been suspended', suspended: true });
+      }
+      
+      req.user = { ...user, role: account ? account.role : undefined };
+      next();
+    } catch (error) {
+      console.error('Error checking account status:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
   });
 };
 
+// Admin-only routes (use after authenticateToken)
+const requireAdmin = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
 // Socket.io Authentication Middleware
 const authenticateSocketToken = (socket, next) => {
   const token = socket.handshake.auth.token;
@@ -34,10 +56,20 @@ const authenticateSocketToken = (socket, next) => {
     return next(new Error('No authentication token provided'));
   }
   
-  jwt.verify(token, process.env.JWT_SECRET, (err, decoded) => {
+  jwt.verify(token, process.env.JWT_SECRET, async (err, decoded) => {
     if (err) {
       return next(new Error('Invalid or expired token'));
     }
+    
+    try {
+      const account = await userModel.findAccountStatus(decoded.userId);
+      if (account && account.suspendedAt) {
+        return next(new Error('This account has been suspended'));
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
     socket.user = decoded;
     next();
   });
@@ -45,5 +77,6 @@ const authenticateSocketToken = (socket, next) => {
 
 module.exports = {
   authenticateToken,
+  requireAdmin,
   authenticateSocketToken
 };
@@ -22,12 +22,19 @@ const chatModel = {
     return result.rows[0];
   },
   
-  // Get all chats for a user
+  // Get all chats for a user, with how many messages from others they have not read yet
   async findByUserId(userId) {
     const result = await db.query(
       `
-        SELECT c.* FROM "Chats" c
+        SELECT c.*, (
+          SELECT COUNT(*)::int FROM "Messages" m
+          WHERE m."chatId" = c.id
+            AND m."userId" IS DISTINCT FROM cp."userId"
+            AND (lr.id IS NULL OR (m."createdAt", m.id) > (lr."createdAt", lr.id))
+        ) AS "unreadCount"
+        FROM "Chats" c
         JOIN "ChatParticipants" cp ON c.id = cp."chatId"
+        LEFT JOIN "Messages" lr ON lr.id = cp."lastReadMessageId"
         WHERE cp."userId" = $1
         ORDER BY c."updatedAt" DESC
       `,
@@ -50,10 +57,14 @@ const chatModel = {
         [chatId, userId]
       );
       
-      // Only add if not already in chat
+      // Only add if not already in chat; earlier history does not count as unread for new members
       if (checkResult.rows.length === 0) {
         const result = await db.query(
-          'INSERT INTO "ChatParticipants" (id, "userId", "chatId", "createdAt", "updatedAt") VALUES ($1, $2, $3, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) RETURNING *',
+          `INSERT INTO "ChatParticipants" (id, "userId", "chatId", "lastReadMessageId", "createdAt", "updatedAt")
+           VALUES ($1, $2, $3, (
+             SELECT id FROM "Messages" WHERE "chatId" = $3 ORDER BY "createdAt" DESC, id DESC LIMIT 1
+           ), CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+           RETURNING *`,
           [participantId, userId, chatId]
         );
         
@@ -147,7 +158,7 @@ const chatModel = {
   async getParticipants(chatId) {
     const result = await db.query(
       `
-        SELECT u.id, u.name, u.email, u."photoURL", u."isOnline"
+        SELECT u.id, u.name, u.email, u."photoURL", u."isOnline", cp."lastReadMessageId"
         FROM "Users" u
         JOIN "ChatParticipants" cp ON u.id = cp."userId"
         WHERE cp."chatId" = $1
@@ -158,6 +169,37 @@ const chatModel = {
     return result.rows;
   },
   
+  // Move a participant's read cursor forward to a message (by default the latest one).
+  // Returns the new cursor, or null when it was already there or further ahead.
+  async markAsRead(chatId, userId, messageId = null) {
+    const result = await db.query(
+      `
+        UPDATE "ChatParticipants" cp
+        SET "lastReadMessageId" = target.id, "updatedAt" = CURRENT_TIMESTAMP
+        FROM (
+          SELECT id, "createdAt" FROM "Messages"
+          WHERE "chatId" = $1 AND ($3::uuid IS NULL OR id = $3::uuid)
+          ORDER BY "createdAt" DESC, id DESC
+          LIMIT 1
+        ) target
+        WHERE cp."chatId" = $1 AND cp."userId" = $2
+          AND (
+            cp."lastReadMessageId" IS NULL
+            OR (target."createdAt", target.id) > (SELECT "createdAt", id FROM "Messages" WHERE id = cp."lastReadMessageId")
+          )
+        RETURNING cp."userId", cp."lastReadMessageId"
+      `,
+      [chatId, userId, messageId]
+    );
+    
+    return result.rows[0] || null;
+  },
+  
+  // Last message read by each participant, keyed by user id
+  getReadCursors(participants) {
+    return Object.fromEntries(participants.map(p => [p.id, p.lastReadMessageId || null]));
+  },
+  
   // Format chat data with participants for frontend
   async formatChatWithParticipants(chat, currentUserId) {
     if (!chat) return null;
@@ -178,7 +220,8 @@ const chatModel = {
       ...chat,
       participants: participantIds,
       otherUser,
-      participantDetails: participants
+      participantDetails: participants,
+      readCursors: this.getReadCursors(participants)
     };
   }
 };
@@ -0,0 +1,122 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// Format a comment or reply row to the shape used by the frontend
+const formatRow = (row) => ({
+  ...row,
+  text: row.content,
+  timestamp: new Date(row.createdAt).getTime()
+});
+
+const commentModel = {
+  // Create a new comment on a job
+  async create(commentData) {
+    const { jobId, userId, content } = commentData;
+    const id = uuidv4();
+    const now = new Date();
+
+    await db.query(
+      `INSERT INTO "Comments" (id, content, "jobId", "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, content, jobId, userId, now, now]
+    );
+
+    return this.findById(id);
+  },
+
+  // Find comment by ID, with author info
+  async findById(commentId) {
+    const result = await db.query(
+      `SELECT c.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Comments" c
+       LEFT JOIN "Users" u ON c."userId" = u.id
+       WHERE c.id = $1`,
+      [commentId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { ...formatRow(result.rows[0]), replies: [] };
+  },
+
+  // Get all comments of a job with their replies, oldest first
+  async findByJobId(jobId) {
+    const commentsResult = await db.query(
+      `SELECT c.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Comments" c
+       LEFT JOIN "Users" u ON c."userId" = u.id
+       WHERE c."jobId" = $1 AND c."hiddenAt" IS NULL
+       ORDER BY c."createdAt" ASC`,
+      [jobId]
+    );
+
+    const repliesResult = await db.query(
+      `SELECT r.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Replies" r
+       JOIN "Comments" c ON r."commentId" = c.id
+       LEFT JOIN "Users" u ON r."userId" = u.id
+       WHERE c."jobId" = $1
+       ORDER BY r."createdAt" ASC`,
+      [jobId]
+    );
+
+    return commentsResult.rows.map(comment => ({
+      ...formatRow(comment),
+      replies: repliesResult.rows
+        .filter(reply => reply.commentId === comment.id)
+        .map(formatRow)
+    }));
+  },
+
+  // Create a reply to a comment
+  async createReply(replyData) {
+    const { commentId, userId, content } = replyData;
+    const id = uuidv4();
+    const now = new Date();
+
+    await db.query(
+      `INSERT INTO "Replies" (id, content, "commentId", "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, content, commentId, userId, now, now]
+    );
+
+    const result = await db.query(
+      `SELECT r.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Replies" r
+       LEFT JOIN "Users" u ON r."userId" = u.id
+       WHERE r.id = $1`,
+      [id]
+    );
+
+    return formatRow(result.rows[0]);
+  },
+
+  // Hide a comment (and its replies) taken down by a moderator
+  async hide(commentId) {
+    await db.query(
+      'UPDATE "Comments" SET "hiddenAt" = CURRENT_TIMESTAMP WHERE id = $1',
+      [commentId]
+    );
+  },
+
+  // Delete a comment and its replies
+  async delete(commentId) {
+    await db.query('DELETE FROM "Replies" WHERE "commentId" = $1', [commentId]);
+    await db.query('DELETE FROM "Comments" WHERE id = $1', [commentId]);
+    return true;
+  },
+
+  // Delete every comment (and reply) of a job
+  async deleteByJobId(jobId) {
+    await db.query(
+      'DELETE FROM "Replies" WHERE "commentId" IN (SELECT id FROM "Comments" WHERE "jobId" = $1)',
+      [jobId]
+    );
+    await db.query('DELETE FROM "Comments" WHERE "jobId" = $1', [jobId]);
+  }
+};
+
+module.exports = commentModel;
@@ -110,3 +110,267 @@ CREATE TABLE IF NOT EXISTS "SavedJobs" (
   "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   PRIMARY KEY ("JobId", "UserId")
 );
+
+-- Proposals Table (bids sent by freelancers on a job)
+CREATE TABLE IF NOT EXISTS "Proposals" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "coverLetter" TEXT NOT NULL,
+  "bidAmount" FLOAT NOT NULL,
+  "estimatedDuration" INTEGER NOT NULL,
+  status VARCHAR(50) DEFAULT 'pending',
+  "jobId" UUID NOT NULL REFERENCES "Jobs"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE("jobId", "userId")
+);
+
+-- Full-text search on jobs (title > skills > description, Spanish stemming).
+-- A trigger keeps "searchVector" up to date because array_to_string is not
+-- immutable and cannot be used in a generated column.
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "searchVector" TSVECTOR;
+
+CREATE OR REPLACE FUNCTION jobs_search_vector_update() RETURNS TRIGGER AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('spanish', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('spanish', COALESCE(array_to_string(NEW.skills, ' '), '')), 'B') ||
+    setweight(to_tsvector('spanish', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS jobs_search_vector_trigger ON "Jobs";
+CREATE TRIGGER jobs_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, description, skills ON "Jobs"
+  FOR EACH ROW EXECUTE FUNCTION jobs_search_vector_update();
+
+-- Fill the vector for jobs created before the trigger existed
+UPDATE "Jobs" SET title = title WHERE "searchVector" IS NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_search_vector_idx ON "Jobs" USING GIN ("searchVector");
+
+-- Saved Searches Table (JobsPage filters saved under a name, used for new-job alerts)
+CREATE TABLE IF NOT EXISTS "SavedSearches" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notifications Table (persistent in-app notifications)
+CREATE TABLE IF NOT EXISTS "Notifications" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(50) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  message TEXT,
+  link VARCHAR(255),
+  data JSONB DEFAULT '{}'::jsonb,
+  read BOOLEAN DEFAULT FALSE,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON "Notifications" ("userId", "createdAt" DESC);
+
+-- Job Status History Table (every status change of a job, with who made it and why)
+CREATE TABLE IF NOT EXISTS "JobStatusHistory" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "jobId" UUID NOT NULL REFERENCES "Jobs"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "fromStatus" VARCHAR(50),
+  "toStatus" VARCHAR(50) NOT NULL,
+  reason TEXT,
+  "userId" UUID REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS job_status_history_job_idx ON "JobStatusHistory" ("jobId", "createdAt");
+
+-- Jobs created before the history existed start with their creation entry.
+-- Drafts get theirs when they are published.
+INSERT INTO "JobStatusHistory" ("jobId", "fromStatus", "toStatus", "userId", "createdAt")
+SELECT j.id, NULL, j.status, j."userId", j."createdAt"
+FROM "Jobs" j
+WHERE j.status <> 'draft'
+  AND NOT EXISTS (SELECT 1 FROM "JobStatusHistory" h WHERE h."jobId" = j.id);
+
+-- Drop the creation entries an earlier version of the backfill gave to drafts
+DELETE FROM "JobStatusHistory" h
+USING "Jobs" j
+WHERE h."jobId" = j.id AND j.status = 'draft';
+
+-- Job attachments (briefs, mockups, specs) are stored in "Files" linked to their job
+ALTER TABLE "Files" ADD COLUMN IF NOT EXISTS "jobId" UUID REFERENCES "Jobs"(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS files_job_idx ON "Files" ("jobId");
+
+-- Pricing model of a job: a fixed price, an hourly rate or a range, in an ISO 4217
+-- currency. Fixed and hourly jobs have budgetMin = budgetMax. "budget" keeps the
+-- upper amount so the queries that need a single figure (scoring, sorting) still work.
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "budgetType" VARCHAR(10) NOT NULL DEFAULT 'fixed';
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "budgetMin" FLOAT;
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "budgetMax" FLOAT;
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD';
+
+-- Existing jobs become fixed-price jobs in USD
+UPDATE "Jobs" SET "budgetMin" = budget, "budgetMax" = budget WHERE "budgetMin" IS NULL OR "budgetMax" IS NULL;
+
+ALTER TABLE "Jobs" DROP CONSTRAINT IF EXISTS jobs_budget_type_check;
+ALTER TABLE "Jobs" ADD CONSTRAINT jobs_budget_type_check CHECK ("budgetType" IN ('fixed', 'hourly', 'range'));
+
+-- Application deadline of a job. Open jobs past their deadline are moved to
+-- "expired" by the expiry worker (workers/jobExpiryWorker.js) and can be renewed.
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS deadline TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS jobs_open_deadline_idx ON "Jobs" (deadline) WHERE status = 'open';
+
+-- Drafts are jobs with status "draft", only visible to their owner. A draft with a
+-- "publishAt" date is published at that time by the publish worker (workers/jobPublishWorker.js).
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "publishAt" TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS jobs_draft_publish_at_idx ON "Jobs" ("publishAt") WHERE status = 'draft';
+
+-- Job templates: reusable starting points for new jobs (title, description skeleton,
+-- category, skills and pricing). Templates with a NULL "userId" are global and
+-- shared by everyone (seeded by scripts/initDb.js); the rest are private to their owner.
+CREATE TABLE IF NOT EXISTS "JobTemplates" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  title VARCHAR(255) NOT NULL DEFAULT '',
+  description TEXT NOT NULL DEFAULT '',
+  category VARCHAR(255) NOT NULL DEFAULT '',
+  skills VARCHAR(255)[] DEFAULT ARRAY[]::VARCHAR(255)[],
+  "budgetType" VARCHAR(10) NOT NULL DEFAULT 'fixed',
+  "budgetMin" FLOAT,
+  "budgetMax" FLOAT,
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  "userId" UUID REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS job_templates_user_idx ON "JobTemplates" ("userId");
+
+-- Invitations sent by a client to a freelancer to bid on one of their jobs.
+-- status: pending -> accepted | declined (accepting leads the freelancer to the proposal form)
+CREATE TABLE IF NOT EXISTS "JobInvitations" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  "jobId" UUID NOT NULL REFERENCES "Jobs"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "invitedBy" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE("jobId", "userId")
+);
+
+CREATE INDEX IF NOT EXISTS job_invitations_user_idx ON "JobInvitations" ("userId");
+
+-- Reviews left after a job is completed: the client reviews the freelancer whose
+-- proposal was accepted and vice versa, once per side and job
+CREATE TABLE IF NOT EXISTS "Reviews" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT NOT NULL,
+  "jobId" UUID NOT NULL REFERENCES "Jobs"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "reviewerId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "revieweeId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE("jobId", "reviewerId")
+);
+
+CREATE INDEX IF NOT EXISTS reviews_reviewee_idx ON "Reviews" ("revieweeId");
+
+-- Portfolio of a freelancer: past work with a description, an optional external link
+-- and skill tags, shown in the order chosen by its owner ("position"). Images and
+-- other files are stored in "Files" linked to their item.
+CREATE TABLE IF NOT EXISTS "PortfolioItems" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  link VARCHAR(2048),
+  tags VARCHAR(255)[] DEFAULT ARRAY[]::VARCHAR(255)[],
+  position INTEGER NOT NULL DEFAULT 0,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS portfolio_items_user_idx ON "PortfolioItems" ("userId", position);
+
+ALTER TABLE "Files" ADD COLUMN IF NOT EXISTS "portfolioItemId" UUID REFERENCES "PortfolioItems"(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS files_portfolio_item_idx ON "Files" ("portfolioItemId");
+
+-- Reports of abusive content sent by users, reviewed by admins in the moderation queue.
+-- targetType is 'job', 'comment', 'message' or 'user'; "targetUserId" is the reported
+-- account (the author of the content) and snapshot keeps the content as it was reported.
+CREATE TABLE IF NOT EXISTS "Reports" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "targetType" VARCHAR(20) NOT NULL CHECK ("targetType" IN ('job', 'comment', 'message', 'user')),
+  "targetId" UUID NOT NULL,
+  "targetUserId" UUID REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  reason VARCHAR(50) NOT NULL,
+  note TEXT,
+  snapshot TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution VARCHAR(20) CHECK (resolution IN ('hidden', 'suspended')),
+  "reporterId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "resolvedBy" UUID REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  "resolvedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE("targetType", "targetId", "reporterId")
+);
+
+CREATE INDEX IF NOT EXISTS reports_status_idx ON "Reports" (status, "createdAt");
+CREATE INDEX IF NOT EXISTS reports_target_idx ON "Reports" ("targetType", "targetId");
+
+-- Content hidden by a moderator stays in the database but is no longer shown
+ALTER TABLE "Jobs" ADD COLUMN IF NOT EXISTS "hiddenAt" TIMESTAMP;
+ALTER TABLE "Comments" ADD COLUMN IF NOT EXISTS "hiddenAt" TIMESTAMP;
+ALTER TABLE "Messages" ADD COLUMN IF NOT EXISTS "hiddenAt" TIMESTAMP;
+
+-- Suspended accounts cannot log in or use the API
+ALTER TABLE "Users" ADD COLUMN IF NOT EXISTS "suspendedAt" TIMESTAMP;
+
+-- Chat history is read newest first, one page at a time
+CREATE INDEX IF NOT EXISTS messages_chat_created_idx ON "Messages" ("chatId", "createdAt", id);
+
+-- Read cursors: the last message each participant has read in a chat.
+-- When the column is first added, existing conversations start as read.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ChatParticipants' AND column_name = 'lastReadMessageId'
+  ) THEN
+    ALTER TABLE "ChatParticipants"
+      ADD COLUMN "lastReadMessageId" UUID REFERENCES "Messages"(id) ON DELETE SET NULL;
+
+    UPDATE "ChatParticipants" cp
+    SET "lastReadMessageId" = (
+      SELECT m.id FROM "Messages" m
+      WHERE m."chatId" = cp."chatId"
+      ORDER BY m."createdAt" DESC, m.id DESC
+      LIMIT 1
+    );
+  END IF;
+END $$;
+
+-- Emoji reactions to chat messages; each user can add each emoji once per message
+CREATE TABLE IF NOT EXISTS "MessageReactions" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "messageId" UUID NOT NULL REFERENCES "Messages"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  "userId" UUID NOT NULL REFERENCES "Users"(id) ON UPDATE CASCADE ON DELETE CASCADE,
+  emoji VARCHAR(32) NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE("messageId", "userId", emoji)
+);
+
+CREATE INDEX IF NOT EXISTS message_reactions_message_idx ON "MessageReactions" ("messageId");
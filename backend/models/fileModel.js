@@ -2,13 +2,13 @@
 const db = require('../config/database');
 
 const fileModel = {
-  // Save a new file
+  // Save a new file (jobId is set for job attachments, portfolioItemId for portfolio files)
   async create(fileData) {
-    const { filename, contentType, size, data, uploadedBy } = fileData;
+    const { filename, contentType, size, data, uploadedBy, jobId = null, portfolioItemId = null } = fileData;
     
     const result = await db.query(
-      'INSERT INTO files (filename, content_type, size, data, uploaded_by) VALUES ($1, $2, $3, $4, $5) RETURNING id, filename, content_type, size, uploaded_by',
-      [filename, contentType, size, data, uploadedBy]
+      'INSERT INTO "Files" (filename, content_type, size, data, uploaded_by, "jobId", "portfolioItemId") VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id, filename, content_type, size, uploaded_by, "jobId", "portfolioItemId", created_at',
+      [filename, contentType, size, data, uploadedBy, jobId, portfolioItemId]
     );
     
     return result.rows[0];
@@ -16,13 +16,42 @@ const fileModel = {
   
   // Get a file by ID
   async findById(fileId) {
-    const result = await db.query('SELECT * FROM files WHERE id = $1', [fileId]);
+    const result = await db.query('SELECT * FROM "Files" WHERE id = $1', [fileId]);
     return result.rows[0];
   },
   
+  // Get the attachments of a job (without the binary data), oldest first
+  async findByJobId(jobId) {
+    const result = await db.query(
+      `SELECT id, filename, content_type as "contentType", size, "jobId", created_at as "createdAt"
+       FROM "Files"
+       WHERE "jobId" = $1
+       ORDER BY created_at ASC`,
+      [jobId]
+    );
+    return result.rows;
+  },
+  
+  // Copy the attachments of a job to another job (used when duplicating a job)
+  async copyToJob(fromJobId, toJobId, uploadedBy) {
+    await db.query(
+      `INSERT INTO "Files" (filename, content_type, size, data, uploaded_by, "jobId")
+       SELECT filename, content_type, size, data, $3, $2
+       FROM "Files"
+       WHERE "jobId" = $1
+       ORDER BY created_at ASC`,
+      [fromJobId, toJobId, uploadedBy]
+    );
+  },
+  
   // Delete a file
   async delete(fileId) {
-    await db.query('DELETE FROM files WHERE id = $1', [fileId]);
+    await db.query('DELETE FROM "Files" WHERE id = $1', [fileId]);
+  },
+  
+  // Delete every attachment of a job
+  async deleteByJobId(jobId) {
+    await db.query('DELETE FROM "Files" WHERE "jobId" = $1', [jobId]);
   }
 };
 
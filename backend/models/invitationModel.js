@@ -0,0 +1,92 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// Job and inviter details shown in the invitations inbox
+const invitationColumns = `i.*, j.title as "jobTitle", j.status as "jobStatus", j.deadline as "jobDeadline",
+       u.name as "invitedByName", u."photoURL" as "invitedByPhoto"`;
+
+const invitationModel = {
+  // Invite a user to bid on a job
+  async create(invitationData) {
+    const { jobId, userId, invitedBy, message } = invitationData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "JobInvitations" (id, message, status, "jobId", "userId", "invitedBy", "createdAt", "updatedAt")
+       VALUES ($1, $2, 'pending', $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [id, message, jobId, userId, invitedBy, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the invitations received by a user, newest first
+  async findByUserId(userId) {
+    const result = await db.query(
+      `SELECT ${invitationColumns}
+       FROM "JobInvitations" i
+       JOIN "Jobs" j ON i."jobId" = j.id
+       LEFT JOIN "Users" u ON i."invitedBy" = u.id
+       WHERE i."userId" = $1
+       ORDER BY i."createdAt" DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  },
+
+  // Get the invitations sent for a job, with the invitee's name and photo
+  async findByJobId(jobId) {
+    const result = await db.query(
+      `SELECT i.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "JobInvitations" i
+       LEFT JOIN "Users" u ON i."userId" = u.id
+       WHERE i."jobId" = $1
+       ORDER BY i."createdAt" DESC`,
+      [jobId]
+    );
+
+    return result.rows;
+  },
+
+  // Find invitation by ID
+  async findById(invitationId) {
+    const result = await db.query(
+      `SELECT ${invitationColumns}
+       FROM "JobInvitations" i
+       JOIN "Jobs" j ON i."jobId" = j.id
+       LEFT JOIN "Users" u ON i."invitedBy" = u.id
+       WHERE i.id = $1`,
+      [invitationId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Find the invitation of a user to a job, if any
+  async findByJobAndUser(jobId, userId) {
+    const result = await db.query(
+      'SELECT * FROM "JobInvitations" WHERE "jobId" = $1 AND "userId" = $2',
+      [jobId, userId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Accept or decline an invitation
+  async updateStatus(invitationId, status) {
+    const result = await db.query(
+      `UPDATE "JobInvitations" SET status = $1, "updatedAt" = $2
+       WHERE id = $3
+       RETURNING *`,
+      [status, new Date(), invitationId]
+    );
+
+    return result.rows[0] || null;
+  }
+};
+
+module.exports = invitationModel;
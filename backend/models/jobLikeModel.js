@@ -0,0 +1,40 @@
+
+const db = require('../config/database');
+
+const jobLikeModel = {
+  // Like a job (liking twice is a no-op)
+  async like(jobId, userId) {
+    const now = new Date();
+
+    await db.query(
+      `INSERT INTO "JobLikes" ("JobId", "UserId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ("JobId", "UserId") DO NOTHING`,
+      [jobId, userId, now, now]
+    );
+
+    return this.countByJobId(jobId);
+  },
+
+  // Remove a like
+  async unlike(jobId, userId) {
+    await db.query(
+      'DELETE FROM "JobLikes" WHERE "JobId" = $1 AND "UserId" = $2',
+      [jobId, userId]
+    );
+
+    return this.countByJobId(jobId);
+  },
+
+  // Count the likes of a job
+  async countByJobId(jobId) {
+    const result = await db.query(
+      'SELECT COUNT(*)::int as count FROM "JobLikes" WHERE "JobId" = $1',
+      [jobId]
+    );
+
+    return result.rows[0].count;
+  }
+};
+
+module.exports = jobLikeModel;
@@ -1,70 +1,309 @@
 
 const db = require('../config/database');
 const { v4: uuidv4 } = require('uuid');
+const commentModel = require('./commentModel');
+const fileModel = require('./fileModel');
+
+// Like and comment counts shown next to every job
+const jobStatsColumns = `
+  (SELECT COUNT(*) FROM "JobLikes" l WHERE l."JobId" = j.id)::int as "likesCount",
+  (SELECT COUNT(*) FROM "Comments" c WHERE c."jobId" = j.id AND c."hiddenAt" IS NULL)::int as "commentsCount"
+`;
+
+// Whether the given user (query parameter $index) liked the job
+const likedByColumn = (index) =>
+  `EXISTS (SELECT 1 FROM "JobLikes" l WHERE l."JobId" = j.id AND l."UserId" = $${index}) as "likedByMe"`;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Cursors are opaque to the client: base64url-encoded JSON.
+// Date-ordered pages use the last row's (createdAt, id) as a keyset; relevance-ordered
+// search pages use an offset, since ts_rank values are not a stable key.
+const encodeCursor = (data) => Buffer.from(JSON.stringify(data)).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  if (!cursor) return null;
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+};
+
+// Buckets shown as facets in the jobs filter panel
+const BUDGET_RANGES = [
+  { value: '0-500', min: 0, max: 500 },
+  { value: '500-1000', min: 500, max: 1000 },
+  { value: '1000-5000', min: 1000, max: 5000 },
+  { value: '5000+', min: 5000, max: null }
+];
+const POSTED_WITHIN_DAYS = [1, 7, 30];
+
+// Build the WHERE conditions shared by the listing and its facets.
+// `exclude` leaves one filter out, so each facet counts the options of that
+// filter as if it were not applied (otherwise picking one hides the others).
+// Returns the conditions and the placeholder of the search query, if any.
+const buildFilterConditions = (filter, params, exclude = null) => {
+  const conditions = [];
+  let searchParam = null;
+  
+  // Drafts are private and hidden jobs were taken down by a moderator: both are only
+  // listed for their owner, when listing their own jobs
+  if (!filter.userId || filter.userId !== filter.currentUserId) {
+    conditions.push(`j.status <> 'draft'`);
+    conditions.push(`j."hiddenAt" IS NULL`);
+  }
+  
+  if (filter.search) {
+    params.push(filter.search);
+    searchParam = `$${params.length}`;
+    conditions.push(`j."searchVector" @@ websearch_to_tsquery('spanish', ${searchParam})`);
+  }
+  
+  if (filter.category && exclude !== 'category') {
+    params.push(filter.category);
+    conditions.push(`j.category = $${params.length}`);
+  }
+  
+  if (filter.status && exclude !== 'status') {
+    params.push(filter.status);
+    conditions.push(`j.status = $${params.length}`);
+  }
+  
+  if (filter.userId) {
+    params.push(filter.userId);
+    conditions.push(`j."userId" = $${params.length}`);
+  }
+  
+  // A job matches the budget filter when its amount (or any part of its range) is
+  // within the requested range
+  if (exclude !== 'budget') {
+    if (filter.budgetMin !== undefined) {
+      params.push(filter.budgetMin);
+      conditions.push(`j."budgetMax" >= $${params.length}`);
+    }
+    
+    if (filter.budgetMax !== undefined) {
+      params.push(filter.budgetMax);
+      conditions.push(`j."budgetMin" <= $${params.length}`);
+    }
+  }
+  
+  if (filter.budgetType && exclude !== 'budgetType') {
+    params.push(filter.budgetType);
+    conditions.push(`j."budgetType" = $${params.length}`);
+  }
+  
+  if (filter.currency && exclude !== 'currency') {
+    params.push(filter.currency);
+    conditions.push(`j.currency = $${params.length}`);
+  }
+  
+  // "any": the job has at least one of the skills; "all": it has every one of them
+  if (filter.skills && filter.skills.length > 0 && exclude !== 'skills') {
+    params.push(filter.skills);
+    const operator = filter.skillsMatch === 'all' ? '@>' : '&&';
+    conditions.push(`j.skills ${operator} $${params.length}::varchar[]`);
+  }
+  
+  if (filter.postedWithinDays && exclude !== 'postedWithin') {
+    params.push(filter.postedWithinDays);
+    conditions.push(`j."createdAt" >= NOW() - make_interval(days => $${params.length})`);
+  }
+  
+  return { conditions, searchParam };
+};
+
+// Columns returned by the UPDATE queries below
+const jobColumns = `id, title, description, budget, "budgetType", "budgetMin", "budgetMax", currency, deadline, "publishAt", 
+       category, skills, status, "userId", "createdAt", "updatedAt"`;
+
+// A draft can only be published once it has everything a job needs
+// (the SQL side of validateForPublication in the job controller)
+const draftCompleteCondition = `
+  title <> '' AND description <> '' AND category <> '' AND budget > 0 AND "budgetMin" > 0
+  AND (deadline IS NULL OR deadline > NOW())
+`;
+
+const whereClause = (conditions) =>
+  conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
 const jobModel = {
   // Create a new job
   async create(jobData) {
-    const { title, description, budget, category, skills, userId } = jobData;
+    const {
+      title, description, budget, budgetType, budgetMin, budgetMax, currency, deadline = null,
+      category, skills, userId, status = 'open', publishAt = null
+    } = jobData;
     const id = uuidv4();
-    const status = 'open';
     const now = new Date();
     
     const result = await db.query(
-      `INSERT INTO "Jobs" (id, title, description, budget, category, skills, status, "userId", "createdAt", "updatedAt") 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
-       RETURNING id, title, description, budget, category, skills, status, "userId", "createdAt", "updatedAt"`,
-      [id, title, description, budget, category, skills, status, userId, now, now]
+      `INSERT INTO "Jobs" (id, title, description, budget, "budgetType", "budgetMin", "budgetMax", currency, 
+                           deadline, "publishAt", category, skills, status, "userId", "createdAt", "updatedAt") 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16) 
+       RETURNING id, title, description, budget, "budgetType", "budgetMin", "budgetMax", currency, deadline, "publishAt", category, skills, status, "userId", "createdAt", "updatedAt"`,
+      [id, title, description, budget, budgetType, budgetMin, budgetMax, currency, deadline, publishAt, category, skills, status, userId, now, now]
     );
     
     console.log('Job created with dates:', { createdAt: now, updatedAt: now });
     return result.rows[0];
   },
   
-  // Get all jobs with optional filtering
-  async findAll(filter = {}) {
+  // Get one page of jobs with optional filtering.
+  // Returns { jobs, nextCursor }; nextCursor is null on the last page.
+  async findAll(filter = {}, page = {}) {
+    const limit = Math.min(Math.max(parseInt(page.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const cursor = decodeCursor(page.cursor);
+
+    const params = [];
+    
+    let likedBy = 'false as "likedByMe"';
+    if (filter.currentUserId) {
+      params.push(filter.currentUserId);
+      likedBy = likedByColumn(params.length);
+    }
+    
+    const { conditions, searchParam } = buildFilterConditions(filter, params);
+    
+    // Full-text search: rank by relevance and return a snippet with the matches
+    // wrapped in <mark></mark> (the frontend renders it as text, not HTML)
+    let searchColumns = '';
+    if (searchParam) {
+      const tsQuery = `websearch_to_tsquery('spanish', ${searchParam})`;
+      searchColumns = `,
+             ts_rank(j."searchVector", ${tsQuery}) as "searchRank",
+             ts_headline('spanish', j.description, ${tsQuery},
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2') as "searchSnippet"`;
+    }
+    
     let query = `
-      SELECT j.id, j.title, j.description, j.budget, j.category, j.skills, j.status, 
-             j."userId", j."createdAt", j."updatedAt"
+      SELECT j.id, j.title, j.description, j.budget, j."budgetType", j."budgetMin", j."budgetMax", j.currency, j.deadline, j."publishAt", j.category, j.skills, j.status, 
+             j."userId", j."createdAt", j."updatedAt", j."hiddenAt",
+             ${jobStatsColumns}, ${likedBy}${searchColumns},
+             j."createdAt"::text as "cursorCreatedAt"
       FROM "Jobs" j
     `;
     
-    const params = [];
-    const conditions = [];
-    
-    if (filter.category) {
-      params.push(filter.category);
-      conditions.push(`j.category = $${params.length}`);
+    // Keyset: continue right after the last job of the previous page
+    if (!filter.search && cursor && cursor.createdAt && cursor.id) {
+      params.push(cursor.createdAt, cursor.id);
+      conditions.push(`(j."createdAt", j.id) < ($${params.length - 1}::timestamp, $${params.length}::uuid)`);
     }
     
-    if (filter.status) {
-      params.push(filter.status);
-      conditions.push(`j.status = $${params.length}`);
-    }
+    query += ` ${whereClause(conditions)}`;
+    
+    query += filter.search
+      ? ` ORDER BY "searchRank" DESC, j."createdAt" DESC, j.id DESC`
+      : ` ORDER BY j."createdAt" DESC, j.id DESC`;
     
-    if (filter.search) {
-      params.push(`%${filter.search}%`);
-      conditions.push(`(j.title ILIKE $${params.length} OR j.description ILIKE $${params.length})`);
+    // Fetch one extra row to know whether there is a next page
+    params.push(limit + 1);
+    query += ` LIMIT $${params.length}`;
+    
+    const offset = filter.search && cursor ? parseInt(cursor.offset, 10) || 0 : 0;
+    if (offset > 0) {
+      params.push(offset);
+      query += ` OFFSET $${params.length}`;
     }
     
-    if (conditions.length > 0) {
-      query += ` WHERE ${conditions.join(' AND ')}`;
+    const result = await db.query(query, params);
+    const hasMore = result.rows.length > limit;
+    const rows = result.rows.slice(0, limit);
+    
+    let nextCursor = null;
+    if (hasMore) {
+      const last = rows[rows.length - 1];
+      nextCursor = filter.search
+        ? encodeCursor({ offset: offset + limit })
+        : encodeCursor({ createdAt: last.cursorCreatedAt, id: last.id });
     }
     
-    query += ` ORDER BY j."createdAt" DESC`;
+    const jobs = rows.map(({ cursorCreatedAt, ...job }) => job);
     
-    const result = await db.query(query, params);
-    return result.rows;
+    return { jobs, nextCursor };
   },
   
-  // Find job by ID
-  async findById(jobId) {
+  // Count how many jobs match each filter option, given the other active filters
+  async findFacets(filter = {}) {
+    const facetQuery = async (exclude, buildQuery) => {
+      const params = [];
+      const { conditions } = buildFilterConditions(filter, params, exclude);
+      const result = await db.query(buildQuery(whereClause(conditions)), params);
+      return result.rows;
+    };
+    
+    const category = await facetQuery('category', (where) => `
+      SELECT j.category as value, COUNT(*)::int as count
+      FROM "Jobs" j ${where}
+      GROUP BY j.category
+      ORDER BY count DESC, value ASC`);
+    
+    const status = await facetQuery('status', (where) => `
+      SELECT j.status as value, COUNT(*)::int as count
+      FROM "Jobs" j ${where}
+      GROUP BY j.status
+      ORDER BY count DESC`);
+    
+    const skills = await facetQuery('skills', (where) => `
+      SELECT s.value, COUNT(*)::int as count
+      FROM "Jobs" j CROSS JOIN unnest(j.skills) as s(value) ${where}
+      GROUP BY s.value
+      ORDER BY count DESC, s.value ASC
+      LIMIT 30`);
+    
+    const [budgetCounts] = await facetQuery('budget', (where) => `
+      SELECT ${BUDGET_RANGES.map((range, index) => `COUNT(*) FILTER (WHERE j."budgetMax" >= ${range.min}${
+        range.max !== null ? ` AND j."budgetMin" < ${range.max}` : ''
+      })::int as "r${index}"`).join(', ')}
+      FROM "Jobs" j ${where}`);
+    
+    const budgetType = await facetQuery('budgetType', (where) => `
+      SELECT j."budgetType" as value, COUNT(*)::int as count
+      FROM "Jobs" j ${where}
+      GROUP BY j."budgetType"
+      ORDER BY count DESC`);
+    
+    const currency = await facetQuery('currency', (where) => `
+      SELECT j.currency as value, COUNT(*)::int as count
+      FROM "Jobs" j ${where}
+      GROUP BY j.currency
+      ORDER BY count DESC, value ASC`);
+    
+    const [postedCounts] = await facetQuery('postedWithin', (where) => `
+      SELECT ${POSTED_WITHIN_DAYS.map(days =>
+        `COUNT(*) FILTER (WHERE j."createdAt" >= NOW() - INTERVAL '${days} days')::int as "d${days}"`
+      ).join(', ')}
+      FROM "Jobs" j ${where}`);
+    
+    return {
+      category,
+      status,
+      skills,
+      budget: BUDGET_RANGES.map((range, index) => ({ ...range, count: budgetCounts[`r${index}`] })),
+      budgetType,
+      currency,
+      postedWithin: POSTED_WITHIN_DAYS.map(days => ({ value: days, count: postedCounts[`d${days}`] }))
+    };
+  },
+  
+  // Whether a user can see a job: drafts are only visible to their owner, and jobs
+  // hidden by a moderator to their owner and admins (`user` is req.user)
+  canSee(job, user) {
+    const isOwner = job.userId === user.userId;
+    return !(job.status === 'draft' && !isOwner) && !(job.hiddenAt && !isOwner && user.role !== 'admin');
+  },
+  
+  // Find job by ID (likedByMe is only computed when currentUserId is given)
+  async findById(jobId, currentUserId = null) {
     const result = await db.query(
-      `SELECT j.id, j.title, j.description, j.budget, j.category, j.skills, j.status, 
-              j."userId", j."createdAt", j."updatedAt"
+      `SELECT j.id, j.title, j.description, j.budget, j."budgetType", j."budgetMin", j."budgetMax", j.currency, j.deadline, j."publishAt", j.category, j.skills, j.status, 
+              j."userId", j."createdAt", j."updatedAt", j."hiddenAt",
+              ${jobStatsColumns}, ${likedByColumn(2)}
        FROM "Jobs" j
        WHERE j.id = $1`,
-      [jobId]
+      [jobId, currentUserId]
     );
     
     if (result.rows.length === 0) {
@@ -74,9 +313,108 @@ const jobModel = {
     return result.rows[0];
   },
   
+  // Get the most popular open jobs.
+  // Score = (2 * likes + comments + 1) / (age in hours + 2) ^ 1.5, so engagement
+  // lifts a job while older jobs slowly sink even if they keep their likes.
+  async findPopular(limit = 3, currentUserId = null) {
+    const result = await db.query(
+      `SELECT * FROM (
+         SELECT j.id, j.title, j.description, j.budget, j."budgetType", j."budgetMin", j."budgetMax", j.currency, j.deadline, j."publishAt", j.category, j.skills, j.status, 
+                j."userId", j."createdAt", j."updatedAt",
+                u.name as "userName", u."photoURL" as "userPhoto",
+                ${jobStatsColumns}, ${likedByColumn(2)}
+         FROM "Jobs" j
+         LEFT JOIN "Users" u ON j."userId" = u.id
+         WHERE j.status = 'open' AND j."hiddenAt" IS NULL
+       ) p
+       ORDER BY (2 * p."likesCount" + p."commentsCount" + 1)
+                / POWER(EXTRACT(EPOCH FROM (NOW() - p."createdAt")) / 3600 + 2, 1.5) DESC,
+                p."createdAt" DESC
+       LIMIT $1`,
+      [limit, currentUserId]
+    );
+    
+    return result.rows.map(job => ({
+      ...job,
+      popularityScore: (2 * job.likesCount + job.commentsCount + 1) /
+        Math.pow((Date.now() - new Date(job.createdAt).getTime()) / 3600000 + 2, 1.5)
+    }));
+  },
+
+  // Recommend open jobs to a user.
+  // Score = 0.6 * share of the job's skills the user has
+  //       + 0.25 if the category is one the user already showed interest in
+  //         (jobs they sent an offer to, saved or liked)
+  //       + 0.15 * how close the budget is to the average budget of those jobs.
+  // Jobs with neither a skill nor a category match are left out, as are the
+  // user's own jobs and the ones they already sent an offer to.
+  async findRecommended(userId, limit = 3) {
+    const result = await db.query(
+      `WITH me AS (
+         SELECT COALESCE(skills, ARRAY[]::varchar[]) as skills FROM "Users" WHERE id = $1
+       ),
+       history AS (
+         SELECT "jobId" as id FROM "Proposals" WHERE "userId" = $1
+         UNION SELECT "JobId" FROM "SavedJobs" WHERE "UserId" = $1
+         UNION SELECT "JobId" FROM "JobLikes" WHERE "UserId" = $1
+       ),
+       profile AS (
+         SELECT ARRAY_AGG(DISTINCT hj.category) as categories, AVG(hj.budget) as "avgBudget"
+         FROM "Jobs" hj
+         JOIN history h ON h.id = hj.id
+       ),
+       candidates AS (
+         SELECT j.id, j.title, j.description, j.budget, j."budgetType", j."budgetMin", j."budgetMax", j.currency, j.deadline, j."publishAt", j.category, j.skills, j.status,
+                j."userId", j."createdAt", j."updatedAt",
+                u.name as "userName", u."photoURL" as "userPhoto",
+                ${jobStatsColumns}, ${likedByColumn(1)},
+                ARRAY(
+                  SELECT s FROM unnest(j.skills) s
+                  WHERE LOWER(s) IN (SELECT LOWER(ms) FROM unnest(me.skills) ms)
+                ) as "matchedSkills",
+                COALESCE(j.category = ANY(profile.categories), false) as "categoryMatch",
+                CASE WHEN profile."avgBudget" > 0
+                  THEN GREATEST(0, 1 - ABS(j.budget - profile."avgBudget") / profile."avgBudget")
+                END as "budgetFit"
+         FROM "Jobs" j
+         CROSS JOIN me
+         CROSS JOIN profile
+         LEFT JOIN "Users" u ON j."userId" = u.id
+         WHERE j.status = 'open'
+           AND j."hiddenAt" IS NULL
+           AND j."userId" <> $1
+           AND NOT EXISTS (SELECT 1 FROM "Proposals" p WHERE p."jobId" = j.id AND p."userId" = $1)
+       )
+       SELECT *, (
+                0.6 * COALESCE(cardinality("matchedSkills")::float / NULLIF(cardinality(skills), 0), 0)
+                + CASE WHEN "categoryMatch" THEN 0.25 ELSE 0 END
+                + 0.15 * COALESCE("budgetFit", 0)
+              ) as "recommendationScore"
+       FROM candidates
+       WHERE cardinality("matchedSkills") > 0 OR "categoryMatch"
+       ORDER BY "recommendationScore" DESC, "createdAt" DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows.map(({ matchedSkills, categoryMatch, budgetFit, recommendationScore, ...job }) => ({
+      ...job,
+      recommendation: {
+        score: recommendationScore,
+        matchedSkills,
+        totalSkills: (job.skills || []).length,
+        categoryMatch,
+        budgetFit
+      }
+    }));
+  },
+  
   // Update a job
   async update(jobId, jobData) {
-    const { title, description, budget, category, skills, status } = jobData;
+    const {
+      title, description, budget, budgetType, budgetMin, budgetMax, currency, deadline, publishAt,
+      category, skills, status
+    } = jobData;
     
     // Build the SET part of the query dynamically based on the provided fields
     const updates = [];
@@ -97,6 +435,37 @@ const jobModel = {
       values.push(budget);
     }
     
+    if (budgetType !== undefined) {
+      updates.push(`"budgetType" = $${updates.length + 1}`);
+      values.push(budgetType);
+    }
+    
+    if (budgetMin !== undefined) {
+      updates.push(`"budgetMin" = $${updates.length + 1}`);
+      values.push(budgetMin);
+    }
+    
+    if (budgetMax !== undefined) {
+      updates.push(`"budgetMax" = $${updates.length + 1}`);
+      values.push(budgetMax);
+    }
+    
+    if (currency !== undefined) {
+      updates.push(`currency = $${updates.length + 1}`);
+      values.push(currency);
+    }
+    
+    // null clears the deadline
+    if (deadline !== undefined) {
+      updates.push(`deadline = $${updates.length + 1}`);
+      values.push(deadline);
+    }
+    
+    if (publishAt !== undefined) {
+      updates.push(`"publishAt" = $${updates.length + 1}`);
+      values.push(publishAt);
+    }
+    
     if (category !== undefined) {
       updates.push(`category = $${updates.length + 1}`);
       values.push(category);
@@ -123,7 +492,7 @@ const jobModel = {
       UPDATE "Jobs" 
       SET ${updates.join(', ')} 
       WHERE id = $${values.length} 
-      RETURNING id, title, description, budget, category, skills, status, "userId", "createdAt", "updatedAt"
+      RETURNING id, title, description, budget, "budgetType", "budgetMin", "budgetMax", currency, deadline, "publishAt", category, skills, status, "userId", "createdAt", "updatedAt"
     `;
     
     const result = await db.query(query, values);
@@ -131,8 +500,89 @@ const jobModel = {
     return result.rows[0];
   },
   
+  // Publish a draft now. Its publication date becomes its creation date, so it
+  // is listed as a new job. Returns null if the job is not a draft.
+  async publish(jobId) {
+    const result = await db.query(
+      `UPDATE "Jobs"
+       SET status = 'open', "publishAt" = NULL, "createdAt" = NOW(), "updatedAt" = NOW()
+       WHERE id = $1 AND status = 'draft'
+       RETURNING ${jobColumns}`,
+      [jobId]
+    );
+    
+    return result.rows[0] || null;
+  },
+  
+  // Publish the complete drafts whose publication date has come.
+  // Returns the published jobs.
+  async publishScheduled() {
+    const result = await db.query(
+      `UPDATE "Jobs"
+       SET status = 'open', "publishAt" = NULL, "createdAt" = NOW(), "updatedAt" = NOW()
+       WHERE status = 'draft' AND "publishAt" IS NOT NULL AND "publishAt" <= NOW()
+         AND ${draftCompleteCondition}
+       RETURNING ${jobColumns}`
+    );
+    
+    return result.rows;
+  },
+  
+  // Unschedule the drafts whose publication date has come but that can't be
+  // published (they were edited after being scheduled). Returns them so their
+  // owners can be told.
+  async unscheduleIncomplete() {
+    const result = await db.query(
+      `UPDATE "Jobs"
+       SET "publishAt" = NULL, "updatedAt" = NOW()
+       WHERE status = 'draft' AND "publishAt" IS NOT NULL AND "publishAt" <= NOW()
+         AND NOT COALESCE((${draftCompleteCondition}), false)
+       RETURNING id, title, "userId"`
+    );
+    
+    return result.rows;
+  },
+  
+  // Move the open jobs whose application deadline has passed to "expired".
+  // Returns the expired jobs.
+  async expireOverdue() {
+    const result = await db.query(
+      `UPDATE "Jobs"
+       SET status = 'expired', "updatedAt" = NOW()
+       WHERE status = 'open' AND deadline IS NOT NULL AND deadline <= NOW()
+       RETURNING id, title, "userId", deadline`
+    );
+    
+    return result.rows;
+  },
+  
+  // IDs of the users who sent an offer to or saved a job (not its owner)
+  async findInterestedUserIds(jobId) {
+    const result = await db.query(
+      `SELECT "userId" FROM "Proposals" WHERE "jobId" = $1
+       UNION
+       SELECT "UserId" FROM "SavedJobs" WHERE "JobId" = $1
+       EXCEPT
+       SELECT "userId" FROM "Jobs" WHERE id = $1`,
+      [jobId]
+    );
+    
+    return result.rows.map(row => row.userId);
+  },
+  
+  // Hide a job taken down by a moderator (it is only listed for its owner from now on)
+  async hide(jobId) {
+    await db.query(
+      'UPDATE "Jobs" SET "hiddenAt" = NOW() WHERE id = $1',
+      [jobId]
+    );
+  },
+  
   // Delete a job
   async delete(jobId) {
+    // Comments do not cascade, so remove them (and their replies) first
+    await commentModel.deleteByJobId(jobId);
+    await fileModel.deleteByJobId(jobId);
     await db.query('DELETE FROM "Jobs" WHERE id = $1', [jobId]);
     return true;
   }
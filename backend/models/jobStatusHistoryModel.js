@@ -0,0 +1,44 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+const jobStatusHistoryModel = {
+  // Record a status change of a job (fromStatus is null for the creation entry)
+  async create(entryData) {
+    const { jobId, fromStatus = null, toStatus, reason = null, userId } = entryData;
+    const id = uuidv4();
+    const now = new Date();
+
+    await db.query(
+      `INSERT INTO "JobStatusHistory" (id, "jobId", "fromStatus", "toStatus", reason, "userId", "createdAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, jobId, fromStatus, toStatus, reason, userId, now]
+    );
+
+    const result = await db.query(
+      `SELECT h.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "JobStatusHistory" h
+       LEFT JOIN "Users" u ON h."userId" = u.id
+       WHERE h.id = $1`,
+      [id]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the status history of a job, oldest first
+  async findByJobId(jobId) {
+    const result = await db.query(
+      `SELECT h.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "JobStatusHistory" h
+       LEFT JOIN "Users" u ON h."userId" = u.id
+       WHERE h."jobId" = $1
+       ORDER BY h."createdAt" ASC`,
+      [jobId]
+    );
+
+    return result.rows;
+  }
+};
+
+module.exports = jobStatusHistoryModel;
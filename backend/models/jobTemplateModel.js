@@ -0,0 +1,50 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+const jobTemplateModel = {
+  // Save a private template for a user
+  async create(templateData) {
+    const {
+      name, title, description, category, skills,
+      budgetType, budgetMin, budgetMax, currency, userId
+    } = templateData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "JobTemplates" (id, name, title, description, category, skills, "budgetType", "budgetMin", "budgetMax", currency, "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [id, name, title, description, category, skills, budgetType, budgetMin, budgetMax, currency, userId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the templates a user can start from: their own (newest first) and then the global ones
+  async findAvailable(userId) {
+    const result = await db.query(
+      `SELECT * FROM "JobTemplates"
+       WHERE "userId" = $1 OR "userId" IS NULL
+       ORDER BY ("userId" IS NULL), "createdAt" DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  },
+
+  // Find template by ID
+  async findById(templateId) {
+    const result = await db.query('SELECT * FROM "JobTemplates" WHERE id = $1', [templateId]);
+    return result.rows[0] || null;
+  },
+
+  // Delete a template
+  async delete(templateId) {
+    await db.query('DELETE FROM "JobTemplates" WHERE id = $1', [templateId]);
+    return true;
+  }
+};
+
+module.exports = jobTemplateModel;
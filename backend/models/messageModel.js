@@ -50,6 +50,12 @@ const messageModel = {
       
       result = await db.query(query, values);
       
+      // The sender has read the chat up to their own message
+      await db.query(
+        'UPDATE "ChatParticipants" SET "lastReadMessageId" = $1 WHERE "chatId" = $2 AND "userId" = $3',
+        [messageId, chatId, senderId]
+      );
+      
       // Añadir el senderId explícitamente para garantizar la coherencia
       const message = {
         ...result.rows[0],
@@ -65,16 +71,62 @@ const messageModel = {
     }
   },
   
-  // Get messages for a chat
-  async findByChatId(chatId) {
+  // Get one page of messages for a chat, oldest first.
+  // Without options it returns the latest page. `before` and `after` are message ids used as
+  // keyset cursors; `date` (YYYY-MM-DD) returns the page starting at that day.
+  async findByChatId(chatId, { before, after, date, limit = 50 } = {}) {
     try {
+      const params = [chatId];
+      const conditions = ['m."chatId" = $1'];
+      // Older pages are read backwards from the cursor and reversed below
+      let descending = true;
+      
+      if (before) {
+        params.push(before);
+        conditions.push(`(m."createdAt", m.id) < (SELECT "createdAt", id FROM "Messages" WHERE id = $${params.length})`);
+      } else if (after) {
+        params.push(after);
+        conditions.push(`(m."createdAt", m.id) > (SELECT "createdAt", id FROM "Messages" WHERE id = $${params.length})`);
+        descending = false;
+      } else if (date) {
+        params.push(date);
+        conditions.push(`m."createdAt" >= $${params.length}::date`);
+        descending = false;
+      }
+      
+      // Fetch one extra row to know whether there is another page
+      params.push(limit + 1);
+      const direction = descending ? 'DESC' : 'ASC';
       const result = await db.query(
-        'SELECT m.*, m."userId" as "senderId", u.name as "senderName", u."photoURL" as "senderPhoto" FROM "Messages" m LEFT JOIN "Users" u ON m."userId" = u.id WHERE m."chatId" = $1 ORDER BY m."createdAt" ASC',
-        [chatId]
+        `SELECT m.*, m."userId" as "senderId", u.name as "senderName", u."photoURL" as "senderPhoto"
+         FROM "Messages" m LEFT JOIN "Users" u ON m."userId" = u.id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY m."createdAt" ${direction}, m.id ${direction}
+         LIMIT $${params.length}`,
+        params
       );
       
+      const hasNextPage = result.rows.length > limit;
+      const rows = result.rows.slice(0, limit);
+      if (descending) rows.reverse();
+      
+      // Nothing from that day on: show the latest messages instead
+      if (date && rows.length === 0) {
+        return this.findByChatId(chatId, { limit });
+      }
+      
+      let hasOlder = descending ? hasNextPage : Boolean(after);
+      if (date) {
+        const older = await db.query(
+          'SELECT 1 FROM "Messages" WHERE "chatId" = $1 AND ("createdAt", id) < (SELECT "createdAt", id FROM "Messages" WHERE id = $2) LIMIT 1',
+          [chatId, rows[0].id]
+        );
+        hasOlder = older.rows.length > 0;
+      }
+      const hasNewer = descending ? Boolean(before) : hasNextPage;
+      
       // Nos aseguramos de que cada mensaje tenga un senderId explícito para la coherencia en la interfaz
-      return result.rows.map(row => {
+      const messages = rows.map(row => {
         // Verificar si existe la propiedad deleted y edited, si no existe asumimos false
         const deleted = typeof row.deleted !== 'undefined' ? row.deleted : false;
         const edited = typeof row.edited !== 'undefined' ? row.edited : false;
@@ -87,9 +139,11 @@ const messageModel = {
           edited: edited
         };
       });
+      
+      return { messages, hasOlder, hasNewer };
     } catch (error) {
       console.error("Error al obtener mensajes:", error);
-      return [];
+      return { messages: [], hasOlder: false, hasNewer: false };
     }
   },
   
@@ -202,6 +256,19 @@ const messageModel = {
     }
   },
   
+  // Hide a message taken down by a moderator: like a deleted message, its text is replaced
+  async hide(messageId) {
+    const result = await db.query(
+      `UPDATE "Messages"
+       SET deleted = true, content = '[Mensaje ocultado por moderación]', "hiddenAt" = NOW(), "updatedAt" = NOW()
+       WHERE id = $1
+       RETURNING *, "userId" as "senderId"`,
+      [messageId]
+    );
+    
+    return result.rows[0] || null;
+  },
+  
   // Get last message for a chat
   async getLastMessage(chatId) {
     const result = await db.query(
@@ -216,26 +283,6 @@ const messageModel = {
     } : null;
   },
   
-  // Mark messages as read
-  async markAsRead(chatId, userId) {
-    await db.query(
-      `UPDATE "Messages" 
-       SET read = true 
-       WHERE "chatId" = $1 AND "userId" != $2 AND NOT read`,
-      [chatId, userId]
-    );
-    
-    // Return the count of updated messages (optional)
-    const result = await db.query(
-      `SELECT COUNT(*) as updated_count 
-       FROM "Messages" 
-       WHERE "chatId" = $1 AND read = true AND "userId" != $2`,
-      [chatId, userId]
-    );
-    
-    return result.rows[0]?.updated_count || 0;
-  },
-  
   // Check if columns exist
   async checkColumns() {
     try {
@@ -0,0 +1,59 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+const notificationModel = {
+  // Create a notification for a user
+  async create(notificationData) {
+    const { userId, type, title, message, link, data } = notificationData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "Notifications" (id, type, title, message, link, data, read, "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, false, $7, $8, $9)
+       RETURNING *`,
+      [id, type, title, message || null, link || null, JSON.stringify(data || {}), userId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the latest notifications of a user
+  async findByUserId(userId, limit = 50) {
+    const result = await db.query(
+      `SELECT * FROM "Notifications"
+       WHERE "userId" = $1
+       ORDER BY "createdAt" DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows;
+  },
+
+  // Mark one notification as read (only if it belongs to the user)
+  async markAsRead(notificationId, userId) {
+    const result = await db.query(
+      `UPDATE "Notifications" SET read = true, "updatedAt" = $3
+       WHERE id = $1 AND "userId" = $2
+       RETURNING *`,
+      [notificationId, userId, new Date()]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Mark every notification of a user as read
+  async markAllAsRead(userId) {
+    const result = await db.query(
+      `UPDATE "Notifications" SET read = true, "updatedAt" = $2
+       WHERE "userId" = $1 AND read = false`,
+      [userId, new Date()]
+    );
+
+    return result.rowCount;
+  }
+};
+
+module.exports = notificationModel;
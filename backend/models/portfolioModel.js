@@ -0,0 +1,102 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// Files of each item (without the binary data), oldest first
+const filesColumn = `COALESCE((
+         SELECT json_agg(json_build_object(
+                  'id', f.id, 'filename', f.filename, 'contentType', f.content_type, 'size', f.size,
+                  'portfolioItemId', f."portfolioItemId", 'createdAt', f.created_at
+                ) ORDER BY f.created_at ASC)
+         FROM "Files" f
+         WHERE f."portfolioItemId" = p.id
+       ), '[]'::json) as files`;
+
+const portfolioModel = {
+  // Add an item at the end of a user's portfolio
+  async create(itemData) {
+    const { title, description, link, tags, userId } = itemData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "PortfolioItems" (id, title, description, link, tags, position, "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5,
+               (SELECT COALESCE(MAX(position) + 1, 0) FROM "PortfolioItems" WHERE "userId" = $6),
+               $6, $7, $8)
+       RETURNING *`,
+      [id, title, description, link, tags, userId, now, now]
+    );
+
+    return { ...result.rows[0], files: [] };
+  },
+
+  // Get the portfolio of a user in its display order, with the files of each item
+  async findByUserId(userId) {
+    const result = await db.query(
+      `SELECT p.*, ${filesColumn}
+       FROM "PortfolioItems" p
+       WHERE p."userId" = $1
+       ORDER BY p.position ASC, p."createdAt" ASC`,
+      [userId]
+    );
+
+    return result.rows;
+  },
+
+  // Find portfolio item by ID, with its files
+  async findById(itemId) {
+    const result = await db.query(
+      `SELECT p.*, ${filesColumn}
+       FROM "PortfolioItems" p
+       WHERE p.id = $1`,
+      [itemId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Update the details of an item
+  async update(itemId, itemData) {
+    const fields = [];
+    const values = [];
+    let paramCount = 1;
+
+    ['title', 'description', 'link', 'tags'].forEach(field => {
+      if (itemData[field] !== undefined) {
+        fields.push(`${field} = $${paramCount++}`);
+        values.push(itemData[field]);
+      }
+    });
+
+    fields.push(`"updatedAt" = $${paramCount++}`);
+    values.push(new Date());
+    values.push(itemId);
+
+    await db.query(
+      `UPDATE "PortfolioItems" SET ${fields.join(', ')} WHERE id = $${paramCount}`,
+      values
+    );
+
+    return portfolioModel.findById(itemId);
+  },
+
+  // Save the display order of a user's portfolio (itemIds from first to last)
+  async reorder(userId, itemIds) {
+    await db.query(
+      `UPDATE "PortfolioItems" p
+       SET position = o.position - 1
+       FROM unnest($2::uuid[]) WITH ORDINALITY AS o(id, position)
+       WHERE p.id = o.id AND p."userId" = $1`,
+      [userId, itemIds]
+    );
+  },
+
+  // Delete an item (its files are deleted with it)
+  async delete(itemId) {
+    await db.query('DELETE FROM "PortfolioItems" WHERE id = $1', [itemId]);
+    return true;
+  }
+};
+
+module.exports = portfolioModel;
@@ -0,0 +1,143 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+const proposalModel = {
+  // Create a new proposal for a job
+  async create(proposalData) {
+    const { jobId, userId, coverLetter, bidAmount, estimatedDuration } = proposalData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "Proposals" (id, "coverLetter", "bidAmount", "estimatedDuration", status, "jobId", "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, 'pending', $5, $6, $7, $8)
+       RETURNING *`,
+      [id, coverLetter, bidAmount, estimatedDuration, jobId, userId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get all proposals for a job, with the freelancer's name and photo
+  async findByJobId(jobId) {
+    const result = await db.query(
+      `SELECT p.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Proposals" p
+       LEFT JOIN "Users" u ON p."userId" = u.id
+       WHERE p."jobId" = $1
+       ORDER BY p."createdAt" DESC`,
+      [jobId]
+    );
+
+    return result.rows;
+  },
+
+  // Find proposal by ID
+  async findById(proposalId) {
+    const result = await db.query(
+      `SELECT p.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Proposals" p
+       LEFT JOIN "Users" u ON p."userId" = u.id
+       WHERE p.id = $1`,
+      [proposalId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Find the proposal a user sent to a job, if any
+  async findByJobAndUser(jobId, userId) {
+    const result = await db.query(
+      `SELECT p.*, u.name as "userName", u."photoURL" as "userPhoto"
+       FROM "Proposals" p
+       LEFT JOIN "Users" u ON p."userId" = u.id
+       WHERE p."jobId" = $1 AND p."userId" = $2`,
+      [jobId, userId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Find the accepted proposal of a job (the freelancer who works on it), if any.
+  // Reopening a job releases it, so there is at most one; the latest wins otherwise.
+  async findAcceptedByJobId(jobId) {
+    const result = await db.query(
+      `SELECT * FROM "Proposals" WHERE "jobId" = $1 AND status = 'accepted'
+       ORDER BY "updatedAt" DESC LIMIT 1`,
+      [jobId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Update the status of a proposal (pending, accepted, rejected)
+  async updateStatus(proposalId, status) {
+    const result = await db.query(
+      `UPDATE "Proposals" SET status = $1, "updatedAt" = $2 WHERE id = $3 RETURNING *`,
+      [status, new Date(), proposalId]
+    );
+
+    return result.rows[0];
+  },
+
+  // Accept a pending proposal of an open job: the job moves to "in progress" and the
+  // other pending proposals are rejected, all in one transaction. The job row is
+  // locked so two acceptances can't both go through. Returns the accepted proposal,
+  // or null when the job is no longer open or the proposal no longer pending.
+  async accept(jobId, proposalId) {
+    return db.transaction(async (client) => {
+      const job = await client.query(
+        `SELECT status FROM "Jobs" WHERE id = $1 FOR UPDATE`,
+        [jobId]
+      );
+
+      if (!job.rows[0] || job.rows[0].status !== 'open') {
+        return null;
+      }
+
+      const now = new Date();
+      const accepted = await client.query(
+        `UPDATE "Proposals" SET status = 'accepted', "updatedAt" = $1
+         WHERE id = $2 AND "jobId" = $3 AND status = 'pending'
+         RETURNING *`,
+        [now, proposalId, jobId]
+      );
+
+      if (accepted.rowCount === 0) {
+        return null;
+      }
+
+      await client.query(
+        `UPDATE "Jobs" SET status = 'in progress', "updatedAt" = $1 WHERE id = $2`,
+        [now, jobId]
+      );
+
+      await client.query(
+        `UPDATE "Proposals" SET status = 'rejected', "updatedAt" = $1
+         WHERE "jobId" = $2 AND id != $3 AND status = 'pending'`,
+        [now, jobId, proposalId]
+      );
+
+      return accepted.rows[0];
+    });
+  },
+
+  // Reject the accepted proposal of a job, when the job is reopened and the hired
+  // freelancer no longer works on it
+  async releaseAccepted(jobId) {
+    await db.query(
+      `UPDATE "Proposals" SET status = 'rejected', "updatedAt" = $1
+       WHERE "jobId" = $2 AND status = 'accepted'`,
+      [new Date(), jobId]
+    );
+  },
+
+  // Delete a proposal
+  async delete(proposalId) {
+    await db.query('DELETE FROM "Proposals" WHERE id = $1', [proposalId]);
+    return true;
+  }
+};
+
+module.exports = proposalModel;
@@ -0,0 +1,67 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// A reaction is a single emoji: a pictograph with its modifiers (skin tone, variation
+// selector, subdivision flag tags), possibly joined by ZWJ to more of them (👨‍👩‍👧); a
+// flag (a pair of regional indicators); or a keycap such as 1️⃣ or #️⃣ (a digit, # or *
+// followed by the keycap mark). Several emojis in a row are not one reaction.
+const EMOJI_PATTERN = /^(?:[0-9#*]\uFE0F?\u20E3|\p{Regional_Indicator}{2}|\p{Extended_Pictographic}[\p{Emoji_Modifier}\uFE0F]*(?:[\u{E0020}-\u{E007E}]+\u{E007F})?(?:\u200D\p{Extended_Pictographic}[\p{Emoji_Modifier}\uFE0F]*)*)$/u;
+const MAX_EMOJI_LENGTH = 32;
+
+const reactionModel = {
+  isValidEmoji(emoji) {
+    return typeof emoji === 'string' && emoji.length <= MAX_EMOJI_LENGTH && EMOJI_PATTERN.test(emoji);
+  },
+  
+  // Add the reaction, or remove it if the user had already reacted with that emoji.
+  // Returns true when the reaction was added.
+  async toggle(messageId, userId, emoji) {
+    const removed = await db.query(
+      'DELETE FROM "MessageReactions" WHERE "messageId" = $1 AND "userId" = $2 AND emoji = $3 RETURNING id',
+      [messageId, userId, emoji]
+    );
+    
+    if (removed.rows.length > 0) {
+      return false;
+    }
+    
+    await db.query(
+      `INSERT INTO "MessageReactions" (id, "messageId", "userId", emoji, "createdAt")
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+       ON CONFLICT ("messageId", "userId", emoji) DO NOTHING`,
+      [uuidv4(), messageId, userId, emoji]
+    );
+    
+    return true;
+  },
+  
+  // Reactions of several messages grouped by emoji: messageId -> [{ emoji, count, userIds }],
+  // emojis in the order they were first used on each message
+  async findByMessageIds(messageIds) {
+    if (messageIds.length === 0) return {};
+    
+    const result = await db.query(
+      `SELECT "messageId", emoji, COUNT(*)::int AS count,
+              array_agg("userId" ORDER BY "createdAt") AS "userIds"
+       FROM "MessageReactions"
+       WHERE "messageId" = ANY($1::uuid[])
+       GROUP BY "messageId", emoji
+       ORDER BY MIN("createdAt")`,
+      [messageIds]
+    );
+    
+    return result.rows.reduce((reactions, { messageId, ...reaction }) => {
+      reactions[messageId] = [...(reactions[messageId] || []), reaction];
+      return reactions;
+    }, {});
+  },
+  
+  // Reactions of a single message, grouped by emoji
+  async findByMessageId(messageId) {
+    const reactions = await this.findByMessageIds([messageId]);
+    return reactions[messageId] || [];
+  }
+};
+
+module.exports = reactionModel;
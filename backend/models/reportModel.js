@@ -0,0 +1,106 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// Reporter and reported account details shown in the moderation queue, plus
+// where the reported content lives and whether it is already hidden
+const reportColumns = `r.*,
+       reporter.name as "reporterName", reporter."photoURL" as "reporterPhoto",
+       target.name as "targetUserName", target."photoURL" as "targetUserPhoto",
+       target."suspendedAt" as "targetUserSuspendedAt",
+       CASE r."targetType"
+         WHEN 'job' THEN r."targetId"
+         WHEN 'comment' THEN (SELECT c."jobId" FROM "Comments" c WHERE c.id = r."targetId")
+       END as "jobId",
+       CASE r."targetType"
+         WHEN 'job' THEN (SELECT j."hiddenAt" FROM "Jobs" j WHERE j.id = r."targetId")
+         WHEN 'comment' THEN (SELECT c."hiddenAt" FROM "Comments" c WHERE c.id = r."targetId")
+         WHEN 'message' THEN (SELECT m."hiddenAt" FROM "Messages" m WHERE m.id = r."targetId")
+       END as "targetHiddenAt"`;
+
+const reportJoins = `LEFT JOIN "Users" reporter ON r."reporterId" = reporter.id
+       LEFT JOIN "Users" target ON r."targetUserId" = target.id`;
+
+const reportModel = {
+  // Report a job, comment, message or user
+  async create(reportData) {
+    const { targetType, targetId, targetUserId, reason, note, snapshot, reporterId } = reportData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "Reports" (id, "targetType", "targetId", "targetUserId", reason, note, snapshot, status, "reporterId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'open', $8, $9, $10)
+       RETURNING *`,
+      [id, targetType, targetId, targetUserId, reason, note, snapshot, reporterId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the reports with a status ('open', 'resolved' or 'dismissed'):
+  // open ones oldest first (queue order), closed ones most recently closed first
+  async findByStatus(status) {
+    const result = await db.query(
+      `SELECT ${reportColumns}
+       FROM "Reports" r
+       ${reportJoins}
+       WHERE r.status = $1
+       ORDER BY ${status === 'open' ? 'r."createdAt" ASC' : 'r."resolvedAt" DESC'}`,
+      [status]
+    );
+
+    return result.rows;
+  },
+
+  // Find report by ID
+  async findById(reportId) {
+    const result = await db.query(
+      `SELECT ${reportColumns}
+       FROM "Reports" r
+       ${reportJoins}
+       WHERE r.id = $1`,
+      [reportId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Find the report of a user about some content, if any
+  async findByTargetAndReporter(targetType, targetId, reporterId) {
+    const result = await db.query(
+      'SELECT * FROM "Reports" WHERE "targetType" = $1 AND "targetId" = $2 AND "reporterId" = $3',
+      [targetType, targetId, reporterId]
+    );
+
+    return result.rows[0] || null;
+  },
+
+  // Close every open report about the same content. Returns the closed reports.
+  async closeByTarget(targetType, targetId, { status, resolution = null, resolvedBy }) {
+    const result = await db.query(
+      `UPDATE "Reports"
+       SET status = $3, resolution = $4, "resolvedBy" = $5, "resolvedAt" = NOW(), "updatedAt" = NOW()
+       WHERE "targetType" = $1 AND "targetId" = $2 AND status = 'open'
+       RETURNING *`,
+      [targetType, targetId, status, resolution, resolvedBy]
+    );
+
+    return result.rows;
+  },
+
+  // Resolve every open report about an account or its content (when it is suspended)
+  async resolveByTargetUser(targetUserId, { resolution, resolvedBy }) {
+    const result = await db.query(
+      `UPDATE "Reports"
+       SET status = 'resolved', resolution = $2, "resolvedBy" = $3, "resolvedAt" = NOW(), "updatedAt" = NOW()
+       WHERE "targetUserId" = $1 AND status = 'open'
+       RETURNING *`,
+      [targetUserId, resolution, resolvedBy]
+    );
+
+    return result.rows;
+  }
+};
+
+module.exports = reportModel;
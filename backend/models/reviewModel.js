@@ -0,0 +1,62 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+const reviewModel = {
+  // Save a review of one participant of a job by the other
+  async create(reviewData) {
+    const { jobId, reviewerId, revieweeId, rating, comment } = reviewData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "Reviews" (id, rating, comment, "jobId", "reviewerId", "revieweeId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [id, rating, comment, jobId, reviewerId, revieweeId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the reviews of a job, with the reviewer's name and photo
+  async findByJobId(jobId) {
+    const result = await db.query(
+      `SELECT r.*, u.name as "reviewerName", u."photoURL" as "reviewerPhoto"
+       FROM "Reviews" r
+       LEFT JOIN "Users" u ON r."reviewerId" = u.id
+       WHERE r."jobId" = $1
+       ORDER BY r."createdAt" ASC`,
+      [jobId]
+    );
+
+    return result.rows;
+  },
+
+  // Get the reviews a user has received, newest first, with the reviewer and the job
+  async findByRevieweeId(userId) {
+    const result = await db.query(
+      `SELECT r.*, u.name as "reviewerName", u."photoURL" as "reviewerPhoto", j.title as "jobTitle"
+       FROM "Reviews" r
+       LEFT JOIN "Users" u ON r."reviewerId" = u.id
+       LEFT JOIN "Jobs" j ON r."jobId" = j.id
+       WHERE r."revieweeId" = $1
+       ORDER BY r."createdAt" DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  },
+
+  // Find the review a user left on a job, if any
+  async findByJobAndReviewer(jobId, reviewerId) {
+    const result = await db.query(
+      'SELECT * FROM "Reviews" WHERE "jobId" = $1 AND "reviewerId" = $2',
+      [jobId, reviewerId]
+    );
+
+    return result.rows[0] || null;
+  }
+};
+
+module.exports = reviewModel;
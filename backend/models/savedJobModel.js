@@ -0,0 +1,48 @@
+
+const db = require('../config/database');
+
+const savedJobModel = {
+  // Save a job for a user (saving twice is a no-op)
+  async save(jobId, userId) {
+    const now = new Date();
+
+    await db.query(
+      `INSERT INTO "SavedJobs" ("JobId", "UserId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ("JobId", "UserId") DO NOTHING`,
+      [jobId, userId, now, now]
+    );
+
+    return true;
+  },
+
+  // Remove a saved job
+  async remove(jobId, userId) {
+    await db.query(
+      'DELETE FROM "SavedJobs" WHERE "JobId" = $1 AND "UserId" = $2',
+      [jobId, userId]
+    );
+
+    return true;
+  },
+
+  // Get the jobs saved by a user, most recently saved first
+  async findByUserId(userId) {
+    const result = await db.query(
+      `SELECT j.id, j.title, j.description, j.budget, j."budgetType", j."budgetMin", j."budgetMax", j.currency, j.deadline, j."publishAt", j.category, j.skills, j.status,
+              j."userId", j."createdAt", j."updatedAt",
+              u.name as "userName", u."photoURL" as "userPhoto",
+              s."createdAt" as "savedAt"
+       FROM "SavedJobs" s
+       JOIN "Jobs" j ON s."JobId" = j.id
+       LEFT JOIN "Users" u ON j."userId" = u.id
+       WHERE s."UserId" = $1 AND j."hiddenAt" IS NULL AND (j.status <> 'draft' OR j."userId" = $1)
+       ORDER BY s."createdAt" DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+};
+
+module.exports = savedJobModel;
@@ -0,0 +1,85 @@
+
+const db = require('../config/database');
+const { v4: uuidv4 } = require('uuid');
+
+// What a budget filter must look like to be cast to a number
+const NUMERIC_PATTERN = '^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$';
+
+const savedSearchModel = {
+  // Save a named search for a user
+  async create(searchData) {
+    const { name, filters, userId } = searchData;
+    const id = uuidv4();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO "SavedSearches" (id, name, filters, "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [id, name, JSON.stringify(filters), userId, now, now]
+    );
+
+    return result.rows[0];
+  },
+
+  // Get the saved searches of a user, newest first
+  async findByUserId(userId) {
+    const result = await db.query(
+      'SELECT * FROM "SavedSearches" WHERE "userId" = $1 ORDER BY "createdAt" DESC',
+      [userId]
+    );
+
+    return result.rows;
+  },
+
+  // Find saved search by ID
+  async findById(searchId) {
+    const result = await db.query('SELECT * FROM "SavedSearches" WHERE id = $1', [searchId]);
+    return result.rows[0] || null;
+  },
+
+  // Delete a saved search
+  async delete(searchId) {
+    await db.query('DELETE FROM "SavedSearches" WHERE id = $1', [searchId]);
+    return true;
+  },
+
+  // Find the saved searches (of other users) that a job matches.
+  // Mirrors the filters of jobModel.findAll; "postedWithin" is ignored because a
+  // brand-new job is always within any posting window. Filters are validated when
+  // saved, but a malformed one only makes its own search not match (CASE keeps the
+  // casts from running on it) instead of failing the query for everyone.
+  async findMatchingJob(jobId) {
+    const result = await db.query(
+      `SELECT s.*
+       FROM "SavedSearches" s
+       JOIN "Jobs" j ON j.id = $1
+       WHERE s."userId" <> j."userId"
+         AND (COALESCE(s.filters->>'search', '') = ''
+              OR j."searchVector" @@ websearch_to_tsquery('spanish', s.filters->>'search'))
+         AND (s.filters->>'category' IS NULL OR j.category = s.filters->>'category')
+         AND (s.filters->>'status' IS NULL OR j.status = s.filters->>'status')
+         AND CASE WHEN s.filters->>'budgetMin' IS NULL THEN true
+                  WHEN s.filters->>'budgetMin' ~ $2 THEN j."budgetMax" >= (s.filters->>'budgetMin')::float
+                  ELSE false
+             END
+         AND CASE WHEN s.filters->>'budgetMax' IS NULL THEN true
+                  WHEN s.filters->>'budgetMax' ~ $2 THEN j."budgetMin" <= (s.filters->>'budgetMax')::float
+                  ELSE false
+             END
+         AND (s.filters->>'budgetType' IS NULL OR j."budgetType" = s.filters->>'budgetType')
+         AND (s.filters->>'currency' IS NULL OR j.currency = s.filters->>'currency')
+         AND CASE WHEN s.filters->'skills' IS NULL OR s.filters->'skills' = '[]'::jsonb THEN true
+                  WHEN jsonb_typeof(s.filters->'skills') <> 'array' THEN false
+                  WHEN s.filters->>'skillsMatch' = 'all'
+                    THEN j.skills @> ARRAY(SELECT jsonb_array_elements_text(s.filters->'skills'))::varchar[]
+                  ELSE j.skills && ARRAY(SELECT jsonb_array_elements_text(s.filters->'skills'))::varchar[]
+             END`,
+      [jobId, NUMERIC_PATTERN]
+    );
+
+    return result.rows;
+  }
+};
+
+module.exports = savedSearchModel;
@@ -2,10 +2,15 @@
 const db = require('../config/database');
 const bcrypt = require('bcryptjs');
 
+// Public profile columns, with the average rating and number of reviews received
+const userColumns = `id, name, email, role, "photoURL" as avatar, "isOnline" as status, "lastSeen", "createdAt", bio, skills, "hourlyRate", "suspendedAt",
+  (SELECT ROUND(AVG(r.rating), 1)::float FROM "Reviews" r WHERE r."revieweeId" = "Users".id) as rating,
+  (SELECT COUNT(*)::int FROM "Reviews" r WHERE r."revieweeId" = "Users".id) as "reviewCount"`;
+
 const userModel = {
   // Create a new user
   async create(userData) {
-    const { username, email, password, avatar, bio, skills } = userData;
+    const { username, email, password, avatar, bio, skills, role } = userData;
     
     // Hash password
     const salt = await bcrypt.genSalt(10);
@@ -18,7 +23,7 @@ const userModel = {
     // Usado photoURL en lugar de avatar y isOnline en lugar de status
     const result = await db.query(
       'INSERT INTO "Users" (id, name, email, password, "photoURL", "isOnline", role, bio, skills, "createdAt", "updatedAt") VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) RETURNING id, name, email, "photoURL", role, "createdAt", bio, skills',
-      [username, email, hashedPassword, avatar || null, true, 'client', bio || null, processedSkills]
+      [username, email, hashedPassword, avatar || null, true, role || 'client', bio || null, processedSkills]
     );
     
     const user = result.rows[0];
@@ -55,7 +60,7 @@ const userModel = {
   // Find user by ID
   async findById(id) {
     const result = await db.query(
-      'SELECT id, name, email, "photoURL" as avatar, "isOnline" as status, "lastSeen", "createdAt", bio, skills FROM "Users" WHERE id = $1',
+      `SELECT ${userColumns} FROM "Users" WHERE id = $1`,
       [id]
     );
     
@@ -75,7 +80,7 @@ const userModel = {
   // Get all users except the one with the given ID
   async findAllExcept(userId) {
     const result = await db.query(
-      'SELECT id, name, email, "photoURL" as avatar, "isOnline" as status, "lastSeen", "createdAt", bio, skills FROM "Users" WHERE id != $1',
+      `SELECT ${userColumns} FROM "Users" WHERE id != $1`,
       [userId]
     );
     
@@ -95,6 +100,83 @@ const userModel = {
     return users;
   },
   
+  // Search the freelancer directory.
+  // filter: skills (the freelancer must have all of them), rateMin, rateMax,
+  // online, sort ('rate_asc' | 'rate_desc' | 'newest' | 'oldest'), excludeUserId
+  async findFreelancers(filter = {}) {
+    const conditions = [`role = 'freelancer'`, `"suspendedAt" IS NULL`];
+    const params = [];
+    
+    if (filter.excludeUserId) {
+      params.push(filter.excludeUserId);
+      conditions.push(`id != $${params.length}`);
+    }
+    
+    if (filter.skills && filter.skills.length > 0) {
+      params.push(filter.skills);
+      conditions.push(`skills @> $${params.length}::varchar[]`);
+    }
+    
+    if (filter.rateMin !== undefined) {
+      params.push(filter.rateMin);
+      conditions.push(`"hourlyRate" >= $${params.length}`);
+    }
+    
+    if (filter.rateMax !== undefined) {
+      params.push(filter.rateMax);
+      conditions.push(`"hourlyRate" <= $${params.length}`);
+    }
+    
+    if (filter.online) {
+      conditions.push(`"isOnline" = true`);
+    }
+    
+    const orderBy = {
+      rate_asc: '"hourlyRate" ASC, "createdAt" DESC',
+      rate_desc: '"hourlyRate" DESC, "createdAt" DESC',
+      oldest: '"createdAt" ASC'
+    }[filter.sort] || '"createdAt" DESC';
+    
+    const result = await db.query(
+      `SELECT ${userColumns}
+       FROM "Users"
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${orderBy}`,
+      params
+    );
+    
+    return result.rows;
+  },
+  
+  // Role and suspension of an account, checked on every authenticated request
+  async findAccountStatus(userId) {
+    const result = await db.query(
+      'SELECT role, "suspendedAt" FROM "Users" WHERE id = $1',
+      [userId]
+    );
+    return result.rows[0] || null;
+  },
+  
+  // Suspend an account or lift its suspension
+  async setSuspended(userId, suspended) {
+    const result = await db.query(
+      'UPDATE "Users" SET "suspendedAt" = $1, "updatedAt" = CURRENT_TIMESTAMP WHERE id = $2 RETURNING id, name, "suspendedAt"',
+      [suspended ? new Date() : null, userId]
+    );
+    return result.rows[0] || null;
+  },
+  
+  // Give the admin role to the accounts with the given emails
+  async promoteToAdmin(emails) {
+    const result = await db.query(
+      `UPDATE "Users" SET role = 'admin', "updatedAt" = CURRENT_TIMESTAMP
+       WHERE email = ANY($1::varchar[]) AND role <> 'admin'
+       RETURNING email`,
+      [emails]
+    );
+    return result.rows.map(row => row.email);
+  },
+  
   // Update user status
   async updateStatus(userId, status) {
     const isOnline = status === 'online';
@@ -107,17 +189,14 @@ const userModel = {
   
   // Update user profile
   async updateProfile(userId, userData) {
-    const { username, avatar, bio, skills } = userData;
+    const { username, avatar, bio, skills, hourlyRate } = userData;
     
-    // Process skills to ensure it's stored as a JSON string
-    let processedSkills = null;
-    if (skills && Array.isArray(skills)) {
-      processedSkills = JSON.stringify(skills);
-    }
+    // skills is a VARCHAR[] column: pg serializes JS arrays to array literals
+    const processedSkills = Array.isArray(skills) ? skills : null;
     
     const result = await db.query(
-      'UPDATE "Users" SET name = COALESCE($1, name), "photoURL" = COALESCE($2, "photoURL"), bio = COALESCE($3, bio), skills = COALESCE($4, skills), "updatedAt" = CURRENT_TIMESTAMP WHERE id = $5 RETURNING id, name, email, "photoURL" as avatar, "isOnline" as status, bio, skills',
-      [username, avatar, bio, processedSkills, userId]
+      'UPDATE "Users" SET name = COALESCE($1, name), "photoURL" = COALESCE($2, "photoURL"), bio = COALESCE($3, bio), skills = COALESCE($4, skills), "hourlyRate" = COALESCE($5, "hourlyRate"), "updatedAt" = CURRENT_TIMESTAMP WHERE id = $6 RETURNING id, name, email, "photoURL" as avatar, "isOnline" as status, bio, skills, "hourlyRate"',
+      [username, avatar, bio, processedSkills, hourlyRate, userId]
     );
     
     const user = result.rows[0];
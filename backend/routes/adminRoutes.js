@@ -0,0 +1,22 @@
+
+const express = require('express');
+const moderationController = require('../controllers/moderationController');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Every admin route requires an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+// Moderation queue
+router.get('/reports', moderationController.getReports);
+
+// Hide the reported content / dismiss the reports about it
+router.post('/reports/:reportId/hide', moderationController.hideContent);
+router.post('/reports/:reportId/dismiss', moderationController.dismissReport);
+
+// Suspend an account / lift its suspension
+router.post('/users/:userId/suspend', moderationController.suspendUser);
+router.delete('/users/:userId/suspend', moderationController.unsuspendUser);
+
+module.exports = router;
@@ -0,0 +1,16 @@
+
+const express = require('express');
+const commentController = require('../controllers/commentController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Reply to a comment
+router.post('/:commentId/replies', commentController.addReply);
+
+// Delete a comment
+router.delete('/:commentId', commentController.deleteComment);
+
+module.exports = router;
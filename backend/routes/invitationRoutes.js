@@ -0,0 +1,17 @@
+
+const express = require('express');
+const invitationController = require('../controllers/invitationController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Get the invitations received by the current user
+router.get('/', invitationController.getInvitations);
+
+// Accept / decline an invitation
+router.put('/:invitationId/accept', invitationController.acceptInvitation);
+router.put('/:invitationId/decline', invitationController.declineInvitation);
+
+module.exports = router;
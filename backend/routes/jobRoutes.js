@@ -1,11 +1,21 @@
 
 const express = require('express');
 const jobController = require('../controllers/jobController');
+const commentController = require('../controllers/commentController');
+const savedJobController = require('../controllers/savedJobController');
+const jobLikeController = require('../controllers/jobLikeController');
+const fileController = require('../controllers/fileController');
+const invitationController = require('../controllers/invitationController');
+const reviewController = require('../controllers/reviewController');
+const proposalRoutes = require('./proposalRoutes');
 const { authenticateToken } = require('../middleware/auth');
 
 const router = express.Router();
 
-// All routes require authentication
+// Most popular jobs (public, used by the landing page)
+router.get('/popular', jobController.getPopularJobs);
+
+// All other routes require authentication
 router.use(authenticateToken);
 
 // Create a new job
@@ -14,6 +24,22 @@ router.post('/', jobController.createJob);
 // Get all jobs with optional filtering
 router.get('/', jobController.getAllJobs);
 
+// Get the jobs saved by the current user (before /:jobId so "saved" is not taken as an ID)
+router.get('/saved', savedJobController.getSavedJobs);
+
+// Get the jobs recommended to the current user
+router.get('/recommended', jobController.getRecommendedJobs);
+
+// Drafts of the current user's jobs: autosave, publish now or schedule
+router.post('/drafts', jobController.createDraft);
+router.put('/drafts/:jobId', jobController.updateDraft);
+router.post('/drafts/:jobId/publish', jobController.publishDraft);
+
+// Job templates: the current user's own and the global ones
+router.get('/templates', jobController.getTemplates);
+router.post('/templates', jobController.createTemplate);
+router.delete('/templates/:templateId', jobController.deleteTemplate);
+
 // Get job by ID
 router.get('/:jobId', jobController.getJobById);
 
@@ -23,6 +49,38 @@ router.put('/:jobId', jobController.updateJob);
 // Delete a job
 router.delete('/:jobId', jobController.deleteJob);
 
+// Reopen an expired job with a new application deadline
+router.post('/:jobId/renew', jobController.renewJob);
+
+// Copy a job into a new draft
+router.post('/:jobId/duplicate', jobController.duplicateJob);
+
+// Add a comment to a job
+router.post('/:jobId/comments', commentController.addComment);
+
+// Save / unsave a job
+router.post('/:jobId/save', savedJobController.saveJob);
+router.delete('/:jobId/save', savedJobController.unsaveJob);
+
+// Like / unlike a job
+router.post('/:jobId/like', jobLikeController.likeJob);
+router.delete('/:jobId/like', jobLikeController.unlikeJob);
+
+// Attachments of a job (downloads go through GET /api/files/:fileId)
+router.post('/:jobId/attachments', fileController.uploadJobAttachment);
+router.delete('/:jobId/attachments/:fileId', fileController.deleteJobAttachment);
+
+// Invitations to bid on a job (sent by its owner)
+router.get('/:jobId/invitations', invitationController.getJobInvitations);
+router.post('/:jobId/invitations', invitationController.createInvitation);
+
+// Reviews between the client and the hired freelancer once the job is completed
+router.get('/:jobId/reviews', reviewController.getJobReviews);
+router.post('/:jobId/reviews', reviewController.createReview);
+
+// Proposals sent to a job
+router.use('/:jobId/proposals', proposalRoutes);
+
 // Añadir este log para depuración
 console.log('Job routes initialized');
 
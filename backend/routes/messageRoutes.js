@@ -19,6 +19,9 @@ router.put('/:messageId', messageController.updateMessage);
 // Delete a message
 router.delete('/:messageId', messageController.deleteMessage);
 
+// Add or remove an emoji reaction
+router.post('/:messageId/reactions', messageController.toggleReaction);
+
 // Asegurar que el modelo de mensajes esté correctamente inicializado
 const messageModel = require('../models/messageModel');
 (async () => {
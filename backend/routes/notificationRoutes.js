@@ -0,0 +1,19 @@
+
+const express = require('express');
+const notificationController = require('../controllers/notificationController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Get the current user's notifications
+router.get('/', notificationController.getNotifications);
+
+// Mark all notifications as read
+router.put('/read-all', notificationController.markAllAsRead);
+
+// Mark a notification as read
+router.put('/:notificationId/read', notificationController.markAsRead);
+
+module.exports = router;
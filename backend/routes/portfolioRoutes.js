@@ -0,0 +1,25 @@
+
+const express = require('express');
+const portfolioController = require('../controllers/portfolioController');
+const fileController = require('../controllers/fileController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Add an item to the current user's portfolio
+router.post('/', portfolioController.createItem);
+
+// Save the display order of the current user's portfolio (before /:itemId so "order" is not taken as an ID)
+router.put('/order', portfolioController.reorderItems);
+
+// Update / delete a portfolio item
+router.put('/:itemId', portfolioController.updateItem);
+router.delete('/:itemId', portfolioController.deleteItem);
+
+// Images and files of a portfolio item (downloads go through GET /api/files/:fileId)
+router.post('/:itemId/files', fileController.uploadPortfolioFile);
+router.delete('/:itemId/files/:fileId', fileController.deletePortfolioFile);
+
+module.exports = router;
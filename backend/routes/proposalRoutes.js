@@ -0,0 +1,21 @@
+
+const express = require('express');
+const proposalController = require('../controllers/proposalController');
+
+// mergeParams gives access to :jobId from the parent job router,
+// which already applies authenticateToken
+const router = express.Router({ mergeParams: true });
+
+// Get proposals for a job
+router.get('/', proposalController.getProposals);
+
+// Send a proposal to a job
+router.post('/', proposalController.createProposal);
+
+// Reject a proposal
+router.put('/:proposalId/reject', proposalController.rejectProposal);
+
+// Withdraw a proposal
+router.delete('/:proposalId', proposalController.deleteProposal);
+
+module.exports = router;
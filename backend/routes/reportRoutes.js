@@ -0,0 +1,13 @@
+
+const express = require('express');
+const reportController = require('../controllers/reportController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Report a job, comment, message or user
+router.post('/', reportController.createReport);
+
+module.exports = router;
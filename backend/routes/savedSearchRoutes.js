@@ -0,0 +1,19 @@
+
+const express = require('express');
+const savedSearchController = require('../controllers/savedSearchController');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Get the current user's saved searches
+router.get('/', savedSearchController.getSavedSearches);
+
+// Save a search
+router.post('/', savedSearchController.createSavedSearch);
+
+// Delete a saved search
+router.delete('/:searchId', savedSearchController.deleteSavedSearch);
+
+module.exports = router;
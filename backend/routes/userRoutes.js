@@ -1,6 +1,8 @@
 
 const express = require('express');
 const userController = require('../controllers/userController');
+const reviewController = require('../controllers/reviewController');
+const portfolioController = require('../controllers/portfolioController');
 const { authenticateToken } = require('../middleware/auth');
 
 const router = express.Router();
@@ -10,9 +12,18 @@ router.use(authenticateToken);
 // Get all users
 router.get('/', userController.getAllUsers);
 
+// Freelancer directory (before /:userId so "freelancers" is not taken as an ID)
+router.get('/freelancers', userController.getFreelancers);
+
 // Get user by ID
 router.get('/:userId', userController.getUserById);
 
+// Reviews received by a user
+router.get('/:userId/reviews', reviewController.getUserReviews);
+
+// Portfolio of a user, in its display order
+router.get('/:userId/portfolio', portfolioController.getUserPortfolio);
+
 // Update user profile
 router.put('/profile', userController.updateProfile);
 
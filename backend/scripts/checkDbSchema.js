@@ -1,11 +1,26 @@
 
+const fs = require('fs');
+const path = require('path');
 const messageModel = require('../models/messageModel');
+const userModel = require('../models/userModel');
 const db = require('../config/database');
 
+// Apply db.sql so tables added after the initial install also exist.
+// Every statement in the file is idempotent (IF NOT EXISTS), so it is safe to run on each start.
+async function applySchemaFile() {
+  const sqlPath = path.join(__dirname, '..', 'models', 'db.sql');
+  const sql = fs.readFileSync(sqlPath, 'utf8');
+  await db.query(sql);
+}
+
 async function checkAndUpdateDbSchema() {
   console.log('Verificando y actualizando esquema de base de datos...');
 
   try {
+    // Crear las tablas que falten según db.sql
+    await applySchemaFile();
+    console.log('Tablas de db.sql verificadas');
+
     // Verificar y agregar columna deleted a la tabla Messages
     const deletedColumnAdded = await messageModel.addDeletedColumn();
     
@@ -15,6 +30,19 @@ async function checkAndUpdateDbSchema() {
       console.log('El esquema de la tabla Messages ya está actualizado');
     }
 
+    // Dar el rol de administrador a las cuentas de ADMIN_EMAILS (separadas por comas)
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim())
+      .filter(Boolean);
+    
+    if (adminEmails.length > 0) {
+      const promoted = await userModel.promoteToAdmin(adminEmails);
+      if (promoted.length > 0) {
+        console.log(`Administradores añadidos: ${promoted.join(', ')}`);
+      }
+    }
+
     // Verificar si hay otras tablas o columnas que necesiten actualización
     // Aquí se pueden agregar más verificaciones en el futuro
     
@@ -4,6 +4,50 @@ const fs = require('fs');
 const path = require('path');
 require('dotenv').config();
 
+// Global job templates (no owner) that every user can start a job from
+const GLOBAL_TEMPLATES = [
+  {
+    name: 'Landing page',
+    title: 'Diseño y desarrollo de una landing page',
+    description: 'Buscamos crear una landing page para [producto o servicio].\n\nObjetivo:\n- \n\nSecciones:\n- Cabecera con llamada a la acción\n- Beneficios\n- Testimonios\n- Formulario de contacto\n\nEntregables:\n- Diseño responsive\n- Código fuente\n\nReferencias:\n- ',
+    category: 'Diseño Web',
+    skills: ['HTML', 'CSS', 'JavaScript'],
+    budgetType: 'fixed',
+    budgetMin: 500,
+    budgetMax: 500
+  },
+  {
+    name: 'Aplicación móvil',
+    title: 'Desarrollo de una aplicación móvil',
+    description: 'Necesitamos una aplicación para [iOS / Android] que permita [objetivo principal].\n\nFuncionalidades principales:\n- \n\nPlataformas:\n- \n\nEntregables:\n- Aplicación publicada en las tiendas\n- Código fuente y documentación\n\nPlazo estimado:\n- ',
+    category: 'Desarrollo Móvil',
+    skills: ['Swift', 'Kotlin'],
+    budgetType: 'range',
+    budgetMin: 2000,
+    budgetMax: 5000
+  },
+  {
+    name: 'Rediseño UI/UX',
+    title: 'Rediseño de la experiencia de usuario',
+    description: 'Queremos mejorar la experiencia de [producto].\n\nSituación actual:\n- \n\nProblemas detectados:\n- \n\nEntregables:\n- Investigación con usuarios\n- Wireframes\n- Prototipo interactivo en Figma',
+    category: 'Diseño UI/UX',
+    skills: ['UI Design', 'UX Design', 'Figma'],
+    budgetType: 'range',
+    budgetMin: 800,
+    budgetMax: 1500
+  },
+  {
+    name: 'Análisis de datos',
+    title: 'Análisis de datos y cuadro de mando',
+    description: 'Tenemos datos de [origen] y necesitamos [objetivo del análisis].\n\nDatos disponibles:\n- \n\nPreguntas a responder:\n- \n\nEntregables:\n- Informe con conclusiones\n- Cuadro de mando',
+    category: 'Ciencia de Datos',
+    skills: ['Python', 'Data Analysis'],
+    budgetType: 'hourly',
+    budgetMin: 40,
+    budgetMax: 40
+  }
+];
+
 async function initDb() {
   const pool = new Pool({
     user: process.env.DB_USER || 'postgres',
@@ -24,6 +68,18 @@ async function initDb() {
     await pool.query(sql);
     console.log('Database tables created successfully');
 
+    // Seed the global job templates that are not there yet
+    for (const template of GLOBAL_TEMPLATES) {
+      await pool.query(
+        `INSERT INTO "JobTemplates" (name, title, description, category, skills, "budgetType", "budgetMin", "budgetMax")
+         SELECT $1::varchar, $2::varchar, $3::text, $4::varchar, $5::varchar[], $6::varchar, $7::float, $8::float
+         WHERE NOT EXISTS (SELECT 1 FROM "JobTemplates" WHERE "userId" IS NULL AND name = $1)`,
+        [template.name, template.title, template.description, template.category, template.skills,
+          template.budgetType, template.budgetMin, template.budgetMax]
+      );
+    }
+    console.log('Global job templates seeded');
+
     // Check if specific tables exist and create them if they don't
     const checkTablesQuery = `
       SELECT table_name 
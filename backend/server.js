@@ -14,10 +14,21 @@ const chatRoutes = require('./routes/chatRoutes');
 const messageRoutes = require('./routes/messageRoutes');
 const fileRoutes = require('./routes/fileRoutes');
 const jobRoutes = require('./routes/jobRoutes');
+const commentRoutes = require('./routes/commentRoutes');
+const savedSearchRoutes = require('./routes/savedSearchRoutes');
+const notificationRoutes = require('./routes/notificationRoutes');
+const invitationRoutes = require('./routes/invitationRoutes');
+const portfolioRoutes = require('./routes/portfolioRoutes');
+const reportRoutes = require('./routes/reportRoutes');
+const adminRoutes = require('./routes/adminRoutes');
 
 // Socket handler
 const socketHandler = require('./socket/socketHandler');
 
+// Background workers
+const { startJobExpiryWorker } = require('./workers/jobExpiryWorker');
+const { startJobPublishWorker } = require('./workers/jobPublishWorker');
+
 // Importar el script de verificación de esquema
 const { checkAndUpdateDbSchema } = require('./scripts/checkDbSchema');
 
@@ -70,6 +81,13 @@ app.use('/api/chats', chatRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/jobs', jobRoutes);
+app.use('/api/comments', commentRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Socket.IO setup
 const io = socketIo(server, {
@@ -108,4 +126,8 @@ server.listen(PORT, async () => {
   } catch (err) {
     console.error('Error al verificar columnas en inicio de servidor:', err);
   }
+  
+  // Publicar los borradores programados y cerrar las propuestas cuyo plazo ha vencido
+  startJobPublishWorker(app);
+  startJobExpiryWorker(app);
 });
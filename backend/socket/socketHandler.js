@@ -3,36 +3,119 @@ const userModel = require('../models/userModel');
 const chatModel = require('../models/chatModel');
 const messageModel = require('../models/messageModel');
 const fileModel = require('../models/fileModel');
+const reactionModel = require('../models/reactionModel');
 
-// Map to track connected users: userId -> socketId
+// Open connections per user (tabs, devices): userId -> count
 const connectedUsers = new Map();
 
+// Every socket of a user joins that user's room, so events reach all their devices
+const userRoom = (userId) => `user:${userId}`;
+
+// A typing user is announced at most once per throttle window and
+// considered stopped when no typing:start arrives before the timeout
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
+
+// Who is typing where: "chatId:userId" -> { chatId, userId, announcedAt, timer }
+const typingUsers = new Map();
+
+// Users announced as online, and the last queued status change of each user
+const onlineUsers = new Set();
+const presenceUpdates = new Map();
+
 const socketHandler = (io) => {
+  // Emit an event to every connection of the given users
+  const emitToUsers = (userIds, event, ...data) => {
+    if (userIds.length === 0) return;
+    io.to(userIds.map(userId => userRoom(userId.toString()))).emit(event, ...data);
+  };
+  
+  // Send a typing event ({ userId, name }) to the other participants of a chat
+  const emitTyping = async (chatId, userId, event) => {
+    const participants = await chatModel.getParticipants(chatId);
+    const typist = participants.find(participant => participant.id === userId);
+    const payload = { userId, name: typist ? typist.name : null };
+    
+    const otherIds = participants.map(participant => participant.id).filter(id => id !== userId);
+    emitToUsers(otherIds, event, chatId, payload);
+  };
+  
+  // Bring the online status of a user in line with their open connections. Changes of
+  // the same user run one after another, and each writes and announces the status the
+  // user has when it runs, so a connection dropped while going online ends offline.
+  const syncPresence = (userId) => {
+    const key = userId.toString();
+    const update = (presenceUpdates.get(key) || Promise.resolve()).then(async () => {
+      const online = connectedUsers.has(key);
+      if (online === onlineUsers.has(key)) return;
+      
+      if (online) {
+        onlineUsers.add(key);
+      } else {
+        onlineUsers.delete(key);
+      }
+      
+      // The others are told even if this fails
+      try {
+        await userModel.updateStatus(userId, online ? 'online' : 'offline');
+      } catch (error) {
+        console.error('Error updating user status:', error);
+      }
+      
+      io.emit(online ? 'user:online' : 'user:offline', userId);
+    });
+    
+    presenceUpdates.set(key, update);
+    update.then(() => {
+      if (presenceUpdates.get(key) === update) presenceUpdates.delete(key);
+    });
+    return update;
+  };
+  
+  const stopTyping = async (chatId, userId) => {
+    const key = `${chatId}:${userId}`;
+    const typing = typingUsers.get(key);
+    if (!typing) return;
+    
+    clearTimeout(typing.timer);
+    typingUsers.delete(key);
+    await emitTyping(chatId, userId, 'typing:stop');
+  };
+  
   io.on('connection', async (socket) => {
     const userId = socket.user.userId;
     console.log(`User connected: ${userId}, Socket ID: ${socket.id}`);
     
-    // Update user status to online
-    await userModel.updateStatus(userId, 'online');
-    
-    // Store the mapping: userId -> socketId
-    connectedUsers.set(userId.toString(), socket.id);
+    socket.join(userRoom(userId.toString()));
     
-    // Notify all users about status change
-    io.emit('user:online', userId);
+    // Count the connection; only the first one makes the user online
+    const connections = (connectedUsers.get(userId.toString()) || 0) + 1;
+    connectedUsers.set(userId.toString(), connections);
     
     // Handle disconnect
     socket.on('disconnect', async () => {
-      console.log(`User disconnected: ${userId}`);
+      console.log(`User disconnected: ${userId}, Socket ID: ${socket.id}`);
       
-      // Update user status to offline
-      await userModel.updateStatus(userId, 'offline');
+      // Other tabs or devices are still connected: the user stays online
+      const remaining = (connectedUsers.get(userId.toString()) || 1) - 1;
+      if (remaining > 0) {
+        connectedUsers.set(userId.toString(), remaining);
+        return;
+      }
       
       // Remove from connected users map
       connectedUsers.delete(userId.toString());
       
-      // Notify all users about status change
-      io.emit('user:offline', userId);
+      // Stop any typing indicator the user left behind
+      const typingChats = [...typingUsers.values()]
+        .filter(typing => typing.userId === userId)
+        .map(typing => typing.chatId);
+      await Promise.all(typingChats.map(chatId => stopTyping(chatId, userId).catch(error => {
+        console.error('Error stopping typing indicator:', error);
+      })));
+      
+      // Update user status to offline and notify all users
+      await syncPresence(userId);
     });
     
     // Handle sending messages
@@ -64,6 +147,9 @@ const socketHandler = (io) => {
           text
         });
         
+        // Sending the message ends the typing indicator
+        await stopTyping(chatId, userId);
+        
         // Get sender information
         const result = await chatModel.getParticipants(chatId);
         const sender = result.find(user => user.id === userId);
@@ -86,18 +172,63 @@ const socketHandler = (io) => {
         const participants = await chatModel.getParticipants(chatId);
         
         // Send to all participants including the sender
-        participants.forEach((participant) => {
-          const socketId = connectedUsers.get(participant.id.toString());
-          if (socketId) {
-            io.to(socketId).emit('chat:message', chatId, formattedMessage);
-          }
-        });
+        emitToUsers(participants.map(p => p.id), 'chat:message', chatId, formattedMessage);
       } catch (error) {
         console.error('Error sending message:', error);
         socket.emit('error', 'Error sending message');
       }
     });
     
+    // Handle typing indicators
+    socket.on('typing:start', async ({ chatId } = {}) => {
+      try {
+        if (!chatId) return;
+        
+        const key = `${chatId}:${userId}`;
+        const now = Date.now();
+        const typing = typingUsers.get(key);
+        
+        // Keep the indicator alive while typing:start keeps arriving
+        const expire = () => stopTyping(chatId, userId).catch(error => {
+          console.error('Error expiring typing indicator:', error);
+        });
+        
+        if (typing) {
+          clearTimeout(typing.timer);
+          typing.timer = setTimeout(expire, TYPING_TIMEOUT_MS);
+          
+          // Throttle: the others already know, re-announce only after the window
+          if (now - typing.announcedAt < TYPING_THROTTLE_MS) return;
+          typing.announcedAt = now;
+        } else {
+          const isParticipant = await chatModel.isParticipant(chatId, userId);
+          if (!isParticipant) {
+            return socket.emit('error', 'You are not a participant in this chat');
+          }
+          
+          typingUsers.set(key, {
+            chatId,
+            userId,
+            announcedAt: now,
+            timer: setTimeout(expire, TYPING_TIMEOUT_MS)
+          });
+        }
+        
+        await emitTyping(chatId, userId, 'typing:start');
+      } catch (error) {
+        console.error('Error handling typing:start:', error);
+      }
+    });
+    
+    socket.on('typing:stop', async ({ chatId } = {}) => {
+      try {
+        if (!chatId) return;
+        await stopTyping(chatId, userId);
+      } catch (error) {
+        console.error('Error handling typing:stop:', error);
+      }
+    });
+    
     // Handle editing messages
     socket.on('editMessage', async (messageData) => {
       try {
@@ -130,18 +261,48 @@ const socketHandler = (io) => {
         };
         
         // Notify all participants about the update
-        participants.forEach((participant) => {
-          const socketId = connectedUsers.get(participant.id.toString());
-          if (socketId) {
-            io.to(socketId).emit('chat:message:update', chatId, formattedMessage);
-          }
-        });
+        emitToUsers(participants.map(p => p.id), 'chat:message:update', chatId, formattedMessage);
       } catch (error) {
         console.error('Error editing message:', error);
         socket.emit('error', 'Error editing message');
       }
     });
     
+    // Handle emoji reactions (toggled: reacting twice with the same emoji removes it)
+    socket.on('toggleReaction', async ({ messageId, emoji } = {}) => {
+      try {
+        if (!reactionModel.isValidEmoji(emoji)) {
+          return socket.emit('error', 'A single emoji is required');
+        }
+        
+        const message = await messageModel.findById(messageId);
+        
+        if (!message) {
+          return socket.emit('error', 'Message not found');
+        }
+        
+        const chatId = message.chatId;
+        const isParticipant = await chatModel.isParticipant(chatId, userId);
+        if (!isParticipant) {
+          return socket.emit('error', 'You are not a participant in this chat');
+        }
+        
+        if (message.deleted) {
+          return socket.emit('error', 'Cannot react to a deleted message');
+        }
+        
+        await reactionModel.toggle(messageId, userId, emoji);
+        const reactions = await reactionModel.findByMessageId(messageId);
+        
+        // Notify all participants about the new reactions
+        const participants = await chatModel.getParticipants(chatId);
+        emitToUsers(participants.map(p => p.id), 'chat:message:reactions', chatId, { messageId, reactions });
+      } catch (error) {
+        console.error('Error toggling reaction:', error);
+        socket.emit('error', 'Error toggling reaction');
+      }
+    });
+    
     // Handle deleting messages
     socket.on('deleteMessage', async (messageId) => {
       try {
@@ -169,17 +330,12 @@ const socketHandler = (io) => {
         await chatModel.updateLastMessage(chatId);
         
         // Notify all participants about the deletion
-        participants.forEach((participant) => {
-          const socketId = connectedUsers.get(participant.id.toString());
-          if (socketId) {
-            io.to(socketId).emit('chat:message:delete', chatId, {
-              id: messageId,
-              chatId,
-              deleted: true,
-              content: '[Mensaje eliminado]',
-              timestamp: deletedMessage.updatedAt
-            });
-          }
+        emitToUsers(participants.map(p => p.id), 'chat:message:delete', chatId, {
+          id: messageId,
+          chatId,
+          deleted: true,
+          content: '[Mensaje eliminado]',
+          timestamp: deletedMessage.updatedAt
         });
       } catch (error) {
         console.error('Error deleting message:', error);
@@ -237,28 +393,26 @@ const socketHandler = (io) => {
         const participants = await chatModel.getParticipants(chatId);
         
         // Send to all participants
-        participants.forEach((participant) => {
-          const socketId = connectedUsers.get(participant.id.toString());
-          if (socketId) {
-            io.to(socketId).emit('chat:message', chatId, messageToSend);
-          }
-        });
+        emitToUsers(participants.map(p => p.id), 'chat:message', chatId, messageToSend);
       } catch (error) {
         console.error('Error sending file:', error);
         socket.emit('error', 'Error sending file');
       }
     });
+    
+    // Announced once every handler is registered, so no early event or disconnect is missed
+    if (connections === 1) {
+      // Update user status to online and notify all users
+      await syncPresence(userId);
+    }
   });
   
   return {
     connectedUsers,
-    notifyUsers: (userIds, event, ...data) => {
-      userIds.forEach((userId) => {
-        const socketId = connectedUsers.get(userId.toString());
-        if (socketId) {
-          io.to(socketId).emit(event, ...data);
-        }
-      });
+    notifyUsers: emitToUsers,
+    // Close every connection of a user (e.g. when their account is suspended)
+    disconnectUser: (userId) => {
+      io.in(userRoom(userId.toString())).disconnectSockets(true);
     }
   };
 };
@@ -0,0 +1,114 @@
+
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { stubModules, mockResponse } = require('./stubModules');
+
+const OWNER_ID = 'owner-1';
+const JOB_ID = 'job-1';
+
+let job;
+let releasedJobIds;
+let historyEntries;
+
+stubModules({
+  '../models/jobModel': {
+    findById: async () => job,
+    update: async (jobId, data) => ({ ...job, ...data }),
+    publish: async () => null
+  },
+  '../models/userModel': {
+    findById: async () => ({ username: 'Cliente', avatar: null })
+  },
+  '../models/proposalModel': {
+    releaseAccepted: async (jobId) => {
+      releasedJobIds.push(jobId);
+    }
+  },
+  '../models/jobStatusHistoryModel': {
+    create: async (entry) => {
+      historyEntries.push(entry);
+      return entry;
+    }
+  },
+  '../models/commentModel': {},
+  '../models/savedSearchModel': {},
+  '../models/fileModel': {},
+  '../models/jobTemplateModel': {},
+  './notificationController': {}
+});
+
+const jobController = require('../controllers/jobController');
+
+const updateJob = async (body) => {
+  const res = mockResponse();
+  await jobController.updateJob({
+    params: { jobId: JOB_ID },
+    body,
+    user: { userId: OWNER_ID }
+  }, res);
+  return res;
+};
+
+beforeEach(() => {
+  job = { id: JOB_ID, userId: OWNER_ID, status: 'in progress', deadline: null };
+  releasedJobIds = [];
+  historyEntries = [];
+});
+
+test('reopening a job in progress releases its accepted proposal', async () => {
+  const res = await updateJob({ status: 'open', statusReason: 'El freelancer lo ha dejado' });
+  
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.body.job.status, 'open');
+  assert.equal(res.body.statusEntry.fromStatus, 'in progress');
+  assert.deepEqual(releasedJobIds, [JOB_ID]);
+});
+
+test('reopening a cancelled job releases its accepted proposal', async () => {
+  job.status = 'cancelled';
+  
+  const res = await updateJob({ status: 'open' });
+  
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(releasedJobIds, [JOB_ID]);
+});
+
+test('completing a job keeps its accepted proposal', async () => {
+  const res = await updateJob({ status: 'completed' });
+  
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(releasedJobIds, []);
+});
+
+test('edits that do not change the status keep the accepted proposal', async () => {
+  const res = await updateJob({ title: 'Nuevo título' });
+  
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(releasedJobIds, []);
+});
+
+test('publishing a draft that stopped being one in the meantime is a conflict', async () => {
+  job = {
+    id: JOB_ID,
+    userId: OWNER_ID,
+    status: 'draft',
+    title: 'Logo',
+    description: 'Un logo para la marca',
+    category: 'Diseño',
+    budgetType: 'fixed',
+    budgetMin: 100,
+    budgetMax: 100,
+    currency: 'USD',
+    deadline: null
+  };
+  
+  const res = mockResponse();
+  await jobController.publishDraft({
+    params: { jobId: JOB_ID },
+    body: {},
+    user: { userId: OWNER_ID }
+  }, res);
+  
+  assert.equal(res.statusCode, 409);
+  assert.deepEqual(historyEntries, []);
+});
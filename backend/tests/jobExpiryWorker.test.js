@@ -0,0 +1,39 @@
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { stubModules } = require('./stubModules');
+
+const notified = [];
+
+stubModules({
+  '../models/jobModel': {
+    expireOverdue: async () => [
+      { id: 'job-1', title: 'Logo', userId: 'owner-1' },
+      { id: 'job-2', title: 'Web', userId: 'owner-2' }
+    ],
+    findInterestedUserIds: async () => []
+  },
+  '../models/jobStatusHistoryModel': {
+    create: async (entry) => {
+      if (entry.jobId === 'job-1') throw new Error('connection lost');
+      return entry;
+    }
+  },
+  '../controllers/notificationController': {
+    notify: async (req, userIds, notification) => {
+      notified.push({ userIds, jobId: notification.data.jobId });
+    }
+  },
+  './runPeriodically': () => null
+});
+
+const { expireJobs } = require('../workers/jobExpiryWorker');
+
+test('a failure announcing one expired job does not skip the rest of the batch', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  
+  const count = await expireJobs({});
+  
+  assert.equal(count, 2);
+  assert.deepEqual(notified, [{ userIds: ['owner-2'], jobId: 'job-2' }]);
+});
@@ -0,0 +1,37 @@
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { stubModules } = require('./stubModules');
+
+stubModules({
+  '../config/database': {},
+  'uuid': { v4: () => 'reaction-1' }
+});
+
+const reactionModel = require('../models/reactionModel');
+
+test('accepts single emojis, with modifiers, flags, sequences and keycaps', () => {
+  const emojis = [
+    '👍', '❤️', '😂', '🎉', '©️',
+    '👍🏽', '🇪🇸', '👨‍👩‍👧', '🏳️‍🌈', '👩🏽‍💻', '🏴󠁧󠁢󠁳󠁣󠁴󠁿',
+    '1️⃣', '0️⃣', '#️⃣', '*️⃣', '5⃣'
+  ];
+  
+  for (const emoji of emojis) {
+    assert.equal(reactionModel.isValidEmoji(emoji), true, emoji);
+  }
+});
+
+test('rejects text, several emojis, bare keycap characters and oversized input', () => {
+  const values = [
+    '', ' ', 'a', 'ok', '1', '#', '12', '⃣', '1️⃣1️⃣', 'a⃣',
+    '👍 ', ' 👍', '👍a', '<b>👍</b>',
+    '👍👍', '😀😀😀', '👍🏽👍', '🇪', '🇪🇸🇫🇷', '👍\u200D', '\u200D👍',
+    '👍'.repeat(20),
+    null, undefined, 42, ['👍']
+  ];
+  
+  for (const value of values) {
+    assert.equal(reactionModel.isValidEmoji(value), false, String(value));
+  }
+});
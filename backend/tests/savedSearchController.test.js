@@ -0,0 +1,92 @@
+
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { stubModules, mockResponse } = require('./stubModules');
+
+let created;
+
+stubModules({
+  '../models/savedSearchModel': {
+    create: async (searchData) => {
+      created = searchData;
+      return { id: 'search-1', ...searchData };
+    }
+  }
+});
+
+const savedSearchController = require('../controllers/savedSearchController');
+
+const createSavedSearch = async (filters) => {
+  const res = mockResponse();
+  await savedSearchController.createSavedSearch({
+    body: { name: 'Diseño web', filters },
+    user: { userId: 'user-1' }
+  }, res);
+  return res;
+};
+
+beforeEach(() => {
+  created = null;
+});
+
+test('normalizes valid filters and drops unknown or empty ones', async () => {
+  const res = await createSavedSearch({
+    search: '  logo ',
+    category: 'Diseño',
+    status: 'open',
+    budgetMin: '100',
+    budgetMax: 500,
+    budgetType: 'range',
+    currency: 'eur',
+    skills: ['React', ' ', 'Node '],
+    skillsMatch: 'all',
+    postedWithin: '7',
+    userId: 'someone-else',
+    sortBy: 'budget'
+  });
+  
+  assert.equal(res.statusCode, 201);
+  assert.deepEqual(created.filters, {
+    search: 'logo',
+    category: 'Diseño',
+    status: 'open',
+    budgetMin: 100,
+    budgetMax: 500,
+    budgetType: 'range',
+    currency: 'EUR',
+    skills: ['React', 'Node'],
+    skillsMatch: 'all',
+    postedWithin: 7
+  });
+});
+
+test('saves a search without filters', async () => {
+  const res = await createSavedSearch(undefined);
+  
+  assert.equal(res.statusCode, 201);
+  assert.deepEqual(created.filters, {});
+});
+
+test('rejects filters of the wrong type or outside their options', async () => {
+  const invalidFilters = [
+    { budgetMin: 'abc' },
+    { budgetMax: -5 },
+    { budgetMin: true },
+    { skills: 'react' },
+    { skills: ['react', 3] },
+    { budgetType: 'monthly' },
+    { skillsMatch: 'some' },
+    { postedWithin: 14 },
+    { status: 'draft' },
+    { currency: 'euros' },
+    { search: ['logo'] },
+    ['budgetMin']
+  ];
+  
+  for (const filters of invalidFilters) {
+    const res = await createSavedSearch(filters);
+    
+    assert.equal(res.statusCode, 400, JSON.stringify(filters));
+    assert.equal(created, null);
+  }
+});
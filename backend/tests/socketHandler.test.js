@@ -0,0 +1,76 @@
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { stubModules } = require('./stubModules');
+
+const statusWrites = [];
+let finishStatusWrite = null;
+
+stubModules({
+  '../models/userModel': {
+    // The first write (going online) stays pending until the test lets it finish
+    updateStatus: (userId, status) => {
+      statusWrites.push(status);
+      if (statusWrites.length > 1) return Promise.resolve();
+      return new Promise(resolve => {
+        finishStatusWrite = resolve;
+      });
+    }
+  },
+  '../models/chatModel': {},
+  '../models/messageModel': {},
+  '../models/fileModel': {},
+  '../models/reactionModel': {}
+});
+
+const socketHandler = require('../socket/socketHandler');
+
+const nextTurn = () => new Promise(resolve => setImmediate(resolve));
+
+const createIo = () => {
+  const io = {
+    emitted: [],
+    on(event, handler) {
+      io.connect = handler;
+    },
+    emit(event, ...data) {
+      io.emitted.push([event, ...data]);
+    },
+    to: () => ({ emit: () => {} })
+  };
+  return io;
+};
+
+const createSocket = (userId) => {
+  const handlers = {};
+  return {
+    id: `socket-${userId}`,
+    user: { userId },
+    handshake: { auth: {} },
+    join: () => {},
+    on: (event, handler) => {
+      handlers[event] = handler;
+    },
+    handlers
+  };
+};
+
+test('a connection dropped while going online leaves the user offline', async (t) => {
+  t.mock.method(console, 'log', () => {});
+  const io = createIo();
+  socketHandler(io);
+  const socket = createSocket('user-1');
+  
+  // Drop the connection while its online status is being written
+  const connecting = io.connect(socket);
+  await nextTurn();
+  assert.deepEqual(statusWrites, ['online']);
+  const disconnecting = socket.handlers.disconnect();
+  await nextTurn();
+  
+  finishStatusWrite();
+  await Promise.all([connecting, disconnecting]);
+  
+  assert.deepEqual(statusWrites, ['online', 'offline']);
+  assert.deepEqual(io.emitted, [['user:online', 'user-1'], ['user:offline', 'user-1']]);
+});
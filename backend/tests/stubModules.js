@@ -0,0 +1,39 @@
+
+const Module = require('module');
+
+// Replace modules by the exact string they are required with (e.g. '../models/jobModel'),
+// so controllers and models can be loaded without a database or the installed packages.
+// Returns a function that restores the normal loading.
+const stubModules = (stubs) => {
+  const load = Module._load;
+  
+  Module._load = function (request, ...args) {
+    if (Object.prototype.hasOwnProperty.call(stubs, request)) {
+      return stubs[request];
+    }
+    return load.call(this, request, ...args);
+  };
+  
+  return () => {
+    Module._load = load;
+  };
+};
+
+// Minimal Express response that records the status and JSON body
+const mockResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+};
+
+module.exports = { stubModules, mockResponse };
@@ -0,0 +1,63 @@
+
+const jobModel = require('../models/jobModel');
+const jobStatusHistoryModel = require('../models/jobStatusHistoryModel');
+const notificationController = require('../controllers/notificationController');
+const runPeriodically = require('./runPeriodically');
+
+// How often open jobs are checked against their application deadline
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Expire the open jobs whose deadline has passed, and let the owner and the users
+// who sent an offer to or saved each job know. Returns how many jobs expired.
+const expireJobs = async (app) => {
+  const expiredJobs = await jobModel.expireOverdue();
+  
+  // notify() only uses the request to reach the socket service on the app
+  const context = { app };
+  
+  for (const job of expiredJobs) {
+    // The job is already expired, so a failure here must not skip the rest of the batch
+    try {
+      await jobStatusHistoryModel.create({
+        jobId: job.id,
+        fromStatus: 'open',
+        toStatus: 'expired',
+        reason: 'Plazo de postulación vencido',
+        userId: null
+      });
+      
+      await notificationController.notify(context, [job.userId], {
+        type: 'job-expired',
+        title: 'Tu propuesta ha vencido',
+        message: `"${job.title}" ya no acepta ofertas. Puedes renovarla desde tu perfil.`,
+        link: '/profile',
+        data: { jobId: job.id }
+      });
+      
+      const interestedUserIds = await jobModel.findInterestedUserIds(job.id);
+      if (interestedUserIds.length > 0) {
+        await notificationController.notify(context, interestedUserIds, {
+          type: 'job-expired',
+          title: 'Una propuesta ha cerrado',
+          message: `"${job.title}" ya no acepta ofertas`,
+          link: `/jobs/${job.id}`,
+          data: { jobId: job.id }
+        });
+      }
+    } catch (error) {
+      console.error(`Error announcing the expiry of job ${job.id}:`, error);
+    }
+  }
+  
+  return expiredJobs.length;
+};
+
+const startJobExpiryWorker = (app) =>
+  runPeriodically('job expiry', async () => {
+    const count = await expireJobs(app);
+    if (count > 0) {
+      console.log(`Expired ${count} job(s) past their deadline`);
+    }
+  }, CHECK_INTERVAL_MS);
+
+module.exports = { expireJobs, startJobExpiryWorker };
@@ -0,0 +1,63 @@
+
+const jobModel = require('../models/jobModel');
+const jobController = require('../controllers/jobController');
+const notificationController = require('../controllers/notificationController');
+const runPeriodically = require('./runPeriodically');
+
+// How often scheduled drafts are checked against their publication date
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Publish the drafts whose publication date has come and let their owners know.
+// Incomplete drafts are unscheduled instead, and their owners asked to finish them.
+// Returns how many drafts were published.
+const publishScheduledJobs = async (app) => {
+  const publishedJobs = await jobModel.publishScheduled();
+  
+  // announceJob() and notify() only use the request to reach the socket service on the app
+  const context = { app };
+  
+  // The jobs are already published, so a failure here must not skip the rest of the batch
+  for (const job of publishedJobs) {
+    try {
+      await jobController.announceJob(context, job);
+      
+      await notificationController.notify(context, [job.userId], {
+        type: 'job-published',
+        title: 'Tu propuesta se ha publicado',
+        message: `"${job.title}" ya está visible y acepta ofertas`,
+        link: `/jobs/${job.id}`,
+        data: { jobId: job.id }
+      });
+    } catch (error) {
+      console.error(`Error announcing the publication of job ${job.id}:`, error);
+    }
+  }
+  
+  const incompleteDrafts = await jobModel.unscheduleIncomplete();
+  
+  for (const draft of incompleteDrafts) {
+    try {
+      await notificationController.notify(context, [draft.userId], {
+        type: 'job-publish-failed',
+        title: 'No se ha podido publicar tu propuesta',
+        message: `Al borrador "${draft.title || 'Sin título'}" le faltan datos para publicarse. Complétalo y vuelve a programarlo`,
+        link: `/jobs/create?draft=${draft.id}`,
+        data: { jobId: draft.id }
+      });
+    } catch (error) {
+      console.error(`Error notifying the owner of draft ${draft.id}:`, error);
+    }
+  }
+  
+  return publishedJobs.length;
+};
+
+const startJobPublishWorker = (app) =>
+  runPeriodically('job publish', async () => {
+    const count = await publishScheduledJobs(app);
+    if (count > 0) {
+      console.log(`Published ${count} scheduled job(s)`);
+    }
+  }, CHECK_INTERVAL_MS);
+
+module.exports = { publishScheduledJobs, startJobPublishWorker };
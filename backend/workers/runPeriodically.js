@@ -0,0 +1,25 @@
+
+// Run `task` now and then every `intervalMs`. A run is skipped while the previous
+// one is still going, and errors are logged so the next run still happens.
+// Returns the interval handle.
+const runPeriodically = (name, task, intervalMs) => {
+  let running = false;
+  
+  const run = async () => {
+    if (running) return;
+    running = true;
+    
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Error in ${name} worker:`, error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  run();
+  return setInterval(run, intervalMs);
+};
+
+module.exports = runPeriodically;
@@ -5,6 +5,7 @@ import { AuthProvider } from '@/contexts/AuthContext';
 import { DataProvider } from '@/contexts/DataContext';
 import { JobProvider } from '@/contexts/JobContext';
 import { ChatProvider } from '@/contexts/ChatContext';
+import { NotificationProvider } from '@/contexts/NotificationContext';
 import { Toaster } from '@/components/ui/toaster';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Index from '@/pages/Index';
@@ -18,6 +19,9 @@ import Register from '@/pages/Register';
 import NotFound from '@/pages/NotFound';
 import ProfilePage from '@/pages/ProfilePage';
 import UserProfile from '@/pages/UserProfile';
+import FreelancersPage from '@/pages/FreelancersPage';
+import InvitationsPage from '@/pages/InvitationsPage';
+import ModerationPage from '@/pages/ModerationPage';
 
 function App() {
   return (
@@ -27,51 +31,68 @@ function App() {
           <DataProvider>
             <JobProvider>
               <ChatProvider>
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/register" element={<Register />} />
+                <NotificationProvider>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/login" element={<Login />} />
+                    <Route path="/register" element={<Register />} />
                   
-                  {/* Protected Routes */}
-                  <Route path="/dashboard" element={
+                    {/* Protected Routes */}
+                    <Route path="/dashboard" element={
+                      <ProtectedRoute>
+                        <Dashboard />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/jobs" element={
+                      <ProtectedRoute>
+                        <JobsPage />
+                      </ProtectedRoute>
+                    } />
+                    {/* Importante: La ruta más específica viene antes de la ruta dinámica */}
+                    <Route path="/jobs/create" element={
+                      <ProtectedRoute>
+                        <CreateJobPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/jobs/:jobId" element={
+                      <ProtectedRoute>
+                        <JobDetail />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/chats" element={
+                      <ProtectedRoute>
+                        <ChatsPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/profile" element={
+                      <ProtectedRoute>
+                        <ProfilePage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/freelancers" element={
                     <ProtectedRoute>
-                      <Dashboard />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/jobs" element={
-                    <ProtectedRoute>
-                      <JobsPage />
-                    </ProtectedRoute>
-                  } />
-                  {/* Importante: La ruta más específica viene antes de la ruta dinámica */}
-                  <Route path="/jobs/create" element={
-                    <ProtectedRoute>
-                      <CreateJobPage />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/jobs/:jobId" element={
-                    <ProtectedRoute>
-                      <JobDetail />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/chats" element={
-                    <ProtectedRoute>
-                      <ChatsPage />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/profile" element={
-                    <ProtectedRoute>
-                      <ProfilePage />
+                      <FreelancersPage />
                     </ProtectedRoute>
                   } />
+                  <Route path="/invitations" element={
+                      <ProtectedRoute>
+                        <InvitationsPage />
+                      </ProtectedRoute>
+                    } />
                   <Route path="/users/:userId" element={
-                    <ProtectedRoute>
-                      <UserProfile />
-                    </ProtectedRoute>
-                  } />
-                  {/* Ruta por defecto para páginas no encontradas */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
+                      <ProtectedRoute>
+                        <UserProfile />
+                      </ProtectedRoute>
+                    } />
+                  <Route path="/admin/moderation" element={
+                      <ProtectedRoute requiredRole="admin">
+                        <ModerationPage />
+                      </ProtectedRoute>
+                    } />
+                    {/* Ruta por defecto para páginas no encontradas */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </NotificationProvider>
                 <Toaster />
               </ChatProvider>
             </JobProvider>
@@ -0,0 +1,25 @@
+
+import React from 'react';
+import { File, FileArchive, FileImage, FileSpreadsheet, FileText } from 'lucide-react';
+
+interface AttachmentIconProps {
+  contentType: string;
+  className?: string;
+}
+
+// Icono según el tipo MIME del archivo
+export const AttachmentIcon: React.FC<AttachmentIconProps> = ({ contentType, className = 'h-5 w-5' }) => {
+  if (contentType.startsWith('image/')) {
+    return <FileImage className={`${className} text-blue-500`} />;
+  }
+  if (contentType.includes('sheet') || contentType.includes('excel') || contentType === 'text/csv') {
+    return <FileSpreadsheet className={`${className} text-green-600`} />;
+  }
+  if (contentType === 'application/pdf' || contentType.startsWith('text/') || contentType.includes('word')) {
+    return <FileText className={`${className} text-red-500`} />;
+  }
+  if (contentType.includes('zip') || contentType.includes('compressed') || contentType.includes('tar')) {
+    return <FileArchive className={`${className} text-amber-600`} />;
+  }
+  return <File className={`${className} text-gray-500`} />;
+};
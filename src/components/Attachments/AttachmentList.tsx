@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Trash2 } from 'lucide-react';
+import { JobAttachmentType } from '@/types';
+import { fileService } from '@/services/api';
+import { formatFileSize } from '@/lib/utils';
+import { AttachmentIcon } from './AttachmentIcon';
+
+// Basta con los metadatos comunes a adjuntos de propuestas y archivos del portafolio
+type ListedFile = Pick<JobAttachmentType, 'id' | 'filename' | 'contentType' | 'size'>;
+
+interface AttachmentListProps<T extends ListedFile> {
+  attachments: T[];
+  onRemove?: (attachment: T) => void;
+}
+
+// Archivos adjuntos de una propuesta o del portafolio; la descarga requiere sesión iniciada
+export const AttachmentList = <T extends ListedFile>({ attachments, onRemove }: AttachmentListProps<T>) => {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center justify-between p-3">
+          <div className="flex items-center min-w-0">
+            <AttachmentIcon contentType={attachment.contentType} />
+            <div className="ml-3 min-w-0">
+              <p className="text-sm font-medium truncate">{attachment.filename}</p>
+              <p className="text-xs text-gray-500">{formatFileSize(attachment.size)}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-1 ml-2">
+            <Button variant="ghost" size="icon" asChild>
+              <a href={fileService.getFileUrl(String(attachment.id))} download={attachment.filename}>
+                <Download className="h-4 w-4" />
+                <span className="sr-only">Descargar</span>
+              </a>
+            </Button>
+            {onRemove && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-gray-500 hover:text-red-600"
+                onClick={() => onRemove(attachment)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Eliminar</span>
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,97 @@
+
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Paperclip, X } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { formatFileSize } from '@/lib/utils';
+import { AttachmentIcon } from './AttachmentIcon';
+
+// Mismos límites que el servidor
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  existingCount?: number; // adjuntos ya subidos, cuentan para el máximo
+  disabled?: boolean;
+  label?: string;
+}
+
+// Selector de archivos pendientes de subir (briefs, mockups, especificaciones...)
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  files,
+  onChange,
+  existingCount = 0,
+  disabled = false,
+  label = 'Adjuntar archivos'
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const tooLarge = selected.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Archivo demasiado grande",
+        description: `El límite es de 10 MB: ${tooLarge.map(file => file.name).join(', ')}`
+      });
+    }
+
+    const available = MAX_ATTACHMENTS - existingCount - files.length;
+    const accepted = selected.filter(file => file.size <= MAX_ATTACHMENT_SIZE).slice(0, Math.max(available, 0));
+    if (accepted.length < selected.length - tooLarge.length) {
+      toast({
+        variant: "destructive",
+        title: "Demasiados archivos",
+        description: `Puedes adjuntar como máximo ${MAX_ATTACHMENTS} archivos.`
+      });
+    }
+
+    onChange([...files, ...accepted]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleSelect}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || existingCount + files.length >= MAX_ATTACHMENTS}
+        className="dark:bg-gray-800 dark:border-gray-700 dark:text-white dark:hover:bg-gray-700"
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        {label}
+      </Button>
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center text-sm">
+              <AttachmentIcon contentType={file.type} className="h-4 w-4" />
+              <span className="ml-2 truncate">{file.name}</span>
+              <span className="ml-2 text-xs text-gray-500">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="ml-2 text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-white"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
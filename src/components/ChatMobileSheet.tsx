@@ -15,6 +15,7 @@ interface ChatMobileSheetProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
+  typingText?: string | null; // "Ana está escribiendo…"
   messages: MessageType[];
   isGroup?: boolean;
   children?: React.ReactNode;
@@ -26,6 +27,7 @@ const ChatMobileSheet = ({
   isOpen,
   onClose,
   title,
+  typingText,
   messages,
   isGroup = false,
   children,
@@ -63,7 +65,12 @@ const ChatMobileSheet = ({
             <Button variant="ghost" size="icon" onClick={onClose} className="mr-2">
               <ChevronLeft className="h-5 w-5" />
             </Button>
-            <SheetTitle>{title}</SheetTitle>
+            <div className="min-w-0">
+              <SheetTitle className="truncate">{title}</SheetTitle>
+              {typingText && (
+                <p className="text-xs text-[#9b87f5] italic truncate">{typingText}</p>
+              )}
+            </div>
           </div>
         </SheetHeader>
         <ScrollArea className="h-[calc(100vh-4rem)]">
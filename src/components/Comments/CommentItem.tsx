@@ -3,11 +3,11 @@ import React, { useState } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { MessageCircle } from 'lucide-react';
+import { Flag, MessageCircle, Trash2 } from 'lucide-react';
 import { CommentType, ReplyType } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useJobs } from '@/contexts/JobContext';
-import { toast } from '@/components/ui/use-toast';
+import { ReportDialog } from '@/components/Moderation/ReportDialog';
 
 type CommentItemProps = {
   comment: CommentType;
@@ -20,28 +20,24 @@ export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
   const [isSubmittingReply, setIsSubmittingReply] = useState(false);
   
   const { currentUser } = useAuth();
-  const { addReplyToComment } = useJobs();
+  const { addReplyToComment, deleteComment, getJobById } = useJobs();
+
+  // El autor del comentario y el dueño de la propuesta pueden eliminarlo
+  const canDelete = !!currentUser && (
+    comment.userId === currentUser.id || getJobById(jobId)?.userId === currentUser.id
+  );
 
   const handleSubmitReply = async () => {
     if (!replyContent.trim() || !currentUser) return;
     
     setIsSubmittingReply(true);
     try {
-      if (currentUser) {
-        await addReplyToComment(jobId, comment.id, replyContent, currentUser);
+      // El contexto muestra el resultado; solo cerrar el formulario si se guardó
+      const reply = await addReplyToComment(jobId, comment.id, replyContent, currentUser);
+      if (reply) {
         setReplyContent('');
         setShowReplyForm(false);
-        toast({
-          title: "Respuesta enviada",
-          description: "Tu respuesta ha sido publicada correctamente"
-        });
       }
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "No se pudo enviar la respuesta"
-      });
     } finally {
       setIsSubmittingReply(false);
     }
@@ -83,15 +79,34 @@ export const CommentItem: React.FC<CommentItemProps> = ({ comment, jobId }) => {
           </div>
           <p className="text-gray-700 text-sm mt-1">{comment.text || comment.content}</p>
           
-          {currentUser && (
-            <button
-              onClick={() => setShowReplyForm(!showReplyForm)}
-              className="text-xs text-wfc-purple mt-1 flex items-center"
-            >
-              <MessageCircle className="h-3 w-3 mr-1" />
-              {showReplyForm ? 'Cancelar' : 'Responder'}
-            </button>
-          )}
+          <div className="flex items-center space-x-3">
+            {currentUser && (
+              <button
+                onClick={() => setShowReplyForm(!showReplyForm)}
+                className="text-xs text-wfc-purple mt-1 flex items-center"
+              >
+                <MessageCircle className="h-3 w-3 mr-1" />
+                {showReplyForm ? 'Cancelar' : 'Responder'}
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => deleteComment(comment.id)}
+                className="text-xs text-red-600 mt-1 flex items-center"
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Eliminar
+              </button>
+            )}
+            {currentUser && comment.userId !== currentUser.id && (
+              <ReportDialog targetType="comment" targetId={comment.id}>
+                <button className="text-xs text-gray-500 hover:text-red-600 mt-1 flex items-center">
+                  <Flag className="h-3 w-3 mr-1" />
+                  Denunciar
+                </button>
+              </ReportDialog>
+            )}
+          </div>
         </div>
       </div>
 
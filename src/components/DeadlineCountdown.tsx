@@ -0,0 +1,56 @@
+
+import { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+
+interface DeadlineCountdownProps {
+  deadline: string;
+  className?: string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Tiempo que queda para enviar ofertas, p. ej. "Cierra en 3 d 4 h"; se actualiza cada minuto
+export const DeadlineCountdown = ({ deadline, className = '' }: DeadlineCountdownProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), MINUTE);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(deadline).getTime() - now;
+
+  if (remaining <= 0) {
+    return (
+      <span className={`flex items-center text-xs text-red-600 dark:text-red-400 ${className}`}>
+        <Hourglass className="h-3 w-3 mr-1" />
+        Plazo vencido
+      </span>
+    );
+  }
+
+  const totalMinutes = Math.floor(remaining / MINUTE);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  const label = days > 0
+    ? `${days} d ${hours} h`
+    : hours > 0
+      ? `${hours} h ${minutes} min`
+      : `${Math.max(minutes, 1)} min`;
+
+  // El último día se resalta
+  const urgent = remaining < DAY;
+
+  return (
+    <span
+      className={`flex items-center text-xs ${urgent ? 'text-red-600 dark:text-red-400 font-medium' : 'text-muted-foreground'} ${className}`}
+      title={new Date(deadline).toLocaleString('es-ES')}
+    >
+      <Hourglass className="h-3 w-3 mr-1" />
+      Cierra en {label}
+    </span>
+  );
+};
@@ -1,28 +1,65 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { JobType } from "@/types";
+import { JobType, JobAttachmentType } from "@/types";
+import { AttachmentList } from "@/components/Attachments/AttachmentList";
+import { AttachmentPicker } from "@/components/Attachments/AttachmentPicker";
+import { JOB_STATUS_LABELS, JOB_STATUS_TRANSITIONS } from "@/lib/jobStatus";
+import { BUDGET_TYPES, BUDGET_TYPE_LABELS, CURRENCIES } from "@/lib/budget";
+import { endOfDayISO, toDateInputValue } from "@/lib/utils";
 
 interface EditJobFormProps {
   job: JobType;
-  onSubmit: (data: Partial<JobType>) => Promise<void>;
+  // newAttachments: archivos elegidos en el formulario, se suben al guardar
+  onSubmit: (data: Partial<JobType> & { statusReason?: string }, newAttachments: File[]) => Promise<void>;
+  onRemoveAttachment?: (attachment: JobAttachmentType) => Promise<boolean>;
   onCancel: () => void;
   isSubmitting: boolean;
 }
 
-const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps) => {
+const EditJobForm = ({ job, onSubmit, onRemoveAttachment, onCancel, isSubmitting }: EditJobFormProps) => {
+  const [attachments, setAttachments] = useState<JobAttachmentType[]>(job.attachments || []);
+  const [newAttachments, setNewAttachments] = useState<File[]>([]);
+
+  // Los adjuntos llegan al cargar el detalle de la propuesta
+  useEffect(() => {
+    setAttachments(job.attachments || []);
+  }, [job.attachments]);
+
+  const handleRemoveAttachment = async (attachment: JobAttachmentType) => {
+    if (!onRemoveAttachment) return;
+    const removed = await onRemoveAttachment(attachment);
+    if (removed) {
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    }
+  };
+
   const [formData, setFormData] = useState({
     title: job.title || '',
     description: job.description || '',
-    budget: job.budget || 0,
+    budgetType: job.budgetType || 'fixed',
+    currency: job.currency || 'USD',
+    // Importe fijo o por hora; en los rangos, el mínimo
+    budget: job.budgetMin ?? job.budget ?? 0,
+    budgetMax: job.budgetMax ?? job.budget ?? 0,
     category: job.category || '',
+    deadline: toDateInputValue(job.deadline),
     status: job.status || 'open',
+    statusReason: '',
   });
 
+  // Solo se ofrecen el estado actual y los cambios permitidos desde él
+  const currentStatus = job.status || 'open';
+  const statusOptions = [currentStatus, ...JOB_STATUS_TRANSITIONS[currentStatus]];
+  const statusChanged = formData.status !== currentStatus;
+  // Reabrir una propuesta vencida requiere un nuevo plazo
+  const needsNewDeadline = currentStatus === 'expired' && formData.status === 'open';
+  const deadlineChanged = formData.deadline !== toDateInputValue(job.deadline);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData({ ...formData, [name]: value });
@@ -34,10 +71,16 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const { statusReason, budget, budgetMax, deadline, ...jobData } = formData;
     await onSubmit({
-      ...formData,
-      budget: Number(formData.budget),
-    });
+      ...jobData,
+      // Solo se envía si cambia: un plazo ya pasado no se puede volver a guardar
+      ...(deadlineChanged && { deadline: deadline ? endOfDayISO(deadline) : null }),
+      ...(formData.budgetType === 'range'
+        ? { budget: Number(budgetMax), budgetMin: Number(budget), budgetMax: Number(budgetMax) }
+        : { budget: Number(budget) }),
+      statusReason: statusChanged && statusReason.trim() ? statusReason.trim() : undefined,
+    }, newAttachments);
   };
 
   return (
@@ -67,7 +110,44 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="budget">Presupuesto</Label>
+          <Label htmlFor="budgetType">Tipo de presupuesto</Label>
+          <Select
+            value={formData.budgetType}
+            onValueChange={(value) => handleSelectChange('budgetType', value)}
+          >
+            <SelectTrigger id="budgetType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{BUDGET_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="currency">Moneda</Label>
+          <Select
+            value={formData.currency}
+            onValueChange={(value) => handleSelectChange('currency', value)}
+          >
+            <SelectTrigger id="currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* La moneda actual se mantiene aunque ya no esté en la lista */}
+              {Array.from(new Set([...CURRENCIES, formData.currency])).map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="budget">
+            {formData.budgetType === 'range' ? 'Presupuesto mínimo' : formData.budgetType === 'hourly' ? 'Tarifa por hora' : 'Presupuesto'}
+          </Label>
           <Input
             id="budget"
             name="budget"
@@ -79,6 +159,21 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
           />
         </div>
         
+        {formData.budgetType === 'range' && (
+          <div className="space-y-2">
+            <Label htmlFor="budgetMax">Presupuesto máximo</Label>
+            <Input
+              id="budgetMax"
+              name="budgetMax"
+              type="number"
+              value={formData.budgetMax}
+              onChange={handleChange}
+              min={formData.budget}
+              required
+            />
+          </div>
+        )}
+        
         <div className="space-y-2">
           <Label htmlFor="category">Categoría</Label>
           <Select
@@ -100,23 +195,68 @@ const EditJobForm = ({ job, onSubmit, onCancel, isSubmitting }: EditJobFormProps
         </div>
       </div>
       
+      <div className="space-y-2">
+        <Label htmlFor="deadline">Fecha límite para recibir ofertas</Label>
+        <Input
+          id="deadline"
+          name="deadline"
+          type="date"
+          value={formData.deadline}
+          onChange={handleChange}
+          min={deadlineChanged || needsNewDeadline ? toDateInputValue(new Date()) : undefined}
+          required={needsNewDeadline}
+        />
+        {needsNewDeadline && (
+          <p className="text-sm text-amber-600">Elige una nueva fecha límite para reabrir la propuesta.</p>
+        )}
+      </div>
+      
       <div className="space-y-2">
         <Label htmlFor="status">Estado</Label>
         <Select
           value={formData.status}
-          onValueChange={(value) => handleSelectChange('status', value as "open" | "in progress" | "completed")}
+          onValueChange={(value) => handleSelectChange('status', value as JobType['status'])}
+          disabled={statusOptions.length === 1}
         >
           <SelectTrigger id="status">
             <SelectValue placeholder="Seleccionar estado" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="open">Abierto</SelectItem>
-            <SelectItem value="in progress">En progreso</SelectItem>
-            <SelectItem value="completed">Completado</SelectItem>
+            {statusOptions.map(status => (
+              <SelectItem key={status} value={status}>{JOB_STATUS_LABELS[status]}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
       
+      {statusChanged && (
+        <div className="space-y-2">
+          <Label htmlFor="statusReason">Motivo del cambio de estado</Label>
+          <Textarea
+            id="statusReason"
+            name="statusReason"
+            value={formData.statusReason}
+            onChange={handleChange}
+            placeholder="Opcional: explica por qué cambias el estado"
+            rows={2}
+          />
+        </div>
+      )}
+      
+      <div className="space-y-2">
+        <Label>Archivos adjuntos</Label>
+        <AttachmentList 
+          attachments={attachments} 
+          onRemove={onRemoveAttachment ? handleRemoveAttachment : undefined} 
+        />
+        <AttachmentPicker 
+          files={newAttachments} 
+          onChange={setNewAttachments} 
+          existingCount={attachments.length}
+          disabled={isSubmitting}
+        />
+      </div>
+      
       <div className="flex justify-end space-x-3 pt-4">
         <Button 
           type="button" 
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useJobs } from '@/contexts/JobContext';
+import { useData } from '@/contexts/DataContext';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Send } from 'lucide-react';
+import { JobType, UserType } from '@/types';
+
+interface InviteFreelancerDialogProps {
+  // Desde el perfil de un freelancer se elige la propuesta...
+  freelancer?: UserType;
+  // ...y desde una propuesta, el freelancer
+  job?: JobType;
+}
+
+// Solo se puede invitar a propuestas que aceptan ofertas
+const acceptsProposals = (job: JobType) =>
+  job.status === 'open' && !(job.deadline && new Date(job.deadline).getTime() <= Date.now());
+
+export const InviteFreelancerDialog = ({ freelancer, job }: InviteFreelancerDialogProps) => {
+  const { userJobs, inviteToJob, getJobInvitations } = useJobs();
+  const { getAllUsers } = useData();
+  const [open, setOpen] = useState(false);
+  const [jobId, setJobId] = useState('');
+  const [userId, setUserId] = useState('');
+  const [message, setMessage] = useState('');
+  const [invitedUserIds, setInvitedUserIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  const openJobs = userJobs.filter(acceptsProposals);
+  const freelancers = getAllUsers().filter(user =>
+    user.role === 'freelancer' && user.id !== job?.userId && !invitedUserIds.includes(user.id)
+  );
+
+  const handleOpenChange = async (value: boolean) => {
+    setOpen(value);
+    if (!value) return;
+
+    setJobId(job?.id || (openJobs.length === 1 ? openJobs[0].id : ''));
+    setUserId(freelancer?.id || '');
+    setMessage(freelancer
+      ? `Hola ${freelancer.name}, he visto tu perfil y me gustaría que enviaras una oferta para mi propuesta.`
+      : 'Hola, me gustaría que enviaras una oferta para mi propuesta.');
+
+    // No ofrecer los freelancers que ya están invitados a esta propuesta
+    if (job) {
+      const invitations = await getJobInvitations(job.id);
+      setInvitedUserIds(invitations.map(invitation => invitation.userId));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!jobId || !userId) return;
+
+    setIsSending(true);
+    const invitation = await inviteToJob(jobId, userId, message.trim());
+    setIsSending(false);
+
+    if (invitation) {
+      setInvitedUserIds(prev => [...prev, invitation.userId]);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => handleOpenChange(true)}>
+        <Send className="h-4 w-4 mr-2" />
+        {freelancer ? 'Invitar a una propuesta' : 'Invitar a un freelancer'}
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>
+                {freelancer ? `Invitar a ${freelancer.name}` : 'Invitar a un freelancer'}
+              </DialogTitle>
+              <DialogDescription>
+                Recibirá un aviso y podrá aceptar la invitación para enviarte su oferta.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 my-4">
+              {!job && (
+                <div>
+                  <Label className="mb-1 block">Propuesta</Label>
+                  {openJobs.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tienes propuestas abiertas a las que invitar.</p>
+                  ) : (
+                    <Select value={jobId} onValueChange={setJobId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona una de tus propuestas" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {openJobs.map(openJob => (
+                          <SelectItem key={openJob.id} value={openJob.id}>
+                            {openJob.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+
+              {!freelancer && (
+                <div>
+                  <Label className="mb-1 block">Freelancer</Label>
+                  <Select value={userId} onValueChange={setUserId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecciona un freelancer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {freelancers.map(user => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="invitation-message" className="mb-1 block">Mensaje</Label>
+                <Textarea
+                  id="invitation-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={4}
+                  maxLength={1000}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSending || !jobId || !userId}>
+                {isSending ? 'Enviando...' : 'Enviar invitación'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -4,9 +4,33 @@ import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Clock, DollarSign, Briefcase } from 'lucide-react';
+import { Clock, DollarSign, Briefcase, Flag } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { JobType } from '@/types';
+import { SaveJobButton } from '@/components/SaveJobButton';
+import { LikeJobButton } from '@/components/LikeJobButton';
+import { JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { BUDGET_TYPE_LABELS, formatBudget } from '@/lib/budget';
+import { DeadlineCountdown } from '@/components/DeadlineCountdown';
+import { RatingBadge } from '@/components/Reviews/RatingBadge';
+import { ReportDialog } from '@/components/Moderation/ReportDialog';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Muestra el fragmento de búsqueda resaltando las coincidencias marcadas por el servidor.
+// Se trocea el texto en lugar de usar innerHTML para no inyectar HTML del usuario.
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) => 
+      part.startsWith('<mark>') ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <span key={index}>{part}</span>
+      )
+    )}
+  </>
+);
 
 // Extendemos JobType para asegurarnos de que userName es obligatorio para JobProps
 export interface JobProps {
@@ -16,23 +40,28 @@ export interface JobProps {
 }
 
 export const JobCard = ({ job }: JobProps) => {
+  const { currentUser } = useAuth();
+
   return (
     <Card className="bg-background dark:bg-gray-800 shadow-md border border-gray-200 dark:border-gray-700 hover:border-wfc-purple dark:hover:border-wfc-purple-light transition-colors">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <div className="flex items-center space-x-4">
-          <Avatar>
-            <AvatarImage src={job.userPhoto} />
-            <AvatarFallback className="bg-wfc-purple-medium text-white">
-              {job.userName?.charAt(0).toUpperCase()}
-            </AvatarFallback>
-          </Avatar>
+          <div className="relative">
+            <Avatar>
+              <AvatarImage src={job.userPhoto} />
+              <AvatarFallback className="bg-wfc-purple-medium text-white">
+                {job.userName?.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <RatingBadge userId={job.userId} className="absolute -bottom-1 -right-2" />
+          </div>
           <div className="flex flex-col">
             <Link to={`/users/${job.userId}`} className="text-sm font-medium dark:text-white hover:underline">{job.userName}</Link>
             <p className="text-muted-foreground text-xs">{job.category}</p>
           </div>
         </div>
         <Badge variant="outline" className={`${job.status === 'open' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100'} rounded-full px-3 py-1`}>
-          {job.status === 'open' ? 'Abierto' : job.status}
+          {JOB_STATUS_LABELS[job.status] || job.status}
         </Badge>
       </CardHeader>
       <CardContent>
@@ -40,12 +69,22 @@ export const JobCard = ({ job }: JobProps) => {
           <h3 className="text-lg font-semibold dark:text-white hover:text-wfc-purple dark:hover:text-wfc-purple-light hover:underline transition-colors">{job.title}</h3>
         </Link>
         <p className="text-sm text-muted-foreground mt-2">
-          {job.description.substring(0, 100)}...
+          {job.searchSnippet ? (
+            <HighlightedSnippet snippet={job.searchSnippet} />
+          ) : (
+            <>{job.description.substring(0, 100)}...</>
+          )}
         </p>
         <div className="mt-4 flex items-center space-x-2">
           <DollarSign className="h-4 w-4 text-muted-foreground" />
-          <span className="text-sm dark:text-gray-400">Budget: ${job.budget}</span>
+          <span className="text-sm dark:text-gray-400">Presupuesto: {formatBudget(job)}</span>
+          {job.budgetType && job.budgetType !== 'fixed' && (
+            <Badge variant="outline" className="text-xs">{BUDGET_TYPE_LABELS[job.budgetType]}</Badge>
+          )}
         </div>
+        {job.status === 'open' && job.deadline && (
+          <DeadlineCountdown deadline={job.deadline} className="mt-2" />
+        )}
       </CardContent>
       <CardFooter className="flex justify-between items-center">
         <div className="flex items-center space-x-4 text-muted-foreground">
@@ -60,11 +99,23 @@ export const JobCard = ({ job }: JobProps) => {
             <span className="text-xs">{job.skills?.join(', ') || 'No skills specified'}</span>
           </div>
         </div>
-        <Link to={`/jobs/${job.id}`}>
-          <Button size="sm" className="bg-wfc-purple hover:bg-wfc-purple-medium text-white rounded-full">
-            Ver detalles
-          </Button>
-        </Link>
+        <div className="flex items-center space-x-2">
+          <LikeJobButton job={job} />
+          <SaveJobButton jobId={job.id} />
+          {currentUser && currentUser.id !== job.userId && (
+            <ReportDialog targetType="job" targetId={job.id}>
+              <Button variant="outline" size="icon" className="rounded-full w-8 h-8" title="Denunciar propuesta">
+                <Flag className="h-4 w-4" />
+                <span className="sr-only">Denunciar propuesta</span>
+              </Button>
+            </ReportDialog>
+          )}
+          <Link to={`/jobs/${job.id}`}>
+            <Button size="sm" className="bg-wfc-purple hover:bg-wfc-purple-medium text-white rounded-full">
+              Ver detalles
+            </Button>
+          </Link>
+        </div>
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { JobFacetsType, JobFiltersType, JobType } from '@/types';
+import { JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { BUDGET_TYPES, BUDGET_TYPE_LABELS } from '@/lib/budget';
+
+interface JobFiltersPanelProps {
+  filters: JobFiltersType;
+  facets?: JobFacetsType;
+  onChange: (changes: Partial<JobFiltersType>) => void;
+  onClear: () => void;
+}
+
+const postedWithinLabels: Record<number, string> = {
+  1: 'Últimas 24 horas',
+  7: 'Últimos 7 días',
+  30: 'Últimos 30 días'
+};
+
+// Etiqueta de un rango de presupuesto, p. ej. "500 - 1000" o "Más de 5000".
+// Los importes no se convierten entre monedas: filtrar también por moneda para comparar.
+const budgetRangeLabel = (min: number, max: number | null) =>
+  max === null ? `Más de ${min}` : `${min} - ${max}`;
+
+const FacetCount = ({ count }: { count?: number }) => (
+  <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{count ?? 0}</span>
+);
+
+export const JobFiltersPanel = ({ filters, facets, onChange, onClear }: JobFiltersPanelProps) => {
+  // El presupuesto se aplica al salir del campo o al pulsar Enter, no con cada tecla
+  const [budgetMin, setBudgetMin] = useState(filters.budgetMin?.toString() || '');
+  const [budgetMax, setBudgetMax] = useState(filters.budgetMax?.toString() || '');
+  
+  useEffect(() => {
+    setBudgetMin(filters.budgetMin?.toString() || '');
+    setBudgetMax(filters.budgetMax?.toString() || '');
+  }, [filters.budgetMin, filters.budgetMax]);
+  
+  const applyBudget = () => {
+    onChange({
+      budgetMin: budgetMin !== '' ? Number(budgetMin) : undefined,
+      budgetMax: budgetMax !== '' ? Number(budgetMax) : undefined
+    });
+  };
+  
+  const selectedSkills = filters.skills || [];
+  
+  const toggleSkill = (skill: string) => {
+    const skills = selectedSkills.includes(skill)
+      ? selectedSkills.filter(s => s !== skill)
+      : [...selectedSkills, skill];
+    onChange({ skills: skills.length > 0 ? skills : undefined });
+  };
+  
+  // Mostrar también las habilidades seleccionadas que ya no aparecen en las facetas
+  const skillOptions = [
+    ...(facets?.skills || []),
+    ...selectedSkills
+      .filter(skill => !facets?.skills.some(facet => facet.value === skill))
+      .map(skill => ({ value: skill, count: 0 }))
+  ];
+  
+  return (
+    <div className="space-y-6 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold dark:text-white">Filtros</h2>
+        <Button variant="ghost" size="sm" onClick={onClear} className="text-wfc-purple">
+          Limpiar
+        </Button>
+      </div>
+      
+      {/* Estado */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium dark:text-white">Estado</h3>
+        {(Object.keys(JOB_STATUS_LABELS) as JobType['status'][]).filter(status => status !== 'draft').map(status => (
+          <div key={status} className="flex items-center space-x-2">
+            <Checkbox
+              id={`status-${status}`}
+              checked={filters.status === status}
+              onCheckedChange={(checked) => onChange({ status: checked ? status : undefined })}
+            />
+            <Label htmlFor={`status-${status}`} className="text-sm font-normal dark:text-gray-300">
+              {JOB_STATUS_LABELS[status]}
+            </Label>
+            <FacetCount count={facets?.status.find(facet => facet.value === status)?.count} />
+          </div>
+        ))}
+      </div>
+      
+      {/* Presupuesto */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium dark:text-white">Presupuesto</h3>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min="0"
+            placeholder="Mín."
+            value={budgetMin}
+            onChange={(e) => setBudgetMin(e.target.value)}
+            onBlur={applyBudget}
+            onKeyDown={(e) => e.key === 'Enter' && applyBudget()}
+            className="h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <span className="text-gray-500">-</span>
+          <Input
+            type="number"
+            min="0"
+            placeholder="Máx."
+            value={budgetMax}
+            onChange={(e) => setBudgetMax(e.target.value)}
+            onBlur={applyBudget}
+            onKeyDown={(e) => e.key === 'Enter' && applyBudget()}
+            className="h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+        {BUDGET_TYPES.map(type => (
+          <div key={type} className="flex items-center space-x-2">
+            <Checkbox
+              id={`budget-type-${type}`}
+              checked={filters.budgetType === type}
+              onCheckedChange={(checked) => onChange({ budgetType: checked ? type : undefined })}
+            />
+            <Label htmlFor={`budget-type-${type}`} className="text-sm font-normal dark:text-gray-300">
+              {BUDGET_TYPE_LABELS[type]}
+            </Label>
+            <FacetCount count={facets?.budgetType.find(facet => facet.value === type)?.count} />
+          </div>
+        ))}
+        {facets?.budget.map(range => (
+          <button
+            key={range.value}
+            onClick={() => onChange({ budgetMin: range.min, budgetMax: range.max ?? undefined })}
+            className={`w-full flex items-center text-sm rounded px-2 py-1 hover:bg-gray-100 dark:hover:bg-gray-700 ${
+              filters.budgetMin === range.min && filters.budgetMax === (range.max ?? undefined)
+                ? 'text-wfc-purple font-medium'
+                : 'dark:text-gray-300'
+            }`}
+          >
+            {budgetRangeLabel(range.min, range.max)}
+            <FacetCount count={range.count} />
+          </button>
+        ))}
+      </div>
+      
+      {/* Moneda (solo las que tienen propuestas, más la seleccionada) */}
+      {(facets?.currency.length || filters.currency) && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium dark:text-white">Moneda</h3>
+          {[
+            ...(facets?.currency || []),
+            ...(filters.currency && !facets?.currency.some(facet => facet.value === filters.currency)
+              ? [{ value: filters.currency, count: 0 }]
+              : [])
+          ].map(option => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`currency-${option.value}`}
+                checked={filters.currency === option.value}
+                onCheckedChange={(checked) => onChange({ currency: checked ? option.value : undefined })}
+              />
+              <Label htmlFor={`currency-${option.value}`} className="text-sm font-normal dark:text-gray-300">
+                {option.value}
+              </Label>
+              <FacetCount count={option.count} />
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Habilidades */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium dark:text-white">Habilidades</h3>
+          <div className="flex text-xs border border-gray-200 dark:border-gray-600 rounded overflow-hidden">
+            {(['any', 'all'] as const).map(match => (
+              <button
+                key={match}
+                onClick={() => onChange({ skillsMatch: match })}
+                className={`px-2 py-0.5 ${
+                  (filters.skillsMatch || 'any') === match
+                    ? 'bg-wfc-purple text-white'
+                    : 'dark:text-gray-300'
+                }`}
+              >
+                {match === 'any' ? 'Alguna' : 'Todas'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="max-h-48 overflow-y-auto space-y-2 pr-1">
+          {skillOptions.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No hay habilidades para estos filtros</p>
+          ) : (
+            skillOptions.map(skill => (
+              <div key={skill.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`skill-${skill.value}`}
+                  checked={selectedSkills.includes(skill.value)}
+                  onCheckedChange={() => toggleSkill(skill.value)}
+                />
+                <Label htmlFor={`skill-${skill.value}`} className="text-sm font-normal dark:text-gray-300">
+                  {skill.value}
+                </Label>
+                <FacetCount count={skill.count} />
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+      
+      {/* Fecha de publicación */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium dark:text-white">Publicado</h3>
+        {(facets?.postedWithin || [1, 7, 30].map(days => ({ value: days, count: undefined }))).map(option => (
+          <div key={option.value} className="flex items-center space-x-2">
+            <Checkbox
+              id={`posted-${option.value}`}
+              checked={filters.postedWithin === option.value}
+              onCheckedChange={(checked) => onChange({ postedWithin: checked ? option.value : undefined })}
+            />
+            <Label htmlFor={`posted-${option.value}`} className="text-sm font-normal dark:text-gray-300">
+              {postedWithinLabels[option.value] || `Últimos ${option.value} días`}
+            </Label>
+            <FacetCount count={option.count} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
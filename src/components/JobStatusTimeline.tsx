@@ -0,0 +1,52 @@
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { JobStatusEntryType } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { JOB_STATUS_CLASSES, JOB_STATUS_LABELS } from '@/lib/jobStatus';
+
+interface JobStatusTimelineProps {
+  history: JobStatusEntryType[];
+}
+
+// Historial de cambios de estado de una propuesta, del más antiguo al más reciente
+export const JobStatusTimeline: React.FC<JobStatusTimelineProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">Sin cambios de estado registrados.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-900 bg-wfc-purple" />
+          <div className="flex items-center gap-2">
+            <Badge className={JOB_STATUS_CLASSES[entry.toStatus]}>
+              {JOB_STATUS_LABELS[entry.toStatus] || entry.toStatus}
+            </Badge>
+            <span className="text-xs text-gray-500">{formatDate(entry.createdAt)}</span>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {entry.fromStatus === null ? 'Publicada' : 'Cambiada'}{' '}
+            {entry.userId ? (
+              <>
+                por{' '}
+                <Link to={`/users/${entry.userId}`} className="font-medium hover:underline">
+                  {entry.userName || 'Usuario'}
+                </Link>
+              </>
+            ) : entry.toStatus === 'expired' ? (
+              'automáticamente al vencer el plazo'
+            ) : (
+              'por un usuario eliminado'
+            )}
+          </p>
+          {entry.reason && (
+            <p className="text-sm text-gray-700 dark:text-gray-300 italic mt-1">"{entry.reason}"</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useJobs } from '@/contexts/JobContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LayoutTemplate, Loader2, Trash2 } from 'lucide-react';
+import { JobTemplateType } from '@/types';
+import { formatBudget } from '@/lib/budget';
+
+interface JobTemplatePickerProps {
+  onSelect: (template: JobTemplateType) => void;
+}
+
+// Biblioteca de plantillas: las propias del usuario y las globales
+export const JobTemplatePicker = ({ onSelect }: JobTemplatePickerProps) => {
+  const { getJobTemplates, deleteJobTemplate } = useJobs();
+  const { currentUser } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<JobTemplateType[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = async (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      // Recargar al abrir para incluir las plantillas guardadas desde esta página
+      setLoading(true);
+      setTemplates(await getJobTemplates());
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (template: JobTemplateType) => {
+    onSelect(template);
+    setOpen(false);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    const deleted = await deleteJobTemplate(templateId);
+    if (deleted) {
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+    }
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => handleOpenChange(true)}>
+        <LayoutTemplate className="h-4 w-4 mr-2" />
+        Usar una plantilla
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Empezar desde una plantilla</DialogTitle>
+            <DialogDescription>
+              La plantilla rellena el título, la descripción, la categoría, las habilidades y el presupuesto.
+            </DialogDescription>
+          </DialogHeader>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">No hay plantillas disponibles.</p>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {templates.map(template => (
+                <li key={template.id} className="flex items-center gap-3 rounded-md border p-3 dark:border-gray-700">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate dark:text-white">{template.name}</span>
+                      {!template.userId && <Badge variant="secondary">Global</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {[
+                        template.category,
+                        template.budgetMax ? formatBudget({ ...template, budget: template.budgetMax }) : null
+                      ].filter(Boolean).join(' · ') || 'Sin categoría'}
+                    </p>
+                  </div>
+                  <Button type="button" size="sm" onClick={() => handleSelect(template)}>
+                    Usar
+                  </Button>
+                  {template.userId === currentUser?.id && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handleDelete(template.id)}
+                      aria-label="Eliminar plantilla"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { useJobs } from '@/contexts/JobContext';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BookmarkPlus } from 'lucide-react';
+import { JobType } from '@/types';
+
+interface SaveTemplateDialogProps {
+  // Datos actuales del formulario, leídos al guardar
+  getTemplateData: () => Partial<JobType>;
+}
+
+export const SaveTemplateDialog = ({ getTemplateData }: SaveTemplateDialogProps) => {
+  const { saveJobTemplate } = useJobs();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      // Proponer el título de la propuesta como nombre
+      setName(getTemplateData().title || '');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // No enviar el formulario de la propuesta que contiene el diálogo
+    e.stopPropagation();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    const template = await saveJobTemplate(name.trim(), getTemplateData());
+    setIsSaving(false);
+
+    if (template) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Button type="button" variant="ghost" onClick={() => handleOpenChange(true)}>
+        <BookmarkPlus className="h-4 w-4 mr-2" />
+        Guardar como plantilla
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Guardar como plantilla</DialogTitle>
+              <DialogDescription>
+                Solo tú verás esta plantilla al crear nuevas propuestas.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              className="my-4"
+              placeholder="Nombre de la plantilla"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving ? 'Guardando...' : 'Guardar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -6,8 +6,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Menu, X, LayoutDashboard, Briefcase, MessageCircle, User, LogOut, Plus, Users, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Menu, X, LayoutDashboard, Briefcase, MessageCircle, User, LogOut, Plus, Users, ChevronLeft, ChevronRight, Mail, ShieldAlert } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { NotificationBell } from '@/components/NotificationBell';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -43,7 +44,15 @@ const MainLayout = ({ children }: MainLayoutProps) => {
   const navLinks = [
     { path: '/dashboard', label: 'Inicio', icon: <LayoutDashboard className="h-5 w-5" /> },
     { path: '/jobs', label: 'Propuestas', icon: <Briefcase className="h-5 w-5" /> },
+    { path: '/freelancers', label: 'Freelancers', icon: <Users className="h-5 w-5" /> },
     { path: '/chats', label: 'Mensajes', icon: <MessageCircle className="h-5 w-5" /> },
+    // Solo los freelancers reciben invitaciones para enviar ofertas
+    ...(currentUser?.role === 'freelancer'
+      ? [{ path: '/invitations', label: 'Invitaciones', icon: <Mail className="h-5 w-5" /> }]
+      : []),
+    ...(currentUser?.role === 'admin'
+      ? [{ path: '/admin/moderation', label: 'Moderación', icon: <ShieldAlert className="h-5 w-5" /> }]
+      : []),
     { path: '/profile', label: 'Perfil', icon: <User className="h-5 w-5" /> },
   ];
   
@@ -165,7 +174,10 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
-                <ThemeToggle />
+                <div className="flex items-center space-x-2">
+                  <NotificationBell />
+                  <ThemeToggle />
+                </div>
               </>
             ) : (
               <Avatar className="h-8 w-8 cursor-pointer" onClick={() => setSidebarCollapsed(false)}>
@@ -191,6 +203,7 @@ const MainLayout = ({ children }: MainLayoutProps) => {
               </div>
             </Link>
             <div className="flex items-center space-x-2">
+              <NotificationBell />
               <ThemeToggle />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJobs } from '@/contexts/JobContext';
+import { JobType } from '@/types';
+
+interface LikeJobButtonProps {
+  job: JobType;
+}
+
+export const LikeJobButton = ({ job }: LikeJobButtonProps) => {
+  const { currentUser } = useAuth();
+  const { toggleLikeJob } = useJobs();
+  const [isToggling, setIsToggling] = useState(false);
+  
+  const liked = !!job.likedByMe;
+  
+  const handleToggle = async () => {
+    setIsToggling(true);
+    await toggleLikeJob(job.id);
+    setIsToggling(false);
+  };
+  
+  return (
+    <Button 
+      variant="ghost" 
+      size="sm" 
+      onClick={handleToggle}
+      disabled={!currentUser || isToggling}
+      className={`rounded-full px-2 ${liked ? 'text-red-500 hover:text-red-600' : 'text-muted-foreground'}`}
+      title={liked ? 'Ya no me gusta' : 'Me gusta'}
+    >
+      <Heart className={`h-4 w-4 mr-1 ${liked ? 'fill-current' : ''}`} />
+      <span className="text-xs">{job.likesCount || 0}</span>
+    </Button>
+  );
+};
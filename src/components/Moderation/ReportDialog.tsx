@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import axios from 'axios';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { reportService } from '@/services/api';
+import { REPORT_REASON_LABELS, REPORT_TARGET_LABELS } from '@/lib/moderation';
+import { ReportReason, ReportTargetType } from '@/types';
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  children: React.ReactNode; // elemento que abre el diálogo
+}
+
+// Denunciar contenido a los moderadores, con un motivo y una nota opcional
+export const ReportDialog = ({ targetType, targetId, children }: ReportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setReason('');
+      setNote('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // El diálogo puede estar dentro de una tarjeta que navega al hacer clic
+    e.stopPropagation();
+    if (!reason) return;
+
+    setIsSending(true);
+    try {
+      await reportService.createReport(targetType, targetId, reason, note.trim() || undefined);
+      setOpen(false);
+      toast({
+        title: "Denuncia enviada",
+        description: "Gracias, un moderador la revisará pronto."
+      });
+    } catch (error) {
+      console.error('Error al enviar la denuncia:', error);
+      const alreadyReported = axios.isAxiosError(error) && error.response?.status === 409;
+      toast({
+        variant: "destructive",
+        title: alreadyReported ? "Ya lo habías denunciado" : "Error",
+        description: alreadyReported
+          ? "Tu denuncia anterior está pendiente de revisión."
+          : "No se pudo enviar la denuncia"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Denunciar {REPORT_TARGET_LABELS[targetType].toLowerCase()}</DialogTitle>
+            <DialogDescription>
+              Los moderadores revisarán la denuncia. La persona denunciada no sabrá quién la ha enviado.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label className="mb-1 block">Motivo</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecciona un motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {REPORT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="report-note" className="mb-1 block">Nota (opcional)</Label>
+            <Textarea
+              id="report-note"
+              placeholder="Cuéntanos qué ha pasado..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSending || !reason}>
+              {isSending ? 'Enviando...' : 'Enviar denuncia'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { NotificationType } from '@/types';
+import { formatDate } from '@/lib/utils';
+
+export const NotificationBell = () => {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const navigate = useNavigate();
+
+  const handleSelect = (notification: NotificationType) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="rounded-full w-8 h-8 relative"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notificaciones</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notificaciones</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs text-wfc-purple"
+              onClick={markAllAsRead}
+            >
+              Marcar todas como leídas
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">No tienes notificaciones</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className="flex flex-col items-start space-y-1 cursor-pointer"
+              >
+                <div className="flex w-full items-center justify-between">
+                  <span className={`text-sm ${notification.read ? 'text-gray-500' : 'font-medium'}`}>
+                    {notification.title}
+                  </span>
+                  {!notification.read && (
+                    <span className="ml-2 h-2 w-2 shrink-0 rounded-full bg-wfc-purple" />
+                  )}
+                </div>
+                {notification.message && (
+                  <span className="text-xs text-gray-500 line-clamp-2">{notification.message}</span>
+                )}
+                <span className="text-[10px] text-gray-400">{formatDate(notification.createdAt)}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
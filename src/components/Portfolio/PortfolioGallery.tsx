@@ -0,0 +1,301 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/use-toast';
+import { ChevronLeft, ChevronRight, GripVertical, ImageIcon, Pencil, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fileService, portfolioService } from '@/services/api';
+import { PortfolioItemType } from '@/types';
+import { PortfolioItemForm } from './PortfolioItemForm';
+import { PortfolioLightbox } from './PortfolioLightbox';
+
+interface PortfolioGalleryProps {
+  userId: string;
+  editable?: boolean; // el propio freelancer puede añadir, editar y reordenar
+}
+
+// Galería del portafolio de un freelancer; en modo edición se reordena arrastrando
+export const PortfolioGallery = ({ userId, editable = false }: PortfolioGalleryProps) => {
+  const [items, setItems] = useState<PortfolioItemType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openItem, setOpenItem] = useState<PortfolioItemType | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<PortfolioItemType | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // Orden antes de empezar a arrastrar, para restaurarlo si falla el guardado
+  const orderBeforeDrag = useRef<PortfolioItemType[]>([]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    portfolioService.getUserPortfolio(userId)
+      .then(setItems)
+      .catch((error) => {
+        console.error('Error al cargar el portafolio:', error);
+        setItems([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [userId]);
+
+  const saveOrder = async (newItems: PortfolioItemType[], previousItems: PortfolioItemType[]) => {
+    setItems(newItems);
+    try {
+      await portfolioService.reorder(newItems.map(item => item.id));
+    } catch (error) {
+      console.error('Error al reordenar el portafolio:', error);
+      setItems(previousItems);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar el nuevo orden"
+      });
+    }
+  };
+
+  const moveItem = (list: PortfolioItemType[], from: number, to: number) => {
+    const newItems = [...list];
+    const [moved] = newItems.splice(from, 1);
+    newItems.splice(to, 0, moved);
+    return newItems;
+  };
+
+  // Alternativa a arrastrar (teclado y pantallas táctiles)
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    saveOrder(moveItem(items, index, target), items);
+  };
+
+  const handleDragStart = (itemId: string) => {
+    orderBeforeDrag.current = items;
+    setDraggedId(itemId);
+  };
+
+  // Mover el elemento arrastrado mientras pasa por encima de los demás
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === overId) return;
+    const from = items.findIndex(item => item.id === draggedId);
+    const to = items.findIndex(item => item.id === overId);
+    setItems(moveItem(items, from, to));
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    const previousItems = orderBeforeDrag.current;
+    const changed = items.some((item, index) => item.id !== previousItems[index]?.id);
+    if (changed) {
+      saveOrder(items, previousItems);
+    }
+  };
+
+  const handleSaved = (saved: PortfolioItemType) => {
+    setItems(current => current.some(item => item.id === saved.id)
+      ? current.map(item => item.id === saved.id ? saved : item)
+      : [...current, saved]);
+  };
+
+  const handleDelete = async (item: PortfolioItemType) => {
+    try {
+      await portfolioService.deleteItem(item.id);
+      setItems(current => current.filter(i => i.id !== item.id));
+      toast({
+        title: "Trabajo eliminado",
+        description: "Se ha eliminado de tu portafolio"
+      });
+    } catch (error) {
+      console.error('Error al eliminar el trabajo:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo eliminar el trabajo"
+      });
+    }
+  };
+
+  const openForm = (item: PortfolioItemType | null) => {
+    setEditingItem(item);
+    setFormOpen(true);
+  };
+
+  if (!isLoading && items.length === 0 && !editable) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Portafolio</CardTitle>
+        {editable && (
+          <Button
+            size="sm"
+            className="bg-wfc-purple hover:bg-wfc-purple-medium"
+            onClick={() => openForm(null)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Añadir trabajo
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <Skeleton className="aspect-video w-full" />
+            <Skeleton className="aspect-video w-full" />
+            <Skeleton className="aspect-video w-full" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">
+            Aún no has añadido trabajos. Muestra tus mejores proyectos a los clientes.
+          </p>
+        ) : (
+          <>
+            {editable && items.length > 1 && (
+              <p className="text-xs text-gray-500 mb-3">Arrastra los trabajos para cambiar su orden.</p>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {items.map((item, index) => {
+                const cover = item.files.find(file => file.contentType.startsWith('image/'));
+                return (
+                  <div
+                    key={item.id}
+                    draggable={editable}
+                    onDragStart={() => handleDragStart(item.id)}
+                    onDragOver={(e) => editable && handleDragOver(e, item.id)}
+                    onDragEnd={handleDragEnd}
+                    className={cn(
+                      "group border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden transition-opacity",
+                      draggedId === item.id && "opacity-50"
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setOpenItem(item)}
+                      className="block w-full aspect-video bg-gray-100 dark:bg-gray-800"
+                    >
+                      {cover ? (
+                        <img
+                          src={fileService.getFileUrl(String(cover.id))}
+                          alt={item.title}
+                          className="h-full w-full object-cover"
+                          draggable={false}
+                        />
+                      ) : (
+                        <span className="flex h-full items-center justify-center text-gray-400">
+                          <ImageIcon className="h-10 w-10" />
+                        </span>
+                      )}
+                    </button>
+                    <div className="p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setOpenItem(item)}
+                          className="font-medium text-left hover:underline line-clamp-1"
+                        >
+                          {item.title}
+                        </button>
+                        {editable && (
+                          <GripVertical className="h-4 w-4 text-gray-400 shrink-0 cursor-grab" />
+                        )}
+                      </div>
+                      {item.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {item.tags.slice(0, 3).map(tag => (
+                            <Badge key={tag} variant="outline" className="bg-gray-50 dark:bg-gray-800 text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                          {item.tags.length > 3 && (
+                            <Badge variant="outline" className="bg-gray-50 dark:bg-gray-800 text-xs">
+                              +{item.tags.length - 3} más
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      {editable && (
+                        <div className="flex items-center justify-end gap-1 mt-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={index === 0}
+                            onClick={() => handleMove(index, -1)}
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                            <span className="sr-only">Mover antes</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={index === items.length - 1}
+                            onClick={() => handleMove(index, 1)}
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                            <span className="sr-only">Mover después</span>
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(item)}>
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">Editar</span>
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-red-600">
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Eliminar</span>
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Eliminar trabajo</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  ¿Seguro que quieres eliminar "{item.title}" de tu portafolio? Esta acción no se puede deshacer.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(item)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Eliminar
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <PortfolioLightbox item={openItem} onClose={() => setOpenItem(null)} />
+      {editable && (
+        <PortfolioItemForm
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          item={editingItem}
+          onSaved={handleSaved}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useData } from '@/contexts/DataContext';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { X } from 'lucide-react';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+import { portfolioService } from '@/services/api';
+import { PortfolioFileType, PortfolioItemType } from '@/types';
+
+// Mismo límite que el servidor
+const MAX_TAGS = 10;
+
+interface PortfolioItemFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item?: PortfolioItemType | null; // sin item se crea uno nuevo
+  onSaved: (item: PortfolioItemType) => void;
+}
+
+export const PortfolioItemForm = ({ open, onOpenChange, item, onSaved }: PortfolioItemFormProps) => {
+  const { skillsList } = useData();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [link, setLink] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [currentTag, setCurrentTag] = useState('');
+  const [files, setFiles] = useState<PortfolioFileType[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Cargar los datos del elemento cada vez que se abre el diálogo
+  useEffect(() => {
+    if (!open) return;
+    setTitle(item?.title || '');
+    setDescription(item?.description || '');
+    setLink(item?.link || '');
+    setTags(item?.tags || []);
+    setCurrentTag('');
+    setFiles(item?.files || []);
+    setPendingFiles([]);
+  }, [open, item]);
+
+  const isValidLink = !link.trim() || /^https?:\/\/\S+$/i.test(link.trim());
+
+  const handleAddTag = () => {
+    if (currentTag && !tags.includes(currentTag) && tags.length < MAX_TAGS) {
+      setTags([...tags, currentTag]);
+      setCurrentTag('');
+    }
+  };
+
+  // Los archivos ya subidos se eliminan en el momento
+  const handleRemoveFile = async (file: PortfolioFileType) => {
+    if (!item) return;
+    try {
+      await portfolioService.deleteFile(item.id, file.id);
+      const remaining = files.filter(f => f.id !== file.id);
+      setFiles(remaining);
+      onSaved({ ...item, files: remaining });
+    } catch (error) {
+      console.error('Error al eliminar el archivo:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo eliminar el archivo"
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !isValidLink) return;
+
+    setIsSaving(true);
+    try {
+      const itemData = {
+        title: title.trim(),
+        description: description.trim(),
+        link: link.trim() || null,
+        tags
+      };
+      const saved = item
+        ? await portfolioService.updateItem(item.id, itemData)
+        : await portfolioService.createItem(itemData);
+
+      // Subir después las imágenes y archivos nuevos
+      const uploaded: PortfolioFileType[] = [];
+      for (const file of pendingFiles) {
+        try {
+          uploaded.push(await portfolioService.uploadFile(saved.id, file));
+        } catch (error) {
+          console.error('Error al subir el archivo:', error);
+          toast({
+            variant: "destructive",
+            title: "Error al subir el archivo",
+            description: file.name
+          });
+        }
+      }
+
+      onSaved({ ...saved, files: [...saved.files, ...uploaded] });
+      onOpenChange(false);
+      toast({
+        title: item ? "Trabajo actualizado" : "Trabajo añadido",
+        description: "Tu portafolio se ha actualizado correctamente"
+      });
+    } catch (error) {
+      console.error('Error al guardar el trabajo:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar el trabajo"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{item ? 'Editar trabajo' : 'Añadir trabajo al portafolio'}</DialogTitle>
+            <DialogDescription>
+              Muestra a los clientes proyectos que has realizado.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="portfolio-title" className="mb-1 block">Título</Label>
+            <Input
+              id="portfolio-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={255}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="portfolio-description" className="mb-1 block">Descripción</Label>
+            <Textarea
+              id="portfolio-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="min-h-[100px]"
+              maxLength={5000}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="portfolio-link" className="mb-1 block">Enlace (opcional)</Label>
+            <Input
+              id="portfolio-link"
+              type="url"
+              placeholder="https://..."
+              value={link}
+              onChange={(e) => setLink(e.target.value)}
+              maxLength={2048}
+            />
+            {!isValidLink && (
+              <p className="text-sm text-red-600 mt-1">El enlace debe empezar por http:// o https://</p>
+            )}
+          </div>
+
+          <div>
+            <Label className="mb-1 block">Etiquetas</Label>
+            <div className="flex space-x-2 mb-2">
+              <Select value={currentTag} onValueChange={setCurrentTag}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Selecciona las habilidades del trabajo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {skillsList
+                    .filter(skill => !tags.includes(skill))
+                    .map((skill) => (
+                      <SelectItem key={skill} value={skill}>
+                        {skill}
+                      </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                onClick={handleAddTag}
+                disabled={!currentTag || tags.length >= MAX_TAGS}
+                variant="outline"
+              >
+                Agregar
+              </Button>
+            </div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="outline" className="flex items-center space-x-1">
+                    <span>{tag}</span>
+                    <button
+                      type="button"
+                      onClick={() => setTags(tags.filter(t => t !== tag))}
+                      className="ml-1 text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-white"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="block">Imágenes y archivos</Label>
+            <AttachmentList attachments={files} onRemove={handleRemoveFile} />
+            <AttachmentPicker
+              files={pendingFiles}
+              onChange={setPendingFiles}
+              existingCount={files.length}
+              disabled={isSaving}
+              label="Añadir imágenes o archivos"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving || !title.trim() || !isValidLink}
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+            >
+              {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { fileService } from '@/services/api';
+import { PortfolioItemType } from '@/types';
+
+interface PortfolioLightboxProps {
+  item: PortfolioItemType | null; // null cierra el visor
+  onClose: () => void;
+}
+
+// Visor de un trabajo del portafolio: imágenes a tamaño completo y el resto de detalles
+export const PortfolioLightbox = ({ item, onClose }: PortfolioLightboxProps) => {
+  const [index, setIndex] = useState(0);
+
+  const images = item ? item.files.filter(file => file.contentType.startsWith('image/')) : [];
+  const otherFiles = item ? item.files.filter(file => !file.contentType.startsWith('image/')) : [];
+  const current = images[index];
+
+  useEffect(() => {
+    setIndex(0);
+  }, [item]);
+
+  const showPrevious = () => setIndex(i => (i - 1 + images.length) % images.length);
+  const showNext = () => setIndex(i => (i + 1) % images.length);
+
+  // Navegar entre imágenes con las flechas del teclado
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (images.length < 2) return;
+    if (e.key === 'ArrowLeft') showPrevious();
+    if (e.key === 'ArrowRight') showNext();
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" onKeyDown={handleKeyDown}>
+        {item && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{item.title}</DialogTitle>
+              {item.description && (
+                <DialogDescription className="whitespace-pre-line">{item.description}</DialogDescription>
+              )}
+            </DialogHeader>
+
+            {current && (
+              <div className="relative flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-md">
+                <img
+                  src={fileService.getFileUrl(String(current.id))}
+                  alt={current.filename}
+                  className="max-h-[60vh] object-contain"
+                />
+                {images.length > 1 && (
+                  <>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute left-2 rounded-full"
+                      onClick={showPrevious}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      <span className="sr-only">Anterior</span>
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-2 rounded-full"
+                      onClick={showNext}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                      <span className="sr-only">Siguiente</span>
+                    </Button>
+                    <span className="absolute bottom-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded">
+                      {index + 1} / {images.length}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
+
+            {item.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {item.tags.map(tag => (
+                  <Badge key={tag} className="bg-wfc-purple-medium text-white">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {item.link && (
+              <a
+                href={item.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-sm text-wfc-purple hover:underline break-all"
+              >
+                <ExternalLink className="h-4 w-4 mr-1 shrink-0" />
+                {item.link}
+              </a>
+            )}
+
+            <AttachmentList attachments={otherFiles} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
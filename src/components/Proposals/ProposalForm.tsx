@@ -0,0 +1,85 @@
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ProposalType } from '@/types';
+
+type ProposalFormData = Pick<ProposalType, 'coverLetter' | 'bidAmount' | 'estimatedDuration'>;
+
+interface ProposalFormProps {
+  onSubmit: (data: ProposalFormData) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+export const ProposalForm: React.FC<ProposalFormProps> = ({ onSubmit, isSubmitting }) => {
+  const [coverLetter, setCoverLetter] = useState('');
+  const [bidAmount, setBidAmount] = useState('');
+  const [estimatedDuration, setEstimatedDuration] = useState('');
+
+  const isValid = coverLetter.trim().length >= 10 && Number(bidAmount) > 0 && Number(estimatedDuration) > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    await onSubmit({
+      coverLetter: coverLetter.trim(),
+      bidAmount: Number(bidAmount),
+      estimatedDuration: Number(estimatedDuration)
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="coverLetter">Carta de presentación</Label>
+        <Textarea
+          id="coverLetter"
+          placeholder="Explica por qué eres la persona adecuada para este trabajo..."
+          value={coverLetter}
+          onChange={(e) => setCoverLetter(e.target.value)}
+          className="min-h-[120px]"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="bidAmount">Tu oferta (USD)</Label>
+          <Input
+            id="bidAmount"
+            type="number"
+            min={1}
+            placeholder="Ej: 500"
+            value={bidAmount}
+            onChange={(e) => setBidAmount(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="estimatedDuration">Duración estimada (días)</Label>
+          <Input
+            id="estimatedDuration"
+            type="number"
+            min={1}
+            placeholder="Ej: 14"
+            value={estimatedDuration}
+            onChange={(e) => setEstimatedDuration(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting || !isValid}
+        className="bg-wfc-purple hover:bg-wfc-purple-medium"
+      >
+        {isSubmitting ? 'Enviando...' : 'Enviar oferta'}
+      </Button>
+    </form>
+  );
+};
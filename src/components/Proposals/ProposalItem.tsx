@@ -0,0 +1,112 @@
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, X, Clock, DollarSign } from 'lucide-react';
+import { ProposalType } from '@/types';
+import { formatDate } from '@/lib/utils';
+
+type ProposalItemProps = {
+  proposal: ProposalType;
+  onAccept?: (proposal: ProposalType) => void;
+  onReject?: (proposal: ProposalType) => void;
+  onWithdraw?: (proposal: ProposalType) => void;
+  isProcessing?: boolean;
+};
+
+const statusLabels: Record<ProposalType['status'], string> = {
+  pending: 'Pendiente',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada'
+};
+
+const statusClasses: Record<ProposalType['status'], string> = {
+  pending: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  accepted: 'bg-green-100 text-green-800 hover:bg-green-200',
+  rejected: 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+};
+
+export const ProposalItem: React.FC<ProposalItemProps> = ({
+  proposal,
+  onAccept,
+  onReject,
+  onWithdraw,
+  isProcessing = false
+}) => {
+  const isPending = proposal.status === 'pending';
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-start">
+        <div className="flex items-center space-x-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={proposal.userPhoto} alt={proposal.userName} />
+            <AvatarFallback className="bg-wfc-purple-medium text-white">
+              {proposal.userName?.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <Link to={`/users/${proposal.userId}`} className="font-medium text-sm hover:underline">
+              {proposal.userName}
+            </Link>
+            <p className="text-xs text-gray-500">Enviada el {formatDate(proposal.createdAt)}</p>
+          </div>
+        </div>
+        <Badge className={statusClasses[proposal.status]}>
+          {statusLabels[proposal.status]}
+        </Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="flex items-center">
+          <DollarSign className="h-4 w-4 text-gray-500 mr-1" />
+          ${proposal.bidAmount}
+        </span>
+        <span className="flex items-center">
+          <Clock className="h-4 w-4 text-gray-500 mr-1" />
+          {proposal.estimatedDuration} {proposal.estimatedDuration === 1 ? 'día' : 'días'}
+        </span>
+      </div>
+
+      <p className="text-gray-700 dark:text-gray-300 text-sm whitespace-pre-line">{proposal.coverLetter}</p>
+
+      {isPending && (onAccept || onReject || onWithdraw) && (
+        <div className="flex space-x-2">
+          {onAccept && (
+            <Button
+              size="sm"
+              onClick={() => onAccept(proposal)}
+              disabled={isProcessing}
+              className="bg-wfc-purple hover:bg-wfc-purple-medium"
+            >
+              <Check className="h-4 w-4 mr-1" /> Aceptar
+            </Button>
+          )}
+          {onReject && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onReject(proposal)}
+              disabled={isProcessing}
+            >
+              <X className="h-4 w-4 mr-1" /> Rechazar
+            </Button>
+          )}
+          {onWithdraw && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onWithdraw(proposal)}
+              disabled={isProcessing}
+              className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white"
+            >
+              Retirar oferta
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { ProposalType } from '@/types';
+import { ProposalItem } from './ProposalItem';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface ProposalsListProps {
+  proposals: ProposalType[];
+  loading?: boolean;
+  onAccept?: (proposal: ProposalType) => void;
+  onReject?: (proposal: ProposalType) => void;
+  isProcessing?: boolean;
+}
+
+export const ProposalsList: React.FC<ProposalsListProps> = ({
+  proposals,
+  loading = false,
+  onAccept,
+  onReject,
+  isProcessing = false
+}) => {
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((index) => (
+          <Skeleton key={index} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (proposals.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <p className="text-gray-500">Todavía no has recibido ofertas para esta propuesta.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {proposals.map((proposal) => (
+        <ProposalItem
+          key={proposal.id}
+          proposal={proposal}
+          onAccept={onAccept}
+          onReject={onReject}
+          isProcessing={isProcessing}
+        />
+      ))}
+    </div>
+  );
+};
@@ -2,13 +2,15 @@
 import React, { useEffect } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { UserType } from '@/types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  requiredRole?: UserType['role']; // p. ej. 'admin' para las páginas de moderación
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, state } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
+  const { isAuthenticated, state, currentUser } = useAuth();
   const location = useLocation();
 
   // If not authenticated and not loading, redirect to login
@@ -25,6 +27,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
+  // Authenticated but without the required role
+  if (requiredRole && currentUser?.role !== requiredRole) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   // If authenticated and not loading, render the children
   return <>{children}</>;
 };
@@ -0,0 +1,29 @@
+import { Star } from 'lucide-react';
+import { useData } from '@/contexts/DataContext';
+import { cn } from '@/lib/utils';
+
+interface RatingBadgeProps {
+  userId?: string;
+  className?: string;
+}
+
+// Media de valoraciones de un usuario para mostrar junto a su avatar (nada si no tiene)
+export const RatingBadge = ({ userId, className }: RatingBadgeProps) => {
+  const { getUserById } = useData();
+  const user = userId ? getUserById(userId) : undefined;
+
+  if (!user?.rating || !user.reviewCount) return null;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 rounded-full bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 px-1 text-[10px] font-medium leading-4 text-gray-700 dark:text-gray-200',
+        className
+      )}
+      title={`${user.rating} de 5 (${user.reviewCount} ${user.reviewCount === 1 ? 'valoración' : 'valoraciones'})`}
+    >
+      <Star className="h-2.5 w-2.5 fill-yellow-400 text-yellow-400" />
+      {user.rating.toFixed(1)}
+    </span>
+  );
+};
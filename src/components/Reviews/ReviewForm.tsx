@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRating } from './StarRating';
+
+interface ReviewFormProps {
+  onSubmit: (rating: number, comment: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export const ReviewForm = ({ onSubmit, isSubmitting = false }: ReviewFormProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating || !comment.trim()) return;
+    await onSubmit(rating, comment.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <StarRating value={rating} onChange={setRating} />
+      <Textarea
+        placeholder="Cuenta cómo fue trabajar juntos..."
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        className="min-h-[100px]"
+        maxLength={2000}
+      />
+      <Button
+        type="submit"
+        disabled={isSubmitting || !rating || !comment.trim()}
+        className="bg-wfc-purple hover:bg-wfc-purple-medium"
+      >
+        {isSubmitting ? 'Enviando...' : 'Enviar valoración'}
+      </Button>
+    </form>
+  );
+};
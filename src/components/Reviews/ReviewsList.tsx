@@ -0,0 +1,47 @@
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ReviewType } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { StarRating } from './StarRating';
+
+interface ReviewsListProps {
+  reviews: ReviewType[];
+  // En los perfiles se indica la propuesta de cada valoración
+  showJob?: boolean;
+}
+
+export const ReviewsList = ({ reviews, showJob = false }: ReviewsListProps) => {
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">Todavía no hay valoraciones.</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {reviews.map(review => (
+        <li key={review.id} className="flex gap-3">
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={review.reviewerPhoto || ''} />
+            <AvatarFallback className="bg-wfc-purple-medium text-white text-sm">
+              {review.reviewerName?.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <Link to={`/users/${review.reviewerId}`} className="text-sm font-medium hover:underline">
+                {review.reviewerName || 'Usuario'}
+              </Link>
+              <StarRating value={review.rating} />
+              <span className="text-xs text-gray-500">{formatDate(review.createdAt)}</span>
+            </div>
+            {showJob && review.jobTitle && (
+              <Link to={`/jobs/${review.jobId}`} className="text-xs text-wfc-purple hover:underline">
+                {review.jobTitle}
+              </Link>
+            )}
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line mt-1">{review.comment}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,38 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  // Con onChange las estrellas se pueden pulsar para elegir la puntuación
+  onChange?: (value: number) => void;
+  className?: string;
+}
+
+export const StarRating = ({ value, onChange, className }: StarRatingProps) => (
+  <div className={cn('flex items-center gap-0.5', className)} aria-label={`${value} de 5 estrellas`}>
+    {[1, 2, 3, 4, 5].map(star => {
+      const icon = (
+        <Star
+          className={cn(
+            'h-4 w-4',
+            star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300 dark:text-gray-600',
+            onChange && 'h-6 w-6'
+          )}
+        />
+      );
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          className="p-0.5"
+          aria-label={`${star} ${star === 1 ? 'estrella' : 'estrellas'}`}
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,39 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserReviewsType } from '@/types';
+import { StarRating } from './StarRating';
+import { ReviewsList } from './ReviewsList';
+
+interface UserReviewsCardProps {
+  // null mientras se cargan
+  data: UserReviewsType | null;
+}
+
+// Valoraciones recibidas por un usuario, con su media
+export const UserReviewsCard = ({ data }: UserReviewsCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Valoraciones</CardTitle>
+        {data && data.averageRating !== null && (
+          <CardDescription className="flex items-center gap-2">
+            <StarRating value={data.averageRating} />
+            <span>
+              {data.averageRating.toFixed(1)} de 5 · {data.reviewCount} {data.reviewCount === 1 ? 'valoración' : 'valoraciones'}
+            </span>
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {data ? (
+          <ReviewsList reviews={data.reviews} showJob />
+        ) : (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
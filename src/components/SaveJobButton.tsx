@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJobs } from '@/contexts/JobContext';
+
+interface SaveJobButtonProps {
+  jobId: string;
+  showLabel?: boolean;
+}
+
+export const SaveJobButton = ({ jobId, showLabel = false }: SaveJobButtonProps) => {
+  const { currentUser } = useAuth();
+  const { isJobSaved, saveJob, unsaveJob } = useJobs();
+  const [isToggling, setIsToggling] = useState(false);
+  
+  if (!currentUser) return null;
+  
+  const saved = isJobSaved(jobId);
+  
+  const handleToggle = async () => {
+    setIsToggling(true);
+    if (saved) {
+      await unsaveJob(jobId);
+    } else {
+      await saveJob(jobId);
+    }
+    setIsToggling(false);
+  };
+  
+  return (
+    <Button 
+      variant="outline" 
+      size={showLabel ? "sm" : "icon"} 
+      onClick={handleToggle}
+      disabled={isToggling}
+      className={`${showLabel ? '' : 'rounded-full w-8 h-8'} ${saved ? 'text-wfc-purple border-wfc-purple' : ''}`}
+      title={saved ? 'Quitar de guardadas' : 'Guardar propuesta'}
+    >
+      {saved ? (
+        <BookmarkCheck className="h-4 w-4" />
+      ) : (
+        <Bookmark className="h-4 w-4" />
+      )}
+      {showLabel ? (
+        <span className="ml-1">{saved ? 'Guardada' : 'Guardar'}</span>
+      ) : (
+        <span className="sr-only">{saved ? 'Quitar de guardadas' : 'Guardar propuesta'}</span>
+      )}
+    </Button>
+  );
+};
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useJobs } from '@/contexts/JobContext';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BellPlus } from 'lucide-react';
+import { JobFiltersType } from '@/types';
+
+interface SaveSearchDialogProps {
+  filters: JobFiltersType;
+}
+
+export const SaveSearchDialog = ({ filters }: SaveSearchDialogProps) => {
+  const { saveSearch } = useJobs();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      // Proponer un nombre a partir de la búsqueda o la categoría
+      setName(filters.search || filters.category || '');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    const saved = await saveSearch(name.trim(), filters);
+    setIsSaving(false);
+
+    if (saved) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => handleOpenChange(true)}>
+        <BellPlus className="h-4 w-4 mr-2" />
+        Guardar búsqueda
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Guardar búsqueda</DialogTitle>
+              <DialogDescription>
+                Te avisaremos cuando se publique una propuesta que coincida con estos filtros.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              className="my-4"
+              placeholder="Nombre de la búsqueda"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving ? 'Guardando...' : 'Guardar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -291,7 +291,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           username: userData.name,
           avatar: userData.photoURL,
           bio: userData.bio,
-          skills: userData.skills
+          skills: userData.skills,
+          hourlyRate: userData.hourlyRate
         })
       });
 
@@ -313,7 +314,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         name: data.name || state.user.name,
         photoURL: data.avatar || state.user.photoURL,
         bio: userData.bio || state.user.bio,
-        skills: userData.skills || state.user.skills
+        skills: userData.skills || state.user.skills,
+        hourlyRate: userData.hourlyRate ?? state.user.hourlyRate
       };
 
       dispatch({
@@ -1,10 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './AuthContext';
-import { ChatType, MessageType, UserType } from '@/types';
+import { ChatType, MessageType, MessageReactionType, MessagesPageType, UserType, ProposalType } from '@/types';
 import { useToast } from '@/components/ui/use-toast';
 import io, { Socket } from 'socket.io-client';
 import { chatService, messageService } from '@/services/api';
 
+// Qué parte del historial de un chat falta por cargar
+export interface ChatHistoryStatus {
+  hasOlder: boolean;
+  hasNewer: boolean; // la ventana cargada no llega al último mensaje (tras saltar a una fecha)
+}
+
+// Participante que está escribiendo en un chat
+export interface TypingUser {
+  userId: string;
+  name: string | null;
+}
+
 // Context Type
 export interface ChatContextType {
   createChat: (participantIds: string[], name?: string) => void;
@@ -22,11 +34,30 @@ export interface ChatContextType {
   loadingMessages: boolean;
   addParticipantToChat: (chatId: string, userId: string) => Promise<boolean>;
   loadChats: () => Promise<void>;
-  loadMessages: () => Promise<void>;
+  loadMessages: (chatId: string) => Promise<void>;
+  loadOlderMessages: (chatId: string) => Promise<void>;
+  loadNewerMessages: (chatId: string) => Promise<void>;
+  jumpToDate: (chatId: string, date: string) => Promise<void>;
+  getHistoryStatus: (chatId: string) => ChatHistoryStatus;
+  loadingHistory: boolean;
+  getTypingUsers: (chatId: string) => TypingUser[];
+  startTyping: (chatId: string) => void;
+  stopTyping: (chatId: string) => void;
   updateMessage: (messageId: string, content: string) => Promise<void>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
   deleteMessage: (messageId: string) => Promise<void>;
+  socket: Socket | null; // conexión compartida con otros contextos (p. ej. notificaciones)
 }
 
+// Format messages with additional timestamp field for compatibility
+const formatPage = (page: MessagesPageType): MessageType[] => page.messages.map(msg => ({
+  ...msg,
+  timestamp: msg.timestamp || msg.createdAt || new Date() // Use timestamp or fallback to current time
+}));
+
+// Mientras se escribe, typing:start se reenvía como mucho una vez por intervalo
+const TYPING_EMIT_INTERVAL_MS = 1000;
+
 const ChatContext = createContext<ChatContextType | null>(null);
 
 export const useChat = (): ChatContextType => {
@@ -47,21 +78,26 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [onlineUsers, setOnlineUsers] = useState<string[]>([]);
   const [loadingChats, setLoadingChats] = useState<boolean>(false);
   const [loadingMessages, setLoadingMessages] = useState<boolean>(false);
+  const [historyStatus, setHistoryStatus] = useState<Record<string, ChatHistoryStatus>>({});
+  const [loadingHistory, setLoadingHistory] = useState<boolean>(false);
+  // Copias para los manejadores del socket, que se registran una sola vez
+  const historyStatusRef = useRef(historyStatus);
+  historyStatusRef.current = historyStatus;
+  const activeChatRef = useRef(activeChat);
+  activeChatRef.current = activeChat;
+  const [typingUsers, setTypingUsers] = useState<Record<string, TypingUser[]>>({});
+  // Último typing:start enviado, para no emitir uno por cada tecla
+  const lastTypingEmit = useRef<{ chatId: string; at: number } | null>(null);
   
-  // Load messages for a specific chat
+  // Load the latest page of messages for a specific chat
   const loadMessages = useCallback(async (chatId: string) => {
     if (!currentUser || !chatId) return;
     
     setLoadingMessages(true);
     
     try {
-      const messagesData = await messageService.getMessages(chatId);
-      
-      // Format messages with additional timestamp field for compatibility
-      const formattedMessages = messagesData.map(msg => ({
-        ...msg,
-        timestamp: msg.timestamp || msg.createdAt || new Date().toISOString() // Use timestamp or fallback to current time
-      }));
+      const page = await messageService.getMessages(chatId);
+      const formattedMessages = formatPage(page);
       
       console.log("Loaded messages for chat", chatId, ":", formattedMessages);
       
@@ -69,6 +105,10 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         ...prev,
         [chatId]: formattedMessages
       }));
+      setHistoryStatus(prev => ({
+        ...prev,
+        [chatId]: { hasOlder: page.hasOlder, hasNewer: page.hasNewer }
+      }));
       
       // Mark messages as read since we've loaded them
       markAsRead(chatId);
@@ -84,6 +124,128 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [currentUser, toast]);
   
+  // Load the page before the oldest loaded message (scrolling up)
+  const loadOlderMessages = async (chatId: string) => {
+    const loaded = messages[chatId] || [];
+    if (!currentUser || loadingHistory || !historyStatus[chatId]?.hasOlder || loaded.length === 0) return;
+    
+    setLoadingHistory(true);
+    try {
+      const page = await messageService.getMessages(chatId, { before: loaded[0].id });
+      const older = formatPage(page);
+      setMessages(prev => {
+        const chatMessages = prev[chatId] || [];
+        return {
+          ...prev,
+          [chatId]: [...older.filter(msg => !chatMessages.some(m => m.id === msg.id)), ...chatMessages]
+        };
+      });
+      setHistoryStatus(prev => ({
+        ...prev,
+        [chatId]: { ...prev[chatId], hasOlder: page.hasOlder }
+      }));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudieron cargar los mensajes anteriores"
+      });
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+  
+  // Load the page after the newest loaded message (scrolling down after jumping to a date)
+  const loadNewerMessages = async (chatId: string) => {
+    const loaded = messages[chatId] || [];
+    if (!currentUser || loadingHistory || !historyStatus[chatId]?.hasNewer || loaded.length === 0) return;
+    
+    setLoadingHistory(true);
+    try {
+      const page = await messageService.getMessages(chatId, { after: loaded[loaded.length - 1].id });
+      const newer = formatPage(page);
+      setMessages(prev => {
+        const chatMessages = prev[chatId] || [];
+        return {
+          ...prev,
+          [chatId]: [...chatMessages, ...newer.filter(msg => !chatMessages.some(m => m.id === msg.id))]
+        };
+      });
+      setHistoryStatus(prev => ({
+        ...prev,
+        [chatId]: { ...prev[chatId], hasNewer: page.hasNewer }
+      }));
+      
+      // Back at the latest message: the chat is read up to date
+      if (!page.hasNewer) {
+        markAsRead(chatId);
+      }
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudieron cargar los mensajes"
+      });
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+  
+  // Replace the loaded messages with the ones starting at a date (YYYY-MM-DD)
+  const jumpToDate = async (chatId: string, date: string) => {
+    if (!currentUser) return;
+    
+    setLoadingHistory(true);
+    try {
+      const page = await messageService.getMessages(chatId, { date });
+      setMessages(prev => ({
+        ...prev,
+        [chatId]: formatPage(page)
+      }));
+      setHistoryStatus(prev => ({
+        ...prev,
+        [chatId]: { hasOlder: page.hasOlder, hasNewer: page.hasNewer }
+      }));
+    } catch (error) {
+      console.error('Error jumping to date:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudieron cargar los mensajes de esa fecha"
+      });
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+  
+  const getHistoryStatus = (chatId: string): ChatHistoryStatus =>
+    historyStatus[chatId] || { hasOlder: false, hasNewer: false };
+  
+  const getTypingUsers = (chatId: string) => typingUsers[chatId] || [];
+  
+  // Tell the other participants the user is typing (the server throttles and expires it too)
+  const startTyping = useCallback((chatId: string) => {
+    if (!socket || !socket.connected) return;
+    
+    const now = Date.now();
+    const last = lastTypingEmit.current;
+    if (last && last.chatId === chatId && now - last.at < TYPING_EMIT_INTERVAL_MS) return;
+    
+    lastTypingEmit.current = { chatId, at: now };
+    socket.emit('typing:start', { chatId });
+  }, [socket]);
+  
+  const stopTyping = useCallback((chatId: string) => {
+    if (lastTypingEmit.current?.chatId !== chatId) return;
+    
+    lastTypingEmit.current = null;
+    if (socket && socket.connected) {
+      socket.emit('typing:stop', { chatId });
+    }
+  }, [socket]);
+  
   // Connect to socket when user logs in
   useEffect(() => {
     if (!currentUser) return;
@@ -110,6 +272,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       newSocket.on('disconnect', () => {
         console.log('Disconnected from Socket.io server');
+        setTypingUsers({});
       });
 
       newSocket.on('connect_error', (error) => {
@@ -127,8 +290,11 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       newSocket.on('chat:message', (chatId: string, message: MessageType) => {
         console.log("Received message:", message, "for chat:", chatId);
         
-        // Add message to messages state
+        // Add message to messages state, unless the loaded history stops before the latest messages
         setMessages((prev) => {
+          if (historyStatusRef.current[chatId]?.hasNewer) {
+            return prev;
+          }
           const chatMessages = prev[chatId] || [];
           // Avoid duplicate messages
           if (!chatMessages.some(msg => msg.id === message.id)) {
@@ -140,7 +306,18 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
           return prev;
         });
 
-        // Update chat's lastMessage
+        // Whoever sent the message has stopped typing
+        setTypingUsers((prev) => ({
+          ...prev,
+          [chatId]: (prev[chatId] || []).filter(typing => typing.userId !== message.senderId)
+        }));
+
+        const isActiveChat = activeChatRef.current?.id === chatId;
+        const isOwnMessage = message.senderId === currentUser.id;
+        // Only counts as seen if the chat is open at its latest messages
+        const isSeen = isOwnMessage || (isActiveChat && !historyStatusRef.current[chatId]?.hasNewer);
+
+        // Update chat's lastMessage, unread count and the sender's read cursor
         setChats((prev) =>
           prev.map((chat) =>
             chat.id === chatId
@@ -149,16 +326,20 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
                   lastMessage: {
                     content: message.content,
                     timestamp: message.timestamp || message.createdAt || new Date().toISOString()
-                  }
+                  },
+                  unreadCount: isSeen ? chat.unreadCount : (chat.unreadCount || 0) + 1,
+                  readCursors: { ...chat.readCursors, [message.senderId]: message.id }
                 }
               : chat
           )
         );
 
-        // If this chat is active, mark messages as read
-        if (activeChat?.id === chatId) {
-          markAsRead(chatId);
-        } else {
+        // If this chat is active, mark messages as read (the server already did it for the sender)
+        if (isActiveChat) {
+          if (isSeen && !isOwnMessage) {
+            markAsRead(chatId);
+          }
+        } else if (!isOwnMessage) {
           // Show notification for new message
           const senderName = message.senderName || 'Nuevo mensaje';
           toast({
@@ -175,8 +356,9 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         // Update the message in the messages state
         setMessages((prev) => {
           const chatMessages = prev[chatId] || [];
+          // Merge so fields the event does not carry (e.g. reactions) are kept
           const updatedMessages = chatMessages.map((msg) => 
-            msg.id === updatedMessage.id ? { ...updatedMessage } : msg
+            msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg
           );
           
           return {
@@ -249,6 +431,49 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         );
       });
 
+      // Someone added or removed a reaction
+      newSocket.on('chat:message:reactions', (chatId: string, update: { messageId: string; reactions: MessageReactionType[] }) => {
+        setMessageReactions(update.messageId, update.reactions);
+      });
+
+      // Another participant (or this user in another session) has read up to a message
+      newSocket.on('chat:read', (chatId: string, cursor: { userId: string; lastReadMessageId: string }) => {
+        setChats((prev) =>
+          prev.map((chat) =>
+            chat.id === chatId
+              ? {
+                  ...chat,
+                  unreadCount: cursor.userId === currentUser.id ? 0 : chat.unreadCount,
+                  readCursors: { ...chat.readCursors, [cursor.userId]: cursor.lastReadMessageId }
+                }
+              : chat
+          )
+        );
+      });
+
+      // Typing indicators; the server expires them if typing:stop never arrives
+      newSocket.on('typing:start', (chatId: string, typing: TypingUser) => {
+        setTypingUsers((prev) => ({
+          ...prev,
+          [chatId]: [...(prev[chatId] || []).filter(t => t.userId !== typing.userId), typing]
+        }));
+      });
+
+      newSocket.on('typing:stop', (chatId: string, typing: TypingUser) => {
+        setTypingUsers((prev) => ({
+          ...prev,
+          [chatId]: (prev[chatId] || []).filter(t => t.userId !== typing.userId)
+        }));
+      });
+
+      // Notify job owners about new proposals
+      newSocket.on('job:proposal', (jobId: string, proposal: ProposalType) => {
+        toast({
+          title: "Nueva oferta",
+          description: `${proposal.userName || 'Un freelancer'} ha enviado una oferta a tu propuesta`
+        });
+      });
+
       // Handle errors
       newSocket.on('error', (errorMessage: string) => {
         console.error('Socket error:', errorMessage);
@@ -357,10 +582,17 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (!currentUser) return;
     
     try {
+      // Si se está viendo un tramo antiguo del historial, volver primero a los últimos mensajes
+      if (historyStatus[chatId]?.hasNewer) {
+        await loadMessages(chatId);
+      }
+      
       // Preferimos usar socket si está conectado
       if (socket && socket.connected) {
         // Solo enviamos a través del socket y NO hacemos la petición HTTP
+        // (el servidor quita también el indicador de escritura)
         socket.emit('sendMessage', { chatId, text: content });
+        lastTypingEmit.current = null;
         
         // Ya no hacemos la petición HTTP como backup
         // messageService.sendMessage(chatId, content).then((message) => {...})
@@ -407,6 +639,41 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Replace the reactions of a message in whichever chat it is loaded
+  const setMessageReactions = (messageId: string, reactions: MessageReactionType[]) => {
+    setMessages((prev) => {
+      const chatId = Object.keys(prev).find(id => prev[id].some(msg => msg.id === messageId));
+      if (!chatId) return prev;
+      
+      return {
+        ...prev,
+        [chatId]: prev[chatId].map(msg => msg.id === messageId ? { ...msg, reactions } : msg)
+      };
+    });
+  };
+
+  // Toggle an emoji reaction on a message
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!currentUser) return;
+    
+    try {
+      if (socket && socket.connected) {
+        // Participants (this user included) receive chat:message:reactions
+        socket.emit('toggleReaction', { messageId, emoji });
+      } else {
+        const update = await messageService.toggleReaction(messageId, emoji);
+        setMessageReactions(update.messageId, update.reactions);
+      }
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar la reacción"
+      });
+    }
+  };
+
   // Update a message - Similar change to avoid duplication
   const updateMessage = async (messageId: string, content: string) => {
     if (!currentUser) return;
@@ -566,14 +833,13 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const markAsRead = async (chatId: string) => {
     if (!currentUser) return;
     
+    // El contador se pone a cero en el momento; el servidor avisa al resto con chat:read
+    setChats((prev) =>
+      prev.map((chat) => chat.id === chatId ? { ...chat, unreadCount: 0 } : chat)
+    );
+    
     try {
-      // This endpoint would need to be implemented in your backend
-      await fetch(`http://localhost:5000/api/chats/${chatId}/read`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
+      await chatService.markAsRead(chatId);
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
@@ -702,8 +968,18 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         addParticipantToChat,
         loadChats,
         loadMessages,
+        loadOlderMessages,
+        loadNewerMessages,
+        jumpToDate,
+        getHistoryStatus,
+        loadingHistory,
+        getTypingUsers,
+        startTyping,
+        stopTyping,
         updateMessage,
-        deleteMessage
+        toggleReaction,
+        deleteMessage,
+        socket
       }}
     >
       {children}
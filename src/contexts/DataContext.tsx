@@ -50,7 +50,10 @@ export const DataProvider = ({ children }: { children: React.ReactNode }) => {
         photoURL: user.avatar || user.photoURL,
         joinedAt: user.created_at ? new Date(user.created_at).getTime() : Date.now(),
         bio: user.bio || '',
-        skills: Array.isArray(user.skills) ? user.skills : []
+        skills: Array.isArray(user.skills) ? user.skills : [],
+        hourlyRate: user.hourlyRate ?? undefined,
+        rating: user.rating ?? null,
+        reviewCount: user.reviewCount ?? 0
       }));
       
       console.log("Loaded users:", transformedUsers);
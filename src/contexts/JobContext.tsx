@@ -1,5 +1,5 @@
-import { createContext, useContext, useState, useEffect } from 'react';
-import { JobType, CommentType, ReplyType, UserType } from '@/types';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { JobType, JobFiltersType, JobsPageType, CommentType, ReplyType, UserType, ProposalType, SavedSearchType, JobAttachmentType, JobTemplateType, InvitationType, ReviewType, UserReviewsType } from '@/types';
 import { jobService } from '@/lib/jobService';
 import { useAuth } from './AuthContext';
 import { useToast } from '@/components/ui/use-toast';
@@ -10,19 +10,48 @@ export interface JobContextType {
   filteredJobs: JobType[];
   setFilteredJobs: (jobs: JobType[]) => void;
   popularJobs: JobType[];
+  recommendedJobs: JobType[];
   getJobById: (id: string) => JobType | undefined;
+  loadJob: (id: string) => Promise<JobType | null>;
+  fetchJobsPage: (filters: JobFiltersType, cursor?: string | null, withFacets?: boolean) => Promise<JobsPageType>;
   loading: boolean;
   addComment: (jobId: string, text: string) => Promise<CommentType | undefined>;
   addReply: (commentId: string, jobId: string, text: string) => Promise<ReplyType | undefined>;
-  addReplyToComment: (jobId: string, commentId: string, text: string, user: UserType) => Promise<void>;
+  addReplyToComment: (jobId: string, commentId: string, text: string, user: UserType) => Promise<ReplyType | undefined>;
   refreshJobs: () => Promise<void>;
   saveJob: (jobId: string) => Promise<void>;
   unsaveJob: (jobId: string) => Promise<void>;
   savedJobs: JobType[];
+  isJobSaved: (jobId: string) => boolean;
+  toggleLikeJob: (jobId: string) => Promise<void>;
+  savedSearches: SavedSearchType[];
+  saveSearch: (name: string, filters: JobFiltersType) => Promise<SavedSearchType | null>;
+  deleteSavedSearch: (searchId: string) => Promise<void>;
   deleteComment: (commentId: string) => void;
   createJob: (jobData: Partial<JobType>) => Promise<JobType | null>;
-  updateJob: (jobId: string, jobData: Partial<JobType>) => Promise<JobType | null>;
+  updateJob: (jobId: string, jobData: Partial<JobType> & { proposalId?: string; statusReason?: string }) => Promise<JobType | null>;
   deleteJob: (jobId: string) => Promise<boolean>;
+  getProposals: (jobId: string) => Promise<ProposalType[]>;
+  sendProposal: (jobId: string, proposalData: Pick<ProposalType, 'coverLetter' | 'bidAmount' | 'estimatedDuration'>) => Promise<ProposalType | null>;
+  acceptProposal: (jobId: string, proposalId: string) => Promise<JobType | null>;
+  rejectProposal: (jobId: string, proposalId: string) => Promise<ProposalType | null>;
+  withdrawProposal: (jobId: string, proposalId: string) => Promise<boolean>;
+  addJobAttachments: (jobId: string, files: File[]) => Promise<JobAttachmentType[]>;
+  removeJobAttachment: (jobId: string, fileId: number) => Promise<boolean>;
+  renewJob: (jobId: string, deadline?: string) => Promise<JobType | null>;
+  saveDraft: (draftId: string | null, draftData: Partial<JobType>) => Promise<JobType | null>;
+  publishDraft: (draftId: string, publishAt?: string) => Promise<JobType | null>;
+  duplicateJob: (jobId: string) => Promise<JobType | null>;
+  getJobTemplates: () => Promise<JobTemplateType[]>;
+  saveJobTemplate: (name: string, templateData: Partial<JobType>) => Promise<JobTemplateType | null>;
+  deleteJobTemplate: (templateId: string) => Promise<boolean>;
+  inviteToJob: (jobId: string, userId: string, message: string) => Promise<InvitationType | null>;
+  getJobInvitations: (jobId: string) => Promise<InvitationType[]>;
+  getInvitations: () => Promise<InvitationType[]>;
+  respondToInvitation: (invitationId: string, accept: boolean) => Promise<InvitationType | null>;
+  getJobReviews: (jobId: string) => Promise<ReviewType[]>;
+  submitReview: (jobId: string, rating: number, comment: string) => Promise<ReviewType | null>;
+  getUserReviews: (userId: string) => Promise<UserReviewsType>;
 }
 
 const JobContext = createContext<JobContextType | null>(null);
@@ -35,12 +64,40 @@ export const useJobs = () => {
   return context;
 };
 
+// El listado no incluye los datos del detalle (comentarios, historial, adjuntos):
+// conservar los que ya se cargaron
+const keepLoadedDetail = (job: JobType, previous?: JobType): JobType => {
+  if (!previous) return job;
+  return {
+    ...job,
+    comments: previous.comments?.length ? previous.comments : job.comments,
+    statusHistory: previous.statusHistory ?? job.statusHistory,
+    attachments: previous.attachments ?? job.attachments
+  };
+};
+
+// Añadir o actualizar propuestas en la caché local sin perder el detalle ya cargado
+const mergeJobs = (prevJobs: JobType[], incoming: JobType[]) => {
+  const merged = [...prevJobs];
+  incoming.forEach(job => {
+    const index = merged.findIndex(j => j.id === job.id);
+    if (index === -1) {
+      merged.push(job);
+    } else {
+      merged[index] = keepLoadedDetail(job, merged[index]);
+    }
+  });
+  return merged;
+};
+
 export const JobProvider = ({ children }: { children: React.ReactNode }) => {
   const [jobs, setJobs] = useState<JobType[]>([]);
   const [userJobs, setUserJobs] = useState<JobType[]>([]);
   const [filteredJobs, setFilteredJobs] = useState<JobType[]>([]);
   const [popularJobs, setPopularJobs] = useState<JobType[]>([]);
+  const [recommendedJobs, setRecommendedJobs] = useState<JobType[]>([]);
   const [savedJobs, setSavedJobs] = useState<JobType[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchType[]>([]);
   const [loading, setLoading] = useState(false);
   const { currentUser } = useAuth(); // Información del usuario actual
   const { toast } = useToast();
@@ -52,24 +109,66 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
   const refreshJobs = async () => {
     setLoading(true);
     try {
-      console.log("Refrescando trabajos...");
-      const allJobs = await jobService.getAllJobs();
-      console.log("Trabajos obtenidos:", allJobs.length);
-      setJobs(allJobs);
-      setFilteredJobs(allJobs);
-
+      let firstPageJobs: JobType[] = [];
+      
+      // El listado requiere sesión; la página pública solo usa las populares
       if (currentUser) {
+        console.log("Refrescando trabajos...");
+        const firstPage = await jobService.getJobs();
+        firstPageJobs = firstPage.jobs;
+        console.log("Trabajos obtenidos:", firstPageJobs.length);
+        setJobs(prevJobs => firstPageJobs.map(job => 
+          keepLoadedDetail(job, prevJobs.find(j => j.id === job.id))
+        ));
+        setFilteredJobs(firstPageJobs);
+
         const userJobsData = await jobService.getJobsByUser(currentUser.id);
         setUserJobs(userJobsData);
 
-        // In a real implementation, we would fetch saved jobs from the backend
-        // This is a placeholder until that endpoint is implemented
+        try {
+          const savedJobsData = await jobService.getSavedJobs();
+          setSavedJobs(savedJobsData);
+        } catch (error) {
+          console.error("Error fetching saved jobs:", error);
+          setSavedJobs([]);
+        }
+
+        try {
+          const savedSearchesData = await jobService.getSavedSearches();
+          setSavedSearches(savedSearchesData);
+        } catch (error) {
+          console.error("Error fetching saved searches:", error);
+          setSavedSearches([]);
+        }
+
+        try {
+          const recommendedJobsData = await jobService.getRecommendedJobs();
+          setRecommendedJobs(recommendedJobsData);
+        } catch (error) {
+          console.error("Error fetching recommended jobs:", error);
+          setRecommendedJobs([]);
+        }
+      } else {
+        setJobs([]);
+        setFilteredJobs([]);
+        setUserJobs([]);
         setSavedJobs([]);
+        setSavedSearches([]);
+        setRecommendedJobs([]);
       }
 
-      // For popular jobs, we're showing the first 3 most recent jobs
-      const popularJobsTemp = allJobs.slice(0, 3);
-      setPopularJobs(popularJobsTemp);
+      // Las populares se ordenan en el servidor (likes, comentarios y antigüedad)
+      try {
+        const popularJobsData = await jobService.getPopularJobs();
+        // La ruta es pública, así que el "me gusta" del usuario sale del listado
+        setPopularJobs(popularJobsData.map(job => ({
+          ...job,
+          likedByMe: firstPageJobs.find(j => j.id === job.id)?.likedByMe ?? false
+        })));
+      } catch (error) {
+        console.error("Error fetching popular jobs:", error);
+        setPopularJobs([]);
+      }
     } catch (error) {
       console.error("Error fetching jobs:", error);
       toast({
@@ -87,10 +186,53 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // Pedir una página del listado con filtros; las propuestas recibidas se guardan en la caché
+  const fetchJobsPage = useCallback(async (
+    filters: JobFiltersType,
+    cursor?: string | null,
+    withFacets = false
+  ): Promise<JobsPageType> => {
+    try {
+      const page = await jobService.getJobs(filters, cursor, undefined, withFacets);
+      // Los datos de la búsqueda (relevancia, fragmento) solo valen para esa página
+      const cachedJobs = page.jobs.map(({ searchRank, searchSnippet, ...job }) => job);
+      setJobs(prevJobs => mergeJobs(prevJobs, cachedJobs));
+      return page;
+    } catch (error) {
+      console.error("Error fetching jobs page:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las propuestas."
+      });
+      return { jobs: [], nextCursor: null };
+    }
+  }, [toast]);
+
   const getJobById = (id: string) => {
     return jobs.find(job => job.id === id);
   };
 
+  // Cargar una propuesta desde el servidor (incluye comentarios y respuestas)
+  const loadJob = useCallback(async (id: string): Promise<JobType | null> => {
+    try {
+      const job = await jobService.getJobById(id);
+      
+      if (job) {
+        setJobs(prevJobs => 
+          prevJobs.some(j => j.id === job.id)
+            ? prevJobs.map(j => j.id === job.id ? { ...j, ...job } : j)
+            : [...prevJobs, job]
+        );
+      }
+      
+      return job;
+    } catch (error) {
+      console.error("Error loading job:", error);
+      return null;
+    }
+  }, []);
+
   const createJob = async (jobData: Partial<JobType>): Promise<JobType | null> => {
     try {
       const createdJob = await jobService.createJob(jobData);
@@ -115,14 +257,14 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
-  const updateJob = async (jobId: string, jobData: Partial<JobType>): Promise<JobType | null> => {
+  const updateJob = async (jobId: string, jobData: Partial<JobType> & { proposalId?: string; statusReason?: string }): Promise<JobType | null> => {
     try {
       const updatedJob = await jobService.updateJob(jobId, jobData);
       
       if (updatedJob) {
         // Update the jobs state
         setJobs(prevJobs => 
-          prevJobs.map(job => job.id === jobId ? updatedJob : job)
+          prevJobs.map(job => job.id === jobId ? { ...job, ...updatedJob } : job)
         );
         
         // Update userJobs if necessary
@@ -139,6 +281,11 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
           title: "Propuesta actualizada",
           description: "La propuesta se ha actualizado correctamente."
         });
+        
+        // Recargar el detalle para incluir el nuevo cambio en el historial de estados
+        if (jobData.status) {
+          loadJob(jobId);
+        }
       }
       
       return updatedJob;
@@ -162,6 +309,7 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
         setJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
         setUserJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
         setFilteredJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
+        setSavedJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
         
         toast({
           title: "Propuesta eliminada",
@@ -191,21 +339,21 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
+    // Crear un comentario temporal para mostrar inmediatamente en la UI
+    const tempComment: CommentType = {
+      id: `temp-${Date.now()}`,
+      userId: currentUser.id,
+      jobId,
+      text,
+      timestamp: Date.now(),
+      userName: currentUser.name,
+      userPhoto: currentUser.photoURL || '',
+      replies: []
+    };
+
     try {
       console.log("Añadiendo comentario al trabajo", jobId);
       
-      // Crear un comentario temporal para mostrar inmediatamente en la UI
-      const tempComment: CommentType = {
-        id: `temp-${Date.now()}`,
-        userId: currentUser.id,
-        jobId,
-        text,
-        timestamp: Date.now(),
-        userName: currentUser.name,
-        userPhoto: currentUser.photoURL || '',
-        replies: []
-      };
-      
       // Actualizar la UI inmediatamente con el comentario temporal
       setJobs(prevJobs => {
         return prevJobs.map(job => {
@@ -243,15 +391,23 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
     } catch (error) {
       console.error("Error adding comment:", error);
       
-      // Si hay un error, mantener el comentario temporal para la UX
+      // Si el servidor no guardó el comentario, quitar el temporal para no mostrar datos que se perderán
+      setJobs(prevJobs => {
+        return prevJobs.map(job => {
+          if (job.id === jobId) {
+            return { ...job, comments: job.comments?.filter(c => c.id !== tempComment.id) };
+          }
+          return job;
+        });
+      });
+      
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Error al publicar el comentario en el servidor, pero se muestra localmente."
+        description: "No se pudo publicar el comentario. Inténtalo de nuevo."
       });
       
-      // Devolver el comentario temporal como fallback
-      return jobs.find(job => job.id === jobId)?.comments?.find(c => c.id.startsWith('temp-'));
+      return undefined;
     }
   };
 
@@ -265,27 +421,26 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
-    try {
-      // Crear una respuesta temporal para mostrar inmediatamente
-      const tempReply: ReplyType = {
-        id: `temp-reply-${Date.now()}`,
-        userId: currentUser.id,
-        commentId,
-        text,
-        content: text,
-        timestamp: Date.now(),
-        userName: currentUser.name,
-        userPhoto: currentUser.photoURL || '',
-      };
-      
-      // Actualizar la UI inmediatamente
+    // Crear una respuesta temporal para mostrar inmediatamente
+    const tempReply: ReplyType = {
+      id: `temp-reply-${Date.now()}`,
+      userId: currentUser.id,
+      commentId,
+      text,
+      content: text,
+      timestamp: Date.now(),
+      userName: currentUser.name,
+      userPhoto: currentUser.photoURL || '',
+    };
+
+    // Reemplazar las respuestas de un comentario dentro del estado de trabajos
+    const updateReplies = (updater: (replies: ReplyType[]) => ReplyType[]) => {
       setJobs(prevJobs => {
         return prevJobs.map(job => {
           if (job.id === jobId) {
             const updatedComments = job.comments?.map(comment => {
               if (comment.id === commentId) {
-                const updatedReplies = [...(comment.replies || []), tempReply];
-                return { ...comment, replies: updatedReplies };
+                return { ...comment, replies: updater(comment.replies || []) };
               }
               return comment;
             });
@@ -294,27 +449,17 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
           return job;
         });
       });
+    };
+
+    try {
+      // Actualizar la UI inmediatamente
+      updateReplies(replies => [...replies, tempReply]);
       
       // Ahora intentar guardar en el backend
       const reply = await jobService.addReply(commentId, text);
       
       // Actualizar con la respuesta real del backend
-      setJobs(prevJobs => {
-        return prevJobs.map(job => {
-          if (job.id === jobId) {
-            const updatedComments = job.comments?.map(comment => {
-              if (comment.id === commentId) {
-                const filteredReplies = comment.replies?.filter(r => r.id !== tempReply.id) || [];
-                const updatedReplies = [...filteredReplies, reply];
-                return { ...comment, replies: updatedReplies };
-              }
-              return comment;
-            });
-            return { ...job, comments: updatedComments };
-          }
-          return job;
-        });
-      });
+      updateReplies(replies => [...replies.filter(r => r.id !== tempReply.id), reply]);
       
       toast({
         title: "Respuesta publicada",
@@ -324,20 +469,23 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
       return reply;
     } catch (error) {
       console.error("Error adding reply:", error);
+      
+      // Quitar la respuesta temporal: el servidor no la guardó
+      updateReplies(replies => replies.filter(r => r.id !== tempReply.id));
+      
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Error al publicar la respuesta en el servidor, pero se muestra localmente."
+        description: "No se pudo publicar la respuesta. Inténtalo de nuevo."
       });
       
-      // Mantener la respuesta temporal como fallback
-      return tempReply;
+      return undefined;
     }
   };
 
   // Function for the CommentItem component to use
   const addReplyToComment = async (jobId: string, commentId: string, text: string, user: UserType) => {
-    await addReply(commentId, jobId, text);
+    return addReply(commentId, jobId, text);
   };
 
   const deleteComment = async (commentId: string) => {
@@ -366,29 +514,547 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const getProposals = useCallback(async (jobId: string): Promise<ProposalType[]> => {
+    try {
+      return await jobService.getProposals(jobId);
+    } catch (error) {
+      console.error("Error fetching proposals:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las ofertas."
+      });
+      return [];
+    }
+  }, [toast]);
+
+  const sendProposal = async (
+    jobId: string,
+    proposalData: Pick<ProposalType, 'coverLetter' | 'bidAmount' | 'estimatedDuration'>
+  ): Promise<ProposalType | null> => {
+    if (!currentUser) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Debes iniciar sesión para enviar una oferta."
+      });
+      return null;
+    }
+
+    try {
+      const proposal = await jobService.sendProposal(jobId, proposalData);
+      
+      toast({
+        title: "Oferta enviada",
+        description: "Tu oferta ha sido enviada al cliente."
+      });
+      
+      return proposal;
+    } catch (error) {
+      console.error("Error sending proposal:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al enviar la oferta."
+      });
+      return null;
+    }
+  };
+
+  // Aceptar una oferta pasa la propuesta de "open" a "in progress"
+  const acceptProposal = async (jobId: string, proposalId: string): Promise<JobType | null> => {
+    const updatedJob = await updateJob(jobId, { status: 'in progress', proposalId });
+    
+    if (updatedJob) {
+      toast({
+        title: "Oferta aceptada",
+        description: "La propuesta ha pasado a estar en progreso."
+      });
+    }
+    
+    return updatedJob;
+  };
+
+  const rejectProposal = async (jobId: string, proposalId: string): Promise<ProposalType | null> => {
+    try {
+      const proposal = await jobService.rejectProposal(jobId, proposalId);
+      
+      toast({
+        title: "Oferta rechazada",
+        description: "La oferta ha sido rechazada."
+      });
+      
+      return proposal;
+    } catch (error) {
+      console.error("Error rejecting proposal:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al rechazar la oferta."
+      });
+      return null;
+    }
+  };
+
+  const withdrawProposal = async (jobId: string, proposalId: string): Promise<boolean> => {
+    try {
+      const success = await jobService.withdrawProposal(jobId, proposalId);
+      
+      if (success) {
+        toast({
+          title: "Oferta retirada",
+          description: "Tu oferta ha sido retirada."
+        });
+      }
+      
+      return success;
+    } catch (error) {
+      console.error("Error withdrawing proposal:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al retirar la oferta."
+      });
+      return false;
+    }
+  };
+
+  const isJobSaved = (jobId: string) => {
+    return savedJobs.some(job => job.id === jobId);
+  };
+
   const saveJob = async (jobId: string) => {
-    // This will be implemented when job saving functionality is added
-    toast({
-      title: "Funcionalidad no implementada",
-      description: "La funcionalidad de guardar trabajos será implementada próximamente."
-    });
+    try {
+      await jobService.saveJob(jobId);
+      
+      // Añadir la propuesta a la lista de guardadas sin volver a pedirla al servidor
+      const job = jobs.find(j => j.id === jobId);
+      if (job) {
+        setSavedJobs(prevSaved => 
+          prevSaved.some(j => j.id === jobId) ? prevSaved : [job, ...prevSaved]
+        );
+      } else {
+        setSavedJobs(await jobService.getSavedJobs());
+      }
+      
+      toast({
+        title: "Propuesta guardada",
+        description: "Puedes encontrarla en la pestaña Guardadas de tu perfil."
+      });
+    } catch (error) {
+      console.error("Error saving job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar la propuesta."
+      });
+    }
   };
 
   const unsaveJob = async (jobId: string) => {
-    // This will be implemented when job saving functionality is added
-    toast({
-      title: "Funcionalidad no implementada",
-      description: "La funcionalidad de quitar trabajos guardados será implementada próximamente."
-    });
+    try {
+      await jobService.unsaveJob(jobId);
+      
+      setSavedJobs(prevSaved => prevSaved.filter(job => job.id !== jobId));
+      
+      toast({
+        title: "Propuesta quitada",
+        description: "La propuesta ya no está en tus guardadas."
+      });
+    } catch (error) {
+      console.error("Error unsaving job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al quitar la propuesta de guardadas."
+      });
+    }
+  };
+
+  const toggleLikeJob = async (jobId: string) => {
+    if (!currentUser) return;
+    
+    const job = jobs.find(j => j.id === jobId)
+      || popularJobs.find(j => j.id === jobId)
+      || recommendedJobs.find(j => j.id === jobId);
+    const liked = !job?.likedByMe;
+    
+    try {
+      const likesCount = liked 
+        ? await jobService.likeJob(jobId) 
+        : await jobService.unlikeJob(jobId);
+      
+      // Actualizar el contador en todas las listas donde aparece la propuesta
+      const applyLike = (list: JobType[]) => 
+        list.map(j => j.id === jobId ? { ...j, likesCount, likedByMe: liked } : j);
+      
+      setJobs(applyLike);
+      setFilteredJobs(applyLike);
+      setUserJobs(applyLike);
+      setPopularJobs(applyLike);
+      setRecommendedJobs(applyLike);
+      setSavedJobs(applyLike);
+    } catch (error) {
+      console.error("Error toggling job like:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo registrar tu me gusta."
+      });
+    }
+  };
+
+  const saveSearch = async (name: string, filters: JobFiltersType): Promise<SavedSearchType | null> => {
+    try {
+      const savedSearch = await jobService.createSavedSearch(name, filters);
+      setSavedSearches(prevSearches => [savedSearch, ...prevSearches]);
+      
+      toast({
+        title: "Búsqueda guardada",
+        description: "Te avisaremos cuando se publique una propuesta que coincida."
+      });
+      
+      return savedSearch;
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar la búsqueda."
+      });
+      return null;
+    }
   };
 
+  const deleteSavedSearch = async (searchId: string) => {
+    try {
+      await jobService.deleteSavedSearch(searchId);
+      setSavedSearches(prevSearches => prevSearches.filter(search => search.id !== searchId));
+      
+      toast({
+        title: "Búsqueda eliminada",
+        description: "Ya no recibirás avisos de esta búsqueda."
+      });
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar la búsqueda."
+      });
+    }
+  };
+
+  // Subir archivos adjuntos a una propuesta, uno a uno; devuelve los que se subieron
+  const addJobAttachments = async (jobId: string, files: File[]): Promise<JobAttachmentType[]> => {
+    const uploaded: JobAttachmentType[] = [];
+    const failed: string[] = [];
+    
+    for (const file of files) {
+      try {
+        uploaded.push(await jobService.uploadJobAttachment(jobId, file));
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        failed.push(file.name);
+      }
+    }
+    
+    if (uploaded.length > 0) {
+      setJobs(prevJobs => prevJobs.map(job => 
+        job.id === jobId ? { ...job, attachments: [...(job.attachments || []), ...uploaded] } : job
+      ));
+    }
+    
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `No se pudieron subir: ${failed.join(', ')}`
+      });
+    }
+    
+    return uploaded;
+  };
+
+  const removeJobAttachment = async (jobId: string, fileId: number): Promise<boolean> => {
+    try {
+      await jobService.deleteJobAttachment(jobId, fileId);
+      setJobs(prevJobs => prevJobs.map(job => 
+        job.id === jobId ? { ...job, attachments: job.attachments?.filter(file => file.id !== fileId) } : job
+      ));
+      return true;
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar el archivo adjunto."
+      });
+      return false;
+    }
+  };
+
+  const renewJob = async (jobId: string, deadline?: string): Promise<JobType | null> => {
+    try {
+      const renewedJob = await jobService.renewJob(jobId, deadline);
+      
+      const merge = (job: JobType) => job.id === jobId ? { ...job, ...renewedJob } : job;
+      setJobs(prevJobs => prevJobs.map(merge));
+      setUserJobs(prevJobs => prevJobs.map(merge));
+      setFilteredJobs(prevJobs => prevJobs.map(merge));
+      
+      toast({
+        title: "Propuesta renovada",
+        description: "La propuesta vuelve a aceptar ofertas."
+      });
+      
+      // Recargar el detalle para incluir la renovación en el historial de estados
+      loadJob(jobId);
+      
+      return renewedJob;
+    } catch (error) {
+      console.error("Error renewing job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al renovar la propuesta."
+      });
+      return null;
+    }
+  };
+
+  // Guardado automático de borradores: sin toasts de éxito
+  const saveDraft = async (draftId: string | null, draftData: Partial<JobType>): Promise<JobType | null> => {
+    try {
+      const draft = await jobService.saveDraft(draftId, draftData);
+      
+      setUserJobs(prevJobs => prevJobs.some(job => job.id === draft.id)
+        ? prevJobs.map(job => job.id === draft.id ? { ...job, ...draft } : job)
+        : [draft, ...prevJobs]
+      );
+      
+      return draft;
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      return null;
+    }
+  };
+
+  const publishDraft = async (draftId: string, publishAt?: string): Promise<JobType | null> => {
+    try {
+      const job = await jobService.publishDraft(draftId, publishAt);
+      
+      if (job.status === 'draft') {
+        setUserJobs(prevJobs => prevJobs.map(j => j.id === draftId ? { ...j, ...job } : j));
+        toast({
+          title: "Publicación programada",
+          description: "La propuesta se publicará automáticamente en la fecha elegida."
+        });
+      } else {
+        await refreshJobs();
+        toast({
+          title: "Propuesta publicada",
+          description: "La propuesta ya está visible y acepta ofertas."
+        });
+      }
+      
+      return job;
+    } catch (error) {
+      console.error("Error publishing draft:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo publicar la propuesta. Revisa que esté completa."
+      });
+      return null;
+    }
+  };
+
+  // El duplicado es un borrador: se completa y publica desde la página de creación
+  const duplicateJob = async (jobId: string): Promise<JobType | null> => {
+    try {
+      const draft = await jobService.duplicateJob(jobId);
+      setUserJobs(prevJobs => [draft, ...prevJobs]);
+      
+      toast({
+        title: "Propuesta duplicada",
+        description: "Se ha creado un borrador con su contenido."
+      });
+      
+      return draft;
+    } catch (error) {
+      console.error("Error duplicating job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al duplicar la propuesta."
+      });
+      return null;
+    }
+  };
+
+  const getJobTemplates = async (): Promise<JobTemplateType[]> => {
+    try {
+      return await jobService.getJobTemplates();
+    } catch (error) {
+      console.error("Error fetching job templates:", error);
+      return [];
+    }
+  };
+
+  const saveJobTemplate = async (name: string, templateData: Partial<JobType>): Promise<JobTemplateType | null> => {
+    try {
+      const template = await jobService.createJobTemplate(name, templateData);
+      
+      toast({
+        title: "Plantilla guardada",
+        description: "Podrás usarla al crear nuevas propuestas."
+      });
+      
+      return template;
+    } catch (error) {
+      console.error("Error saving job template:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar la plantilla."
+      });
+      return null;
+    }
+  };
+
+  const deleteJobTemplate = async (templateId: string): Promise<boolean> => {
+    try {
+      await jobService.deleteJobTemplate(templateId);
+      
+      toast({
+        title: "Plantilla eliminada"
+      });
+      
+      return true;
+    } catch (error) {
+      console.error("Error deleting job template:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar la plantilla."
+      });
+      return false;
+    }
+  };
+
+  const inviteToJob = async (jobId: string, userId: string, message: string): Promise<InvitationType | null> => {
+    try {
+      const invitation = await jobService.inviteToJob(jobId, userId, message);
+      
+      toast({
+        title: "Invitación enviada",
+        description: "El freelancer recibirá un aviso para enviar su oferta."
+      });
+      
+      return invitation;
+    } catch (error) {
+      console.error("Error inviting to job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo enviar la invitación. Puede que el freelancer ya esté invitado o haya enviado una oferta."
+      });
+      return null;
+    }
+  };
+
+  const getJobInvitations = async (jobId: string): Promise<InvitationType[]> => {
+    try {
+      return await jobService.getJobInvitations(jobId);
+    } catch (error) {
+      console.error("Error fetching job invitations:", error);
+      return [];
+    }
+  };
+
+  // Estable entre renderizados: la bandeja la recarga al llegar nuevas invitaciones
+  const getInvitations = useCallback(async (): Promise<InvitationType[]> => {
+    try {
+      return await jobService.getInvitations();
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      return [];
+    }
+  }, []);
+
+  const respondToInvitation = async (invitationId: string, accept: boolean): Promise<InvitationType | null> => {
+    try {
+      const invitation = await jobService.respondToInvitation(invitationId, accept);
+      
+      if (!accept) {
+        toast({
+          title: "Invitación rechazada",
+          description: "Hemos avisado al cliente."
+        });
+      }
+      
+      return invitation;
+    } catch (error) {
+      console.error("Error answering invitation:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo responder la invitación. Puede que la propuesta ya no acepte ofertas."
+      });
+      return null;
+    }
+  };
+
+  const getJobReviews = useCallback(async (jobId: string): Promise<ReviewType[]> => {
+    try {
+      return await jobService.getJobReviews(jobId);
+    } catch (error) {
+      console.error("Error fetching job reviews:", error);
+      return [];
+    }
+  }, []);
+
+  const submitReview = async (jobId: string, rating: number, comment: string): Promise<ReviewType | null> => {
+    try {
+      const review = await jobService.createReview(jobId, rating, comment);
+      
+      toast({
+        title: "Valoración enviada",
+        description: "Gracias por compartir tu experiencia."
+      });
+      
+      return review;
+    } catch (error) {
+      console.error("Error creating review:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al enviar la valoración."
+      });
+      return null;
+    }
+  };
+
+  const getUserReviews = useCallback(async (userId: string): Promise<UserReviewsType> => {
+    try {
+      return await jobService.getUserReviews(userId);
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      return { reviews: [], averageRating: null, reviewCount: 0 };
+    }
+  }, []);
+
   const value: JobContextType = {
     jobs,
     userJobs,
     filteredJobs,
     setFilteredJobs,
     popularJobs,
+    recommendedJobs,
     getJobById,
+    loadJob,
+    fetchJobsPage,
     loading,
     addComment,
     addReply,
@@ -396,11 +1062,37 @@ export const JobProvider = ({ children }: { children: React.ReactNode }) => {
     saveJob,
     unsaveJob,
     savedJobs,
+    isJobSaved,
+    toggleLikeJob,
+    savedSearches,
+    saveSearch,
+    deleteSavedSearch,
     deleteComment,
     createJob,
     updateJob,
     deleteJob,
-    addReplyToComment
+    addReplyToComment,
+    getProposals,
+    sendProposal,
+    acceptProposal,
+    rejectProposal,
+    withdrawProposal,
+    addJobAttachments,
+    removeJobAttachment,
+    renewJob,
+    saveDraft,
+    publishDraft,
+    duplicateJob,
+    getJobTemplates,
+    saveJobTemplate,
+    deleteJobTemplate,
+    inviteToJob,
+    getJobInvitations,
+    getInvitations,
+    respondToInvitation,
+    getJobReviews,
+    submitReview,
+    getUserReviews
   };
 
   return (
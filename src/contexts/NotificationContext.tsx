@@ -0,0 +1,110 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { useChat } from './ChatContext';
+import { NotificationType } from '@/types';
+import { useToast } from '@/components/ui/use-toast';
+import { notificationService } from '@/services/api';
+
+export interface NotificationContextType {
+  notifications: NotificationType[];
+  unreadCount: number;
+  loadNotifications: () => Promise<void>;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | null>(null);
+
+export const useNotifications = (): NotificationContextType => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { currentUser } = useAuth();
+  const { socket } = useChat();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<NotificationType[]>([]);
+  
+  const loadNotifications = useCallback(async () => {
+    if (!currentUser) {
+      setNotifications([]);
+      return;
+    }
+    
+    try {
+      const notificationsData = await notificationService.getNotifications();
+      setNotifications(notificationsData);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [currentUser]);
+  
+  // Cargar las notificaciones guardadas al iniciar sesión
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+  
+  // Recibir notificaciones nuevas en tiempo real por el socket del chat
+  useEffect(() => {
+    if (!socket) return;
+    
+    const handleNewNotification = (notification: NotificationType) => {
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+      toast({
+        title: notification.title,
+        description: notification.message
+      });
+    };
+    
+    socket.on('notification:new', handleNewNotification);
+    
+    return () => {
+      socket.off('notification:new', handleNewNotification);
+    };
+  }, [socket, toast]);
+  
+  const markAsRead = async (notificationId: string) => {
+    try {
+      await notificationService.markAsRead(notificationId);
+      setNotifications(prev => 
+        prev.map(n => n.id === notificationId ? { ...n, read: true } : n)
+      );
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+  
+  const markAllAsRead = async () => {
+    try {
+      await notificationService.markAllAsRead();
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudieron marcar las notificaciones como leídas"
+      });
+    }
+  };
+  
+  const unreadCount = notifications.filter(n => !n.read).length;
+  
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        loadNotifications,
+        markAsRead,
+        markAllAsRead
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
@@ -0,0 +1,44 @@
+import { BudgetType, JobType } from '@/types';
+
+export const BUDGET_TYPES: BudgetType[] = ['fixed', 'hourly', 'range'];
+
+export const BUDGET_TYPE_LABELS: Record<BudgetType, string> = {
+  fixed: 'Precio fijo',
+  hourly: 'Por hora',
+  range: 'Rango'
+};
+
+// Monedas que se ofrecen al publicar una propuesta (códigos ISO 4217)
+export const CURRENCIES = ['USD', 'EUR', 'MXN', 'ARS', 'COP', 'CLP', 'PEN', 'GBP'];
+
+// Importe con su moneda, p. ej. "1500 US$" o "250 €" (sin decimales si no los tiene)
+export const formatAmount = (amount: number, currency = 'USD') => {
+  try {
+    return new Intl.NumberFormat('es', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+// Presupuesto de una propuesta según su modelo de precio:
+// "1500 US$", "25 US$/h" o "500 US$ - 1000 US$".
+// Las propuestas anteriores a los modelos de precio solo tienen "budget" (en USD).
+export const formatBudget = (job: Pick<JobType, 'budget' | 'budgetType' | 'budgetMin' | 'budgetMax' | 'currency'>) => {
+  const currency = job.currency || 'USD';
+  const min = job.budgetMin ?? job.budget;
+  const max = job.budgetMax ?? job.budget;
+
+  switch (job.budgetType) {
+    case 'hourly':
+      return `${formatAmount(min, currency)}/h`;
+    case 'range':
+      return `${formatAmount(min, currency)} - ${formatAmount(max, currency)}`;
+    default:
+      return formatAmount(max, currency);
+  }
+};
@@ -0,0 +1,42 @@
+import { JobType, JobFiltersType, BudgetType } from '@/types';
+import { BUDGET_TYPES } from '@/lib/budget';
+
+const JOB_STATUSES: JobType['status'][] = ['open', 'in progress', 'completed', 'cancelled', 'expired'];
+
+// Leer los filtros de la query string (?q=...&skills=React,Node.js&budgetMin=100...)
+export const parseFilters = (params: URLSearchParams): JobFiltersType => {
+  const toNumber = (value: string | null) => 
+    value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  const status = params.get('status') as JobType['status'] | null;
+  const skills = params.get('skills')?.split(',').filter(Boolean);
+  const budgetType = params.get('budgetType') as BudgetType | null;
+  
+  return {
+    search: params.get('q') || undefined,
+    category: params.get('category') || undefined,
+    status: status && JOB_STATUSES.includes(status) ? status : undefined,
+    budgetMin: toNumber(params.get('budgetMin')),
+    budgetMax: toNumber(params.get('budgetMax')),
+    budgetType: budgetType && BUDGET_TYPES.includes(budgetType) ? budgetType : undefined,
+    currency: params.get('currency') || undefined,
+    skills: skills?.length ? skills : undefined,
+    skillsMatch: params.get('skillsMatch') === 'all' ? 'all' : undefined,
+    postedWithin: toNumber(params.get('postedWithin'))
+  };
+};
+
+// Escribir los filtros en la query string, omitiendo los vacíos
+export const serializeFilters = (filters: JobFiltersType) => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.budgetMin !== undefined) params.set('budgetMin', String(filters.budgetMin));
+  if (filters.budgetMax !== undefined) params.set('budgetMax', String(filters.budgetMax));
+  if (filters.budgetType) params.set('budgetType', filters.budgetType);
+  if (filters.currency) params.set('currency', filters.currency);
+  if (filters.skills?.length) params.set('skills', filters.skills.join(','));
+  if (filters.skillsMatch === 'all') params.set('skillsMatch', 'all');
+  if (filters.postedWithin) params.set('postedWithin', String(filters.postedWithin));
+  return params;
+};
@@ -1,27 +1,51 @@
 
-import { JobType, CommentType, ReplyType } from '@/types';
+import { JobType, JobFiltersType, JobsPageType, CommentType, ReplyType, ProposalType, SavedSearchType, JobAttachmentType, JobTemplateType, InvitationType, ReviewType, UserReviewsType } from '@/types';
 import { UserType } from '@/types';
 import axios from 'axios';
 import { toast } from '@/components/ui/use-toast';
-import { v4 as uuidv4 } from 'uuid';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+// Leer un archivo como base64 (sin el prefijo "data:...;base64,")
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const data = reader.result?.toString().split(',')[1];
+      if (data) {
+        resolve(data);
+      } else {
+        reject(new Error('Failed to read file'));
+      }
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
 export const jobService = {
-  getAllJobs: async (): Promise<JobType[]> => {
+  // Obtener una página de propuestas; pasar nextCursor para pedir la siguiente
+  getJobs: async (
+    filters: JobFiltersType = {},
+    cursor?: string | null,
+    limit?: number,
+    withFacets = false
+  ): Promise<JobsPageType> => {
     try {
-      console.log(`Fetching jobs from: ${API_URL}/jobs`);
       const token = localStorage.getItem('token');
-      console.log('Token available:', !!token);
       
       const response = await axios.get(`${API_URL}/jobs`, {
+        params: {
+          ...filters,
+          skills: filters.skills?.length ? filters.skills.join(',') : undefined,
+          cursor: cursor || undefined,
+          limit,
+          facets: withFacets || undefined
+        },
         headers: {
           Authorization: token ? `Bearer ${token}` : ''
         }
       });
       
-      console.log("Jobs response:", response.data);
-      
       if (response.data.success) {
         // Asegurarnos de que todos los trabajos tienen un array de comentarios, aunque sea vacío
         const jobsWithComments = response.data.jobs.map((job: JobType) => {
@@ -31,42 +55,59 @@ export const jobService = {
           };
         });
         
-        // Cachear los trabajos para modo offline o fallbacks
-        try {
-          localStorage.setItem('cachedJobs', JSON.stringify(jobsWithComments));
-        } catch (e) {
-          console.warn("No se pudo guardar los trabajos en caché", e);
-        }
-        
-        return jobsWithComments;
+        return {
+          jobs: jobsWithComments,
+          nextCursor: response.data.nextCursor || null,
+          facets: response.data.facets
+        };
       }
       
-      // Si no hay datos pero el servidor respondió, usar caché
-      const cachedJobs = localStorage.getItem('cachedJobs');
-      if (cachedJobs) {
-        console.log("No hay datos del servidor, usando trabajos en caché");
-        return JSON.parse(cachedJobs);
-      }
-      
-      return [];
+      return { jobs: [], nextCursor: null };
     } catch (error) {
       console.error("Error fetching jobs:", error);
-      // Mostrar un toast con el error
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: `Error al obtener las propuestas: ${axios.isAxiosError(error) ? error.message : 'Error desconocido'}`
+      throw error;
+    }
+  },
+  
+  getPopularJobs: async (limit = 3): Promise<JobType[]> => {
+    try {
+      // Ruta pública: el token solo se envía si existe
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`${API_URL}/jobs/popular`, {
+        params: { limit },
+        headers: {
+          Authorization: token ? `Bearer ${token}` : ''
+        }
       });
       
-      // Como fallback, intentar usar datos locales si hay disponibles
-      const cachedJobs = localStorage.getItem('cachedJobs');
-      if (cachedJobs) {
-        console.log("Usando trabajos en caché");
-        return JSON.parse(cachedJobs);
+      if (response.data.success) {
+        return response.data.jobs;
       }
+      return [];
+    } catch (error) {
+      console.error("Error fetching popular jobs:", error);
+      throw error;
+    }
+  },
+  
+  // Propuestas abiertas que encajan con las habilidades y el historial del usuario
+  getRecommendedJobs: async (limit = 3): Promise<JobType[]> => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`${API_URL}/jobs/recommended`, {
+        params: { limit },
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
       
-      // Si no hay caché, devolver array vacío para evitar errores
+      if (response.data.success) {
+        return response.data.jobs;
+      }
       return [];
+    } catch (error) {
+      console.error("Error fetching recommended jobs:", error);
+      throw error;
     }
   },
   
@@ -98,9 +139,17 @@ export const jobService = {
   
   getJobsByUser: async (userId: string): Promise<JobType[]> => {
     try {
-      // For now, we'll filter all jobs by user ID
-      const allJobs = await jobService.getAllJobs();
-      return allJobs.filter(job => job.userId === userId);
+      // Recorrer todas las páginas del usuario (suelen ser pocas)
+      const userJobs: JobType[] = [];
+      let cursor: string | null = null;
+      
+      do {
+        const page = await jobService.getJobs({ userId }, cursor, 50);
+        userJobs.push(...page.jobs);
+        cursor = page.nextCursor;
+      } while (cursor);
+      
+      return userJobs;
     } catch (error) {
       console.error("Error fetching user jobs:", error);
       toast({
@@ -171,7 +220,7 @@ export const jobService = {
     }
   },
   
-  updateJob: async (id: string, jobData: Partial<JobType>): Promise<JobType | null> => {
+  updateJob: async (id: string, jobData: Partial<JobType> & { proposalId?: string; statusReason?: string }): Promise<JobType | null> => {
     try {
       console.log(`Updating job with ID: ${id}`, jobData);
       const response = await axios.put(`${API_URL}/jobs/${id}`, jobData, {
@@ -207,6 +256,81 @@ export const jobService = {
     }
   },
   
+  // Crear (sin draftId) o guardar un borrador; no se valida nada hasta publicarlo
+  saveDraft: async (draftId: string | null, draftData: Partial<JobType>): Promise<JobType> => {
+    try {
+      const headers = { Authorization: `Bearer ${localStorage.getItem('token')}` };
+      const response = draftId
+        ? await axios.put(`${API_URL}/jobs/drafts/${draftId}`, draftData, { headers })
+        : await axios.post(`${API_URL}/jobs/drafts`, draftData, { headers });
+      
+      if (response.data.success) {
+        return response.data.job;
+      }
+      throw new Error(response.data.message || 'Error al guardar el borrador');
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      throw error;
+    }
+  },
+  
+  // Publicar un borrador ahora o, con publishAt, programar su publicación
+  publishDraft: async (draftId: string, publishAt?: string): Promise<JobType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/drafts/${draftId}/publish`, { publishAt }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.job;
+      }
+      throw new Error(response.data.message || 'Error al publicar el borrador');
+    } catch (error) {
+      console.error("Error publishing draft:", error);
+      throw error;
+    }
+  },
+  
+  // Copiar una propuesta propia en un nuevo borrador (con sus archivos adjuntos)
+  duplicateJob: async (id: string): Promise<JobType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${id}/duplicate`, {}, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.job;
+      }
+      throw new Error(response.data.message || 'Error al duplicar la propuesta');
+    } catch (error) {
+      console.error("Error duplicating job:", error);
+      throw error;
+    }
+  },
+  
+  // Reabrir una propuesta vencida; el servidor le pone un nuevo plazo
+  renewJob: async (id: string, deadline?: string): Promise<JobType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${id}/renew`, { deadline }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.job;
+      }
+      throw new Error(response.data.message || 'Error al renovar la propuesta');
+    } catch (error) {
+      console.error("Error renewing job:", error);
+      throw error;
+    }
+  },
+  
   deleteJob: async (id: string): Promise<boolean> => {
     try {
       console.log(`Deleting job with ID: ${id}`);
@@ -246,125 +370,467 @@ export const jobService = {
   addComment: async (jobId: string, text: string): Promise<CommentType> => {
     try {
       console.log(`Adding comment to job ${jobId}: ${text}`);
-      const token = localStorage.getItem('token');
-      console.log('Token for comment:', token ? 'Available' : 'Not available');
-      
-      // In a real implementation, this would be a backend call
       const response = await axios.post(`${API_URL}/jobs/${jobId}/comments`, {
         text
       }, {
         headers: {
-          Authorization: token ? `Bearer ${token}` : ''
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
       });
       
       if (response.data.success) {
-        console.log("Comentario creado en el backend:", response.data.comment);
         return response.data.comment;
       }
       
-      // Si el backend responde pero no con éxito, usamos el fallback
-      console.warn("El backend respondió sin éxito, usando fallback local");
-      throw new Error('Comentario no pudo ser guardado en el servidor');
+      throw new Error(response.data.message || 'Comentario no pudo ser guardado en el servidor');
     } catch (error) {
       console.error("Error adding comment:", error);
+      throw error;
+    }
+  },
+
+  addReply: async (commentId: string, text: string): Promise<ReplyType> => {
+    try {
+      console.log(`Adding reply to comment ${commentId}: ${text}`);
+      const response = await axios.post(`${API_URL}/comments/${commentId}/replies`, {
+        text
+      }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      // Fallback - crear un comentario local
-      const token = localStorage.getItem('token');
-      let userInfo;
+      if (response.data.success) {
+        return response.data.reply;
+      }
       
-      try {
-        if (token) {
-          userInfo = JSON.parse(atob(token.split('.')[1]));
+      throw new Error(response.data.message || 'Respuesta no pudo ser guardada en el servidor');
+    } catch (error) {
+      console.error("Error adding reply:", error);
+      throw error;
+    }
+  },
+
+  getProposals: async (jobId: string): Promise<ProposalType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/jobs/${jobId}/proposals`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
-      } catch (e) {
-        console.error("Error decodificando token:", e);
+      });
+      
+      if (response.data.success) {
+        return response.data.proposals;
       }
+      return [];
+    } catch (error) {
+      console.error("Error fetching proposals:", error);
+      throw error;
+    }
+  },
+
+  sendProposal: async (
+    jobId: string,
+    proposalData: Pick<ProposalType, 'coverLetter' | 'bidAmount' | 'estimatedDuration'>
+  ): Promise<ProposalType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/proposals`, proposalData, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      const newComment: CommentType = {
-        id: uuidv4(),
-        userId: userInfo?.userId || userInfo?.id || 'unknown',
-        jobId,
-        text,
-        content: text,
-        timestamp: Date.now(),
-        userName: userInfo?.name || 'Usuario',
-        userPhoto: userInfo?.photoURL || '',
-        replies: []
-      };
+      if (response.data.success) {
+        return response.data.proposal;
+      }
+      throw new Error(response.data.message || 'Error al enviar la oferta');
+    } catch (error) {
+      console.error("Error sending proposal:", error);
+      throw error;
+    }
+  },
+
+  rejectProposal: async (jobId: string, proposalId: string): Promise<ProposalType> => {
+    try {
+      const response = await axios.put(`${API_URL}/jobs/${jobId}/proposals/${proposalId}/reject`, {}, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      console.log("Comentario creado localmente:", newComment);
+      if (response.data.success) {
+        return response.data.proposal;
+      }
+      throw new Error(response.data.message || 'Error al rechazar la oferta');
+    } catch (error) {
+      console.error("Error rejecting proposal:", error);
+      throw error;
+    }
+  },
+
+  withdrawProposal: async (jobId: string, proposalId: string): Promise<boolean> => {
+    try {
+      const response = await axios.delete(`${API_URL}/jobs/${jobId}/proposals/${proposalId}`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      // Actualizar la caché local con el nuevo comentario
-      try {
-        const cachedJobs = localStorage.getItem('cachedJobs');
-        if (cachedJobs) {
-          const jobs = JSON.parse(cachedJobs);
-          const updatedJobs = jobs.map((job: JobType) => {
-            if (job.id === jobId) {
-              const comments = [...(job.comments || []), newComment];
-              return { ...job, comments };
-            }
-            return job;
-          });
-          localStorage.setItem('cachedJobs', JSON.stringify(updatedJobs));
+      return response.data.success;
+    } catch (error) {
+      console.error("Error withdrawing proposal:", error);
+      throw error;
+    }
+  },
+
+  getSavedJobs: async (): Promise<JobType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/jobs/saved`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
-      } catch (e) {
-        console.error("Error al guardar en caché el comentario:", e);
+      });
+      
+      if (response.data.success) {
+        return response.data.jobs;
       }
+      return [];
+    } catch (error) {
+      console.error("Error fetching saved jobs:", error);
+      throw error;
+    }
+  },
+
+  saveJob: async (jobId: string): Promise<boolean> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/save`, {}, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      return newComment;
+      return response.data.success;
+    } catch (error) {
+      console.error("Error saving job:", error);
+      throw error;
     }
   },
 
-  addReply: async (commentId: string, text: string): Promise<ReplyType> => {
+  unsaveJob: async (jobId: string): Promise<boolean> => {
     try {
-      console.log(`Adding reply to comment ${commentId}: ${text}`);
-      const token = localStorage.getItem('token');
+      const response = await axios.delete(`${API_URL}/jobs/${jobId}/save`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      // In a real implementation, this would be a backend call
-      const response = await axios.post(`${API_URL}/comments/${commentId}/replies`, {
-        text
-      }, {
+      return response.data.success;
+    } catch (error) {
+      console.error("Error unsaving job:", error);
+      throw error;
+    }
+  },
+
+  likeJob: async (jobId: string): Promise<number> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/like`, {}, {
         headers: {
-          Authorization: token ? `Bearer ${token}` : ''
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      return response.data.likesCount;
+    } catch (error) {
+      console.error("Error liking job:", error);
+      throw error;
+    }
+  },
+
+  unlikeJob: async (jobId: string): Promise<number> => {
+    try {
+      const response = await axios.delete(`${API_URL}/jobs/${jobId}/like`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      return response.data.likesCount;
+    } catch (error) {
+      console.error("Error unliking job:", error);
+      throw error;
+    }
+  },
+
+  getSavedSearches: async (): Promise<SavedSearchType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/saved-searches`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
       });
       
       if (response.data.success) {
-        return response.data.reply;
+        return response.data.savedSearches;
       }
+      return [];
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      throw error;
+    }
+  },
+
+  createSavedSearch: async (name: string, filters: JobFiltersType): Promise<SavedSearchType> => {
+    try {
+      const response = await axios.post(`${API_URL}/saved-searches`, { name, filters }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      // Si el backend responde pero no con éxito, usamos el fallback
-      throw new Error('Respuesta no pudo ser guardada en el servidor');
+      if (response.data.success) {
+        return response.data.savedSearch;
+      }
+      throw new Error(response.data.message || 'Error al guardar la búsqueda');
     } catch (error) {
-      console.error("Error adding reply:", error);
+      console.error("Error saving search:", error);
+      throw error;
+    }
+  },
+
+  deleteSavedSearch: async (searchId: string): Promise<boolean> => {
+    try {
+      const response = await axios.delete(`${API_URL}/saved-searches/${searchId}`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      // Fallback - crear una respuesta local
-      const token = localStorage.getItem('token');
-      let userInfo;
+      return response.data.success;
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      throw error;
+    }
+  },
+
+  // Invitar a un freelancer a enviar una oferta a una propuesta propia
+  inviteToJob: async (jobId: string, userId: string, message: string): Promise<InvitationType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/invitations`, { userId, message }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.invitation;
+      }
+      throw new Error(response.data.message || 'Error al enviar la invitación');
+    } catch (error) {
+      console.error("Error inviting to job:", error);
+      throw error;
+    }
+  },
+
+  // Invitaciones enviadas para una propuesta (solo su dueño)
+  getJobInvitations: async (jobId: string): Promise<InvitationType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/jobs/${jobId}/invitations`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.invitations;
+      }
+      return [];
+    } catch (error) {
+      console.error("Error fetching job invitations:", error);
+      throw error;
+    }
+  },
+
+  // Invitaciones recibidas por el usuario actual
+  getInvitations: async (): Promise<InvitationType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/invitations`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.invitations;
+      }
+      return [];
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      throw error;
+    }
+  },
+
+  respondToInvitation: async (invitationId: string, accept: boolean): Promise<InvitationType> => {
+    try {
+      const action = accept ? 'accept' : 'decline';
+      const response = await axios.put(`${API_URL}/invitations/${invitationId}/${action}`, {}, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.invitation;
+      }
+      throw new Error(response.data.message || 'Error al responder la invitación');
+    } catch (error) {
+      console.error("Error answering invitation:", error);
+      throw error;
+    }
+  },
+
+  getJobReviews: async (jobId: string): Promise<ReviewType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/jobs/${jobId}/reviews`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      try {
-        if (token) {
-          userInfo = JSON.parse(atob(token.split('.')[1]));
+      if (response.data.success) {
+        return response.data.reviews;
+      }
+      return [];
+    } catch (error) {
+      console.error("Error fetching job reviews:", error);
+      throw error;
+    }
+  },
+
+  // Valorar a la otra parte de una propuesta completada
+  createReview: async (jobId: string, rating: number, comment: string): Promise<ReviewType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/reviews`, { rating, comment }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
-      } catch (e) {
-        console.error("Error decodificando token:", e);
+      });
+      
+      if (response.data.success) {
+        return response.data.review;
+      }
+      throw new Error(response.data.message || 'Error al enviar la valoración');
+    } catch (error) {
+      console.error("Error creating review:", error);
+      throw error;
+    }
+  },
+
+  // Valoraciones recibidas por un usuario y su media
+  getUserReviews: async (userId: string): Promise<UserReviewsType> => {
+    try {
+      const response = await axios.get(`${API_URL}/users/${userId}/reviews`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        const { reviews, averageRating, reviewCount } = response.data;
+        return { reviews, averageRating, reviewCount };
+      }
+      return { reviews: [], averageRating: null, reviewCount: 0 };
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      throw error;
+    }
+  },
+
+  // Plantillas propias y globales
+  getJobTemplates: async (): Promise<JobTemplateType[]> => {
+    try {
+      const response = await axios.get(`${API_URL}/jobs/templates`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      
+      if (response.data.success) {
+        return response.data.templates;
       }
+      return [];
+    } catch (error) {
+      console.error("Error fetching job templates:", error);
+      throw error;
+    }
+  },
+
+  createJobTemplate: async (name: string, templateData: Partial<JobType>): Promise<JobTemplateType> => {
+    try {
+      const response = await axios.post(`${API_URL}/jobs/templates`, { ...templateData, name }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      const newReply: ReplyType = {
-        id: uuidv4(),
-        userId: userInfo?.userId || userInfo?.id || 'unknown',
-        commentId,
-        text,
-        content: text,
-        timestamp: Date.now(),
-        userName: userInfo?.name || 'Usuario',
-        userPhoto: userInfo?.photoURL || '',
-      };
+      if (response.data.success) {
+        return response.data.template;
+      }
+      throw new Error(response.data.message || 'Error al guardar la plantilla');
+    } catch (error) {
+      console.error("Error saving job template:", error);
+      throw error;
+    }
+  },
+
+  deleteJobTemplate: async (templateId: string): Promise<boolean> => {
+    try {
+      const response = await axios.delete(`${API_URL}/jobs/templates/${templateId}`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
       
-      console.log("Respuesta creada localmente:", newReply);
-      return newReply;
+      return response.data.success;
+    } catch (error) {
+      console.error("Error deleting job template:", error);
+      throw error;
+    }
+  },
+
+  uploadJobAttachment: async (jobId: string, file: File): Promise<JobAttachmentType> => {
+    try {
+      const data = await readFileAsBase64(file);
+
+      const response = await axios.post(`${API_URL}/jobs/${jobId}/attachments`, {
+        filename: file.name,
+        contentType: file.type || 'application/octet-stream',
+        size: file.size,
+        data
+      }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      return response.data.attachment;
+    } catch (error) {
+      console.error("Error uploading attachment:", error);
+      throw error;
+    }
+  },
+
+  deleteJobAttachment: async (jobId: string, fileId: number): Promise<boolean> => {
+    try {
+      const response = await axios.delete(`${API_URL}/jobs/${jobId}/attachments/${fileId}`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      return response.data.success;
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      throw error;
     }
   },
 
@@ -372,7 +838,6 @@ export const jobService = {
     try {
       console.log(`Deleting comment ${commentId}`);
       
-      // In a real implementation, this would be a backend call
       const response = await axios.delete(`${API_URL}/comments/${commentId}`, {
         headers: {
           Authorization: `Bearer ${localStorage.getItem('token')}`
@@ -0,0 +1,36 @@
+import { JobType } from '@/types';
+
+type JobStatus = JobType['status'];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  'open': 'Abierto',
+  'in progress': 'En progreso',
+  'completed': 'Completado',
+  'cancelled': 'Cancelado',
+  'expired': 'Vencido',
+  'draft': 'Borrador'
+};
+
+// Cambios de estado permitidos (el servidor aplica las mismas reglas):
+// open → in progress → completed, cancelar mientras no esté completada y
+// reabrir una propuesta cancelada o en progreso. Completado es definitivo.
+// Solo el servidor pasa una propuesta a vencida al acabar su plazo.
+// Los borradores se publican aparte (jobService.publishDraft), no cambiando su estado.
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  'open': ['in progress', 'cancelled'],
+  'in progress': ['completed', 'open', 'cancelled'],
+  'completed': [],
+  'cancelled': ['open'],
+  'expired': ['open', 'cancelled'],
+  'draft': []
+};
+
+// Clases del badge de cada estado
+export const JOB_STATUS_CLASSES: Record<JobStatus, string> = {
+  'open': 'bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900 dark:text-green-200',
+  'in progress': 'bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200',
+  'completed': 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300',
+  'cancelled': 'bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900 dark:text-red-200',
+  'expired': 'bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900 dark:text-amber-200',
+  'draft': 'bg-slate-100 text-slate-700 hover:bg-slate-200 dark:bg-slate-800 dark:text-slate-300'
+};
@@ -0,0 +1,22 @@
+import { ReportReason, ReportStatus, ReportTargetType } from '@/types';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  'spam': 'Spam o publicidad',
+  'harassment': 'Acoso o insultos',
+  'inappropriate': 'Contenido inapropiado',
+  'fraud': 'Fraude o estafa',
+  'other': 'Otro motivo'
+};
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  'job': 'Propuesta',
+  'comment': 'Comentario',
+  'message': 'Mensaje',
+  'user': 'Usuario'
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  'open': 'Pendientes',
+  'resolved': 'Resueltas',
+  'dismissed': 'Descartadas'
+};
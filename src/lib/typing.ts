@@ -0,0 +1,8 @@
+// Texto del indicador de escritura: "Ana está escribiendo…", "Ana y Luis están escribiendo…"
+export const formatTypingText = (names: string[]): string | null => {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} está escribiendo…`;
+  if (names.length === 2) return `${names[0]} y ${names[1]} están escribiendo…`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} y ${names[2]} están escribiendo…`;
+  return `${names[0]}, ${names[1]} y ${names.length - 2} más están escribiendo…`;
+};
@@ -21,3 +21,31 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return `${text.substring(0, maxLength)}...`;
 }
+
+// Función de utilidad para mostrar el tamaño de un archivo (p. ej. "1.5 MB")
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Valor de un <input type="date"> (p. ej. "2024-05-31") para una fecha, en hora local
+export function toDateInputValue(date?: Date | string | null): string {
+  if (!date) return '';
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Final del día elegido en un <input type="date">, en ISO: un plazo incluye su último día
+export function endOfDayISO(dateInputValue: string): string {
+  return new Date(`${dateInputValue}T23:59:59`).toISOString();
+}
+
+// Valor de un <input type="datetime-local"> (p. ej. "2024-05-31T09:30") para una fecha, en hora local
+export function toDateTimeInputValue(date?: Date | string | null): string {
+  if (!date) return '';
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${toDateInputValue(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useChat } from '@/contexts/ChatContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -25,14 +25,45 @@ import {
   Trash2,
   MoreVertical,
   Check,
-  X
+  X,
+  Flag,
+  CalendarDays,
+  ArrowDown,
+  SmilePlus
 } from 'lucide-react';
 import { ChatGroupForm } from '@/components/ChatGroupForm';
 import { UserSelectDialog } from '@/components/UserSelectDialog';
 import { toast } from '@/components/ui/use-toast';
 import { ChatType, MessageType } from '@/types';
 import ChatMobileSheet from '@/components/ChatMobileSheet';
+import { RatingBadge } from '@/components/Reviews/RatingBadge';
+import { ReportDialog } from '@/components/Moderation/ReportDialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Label } from '@/components/ui/label';
+import { formatTypingText } from '@/lib/typing';
+
+// Distancia (px) a los extremos de la conversación a partir de la que se carga más historial
+const SCROLL_LOAD_THRESHOLD = 120;
+
+// Día local en formato YYYY-MM-DD, el que usa la API para saltar a una fecha
+const toDayKey = (timestamp: Date | string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const NO_MESSAGES: MessageType[] = [];
+
+// Emojis que se ofrecen para reaccionar a un mensaje
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Avatares de "visto por" que se muestran bajo un mensaje antes de resumir el resto
+const MAX_SEEN_AVATARS = 5;
+
+// Cómo colocar el scroll cuando llegue la siguiente página de mensajes
+type PendingScroll =
+  | { type: 'older'; previousScrollHeight: number }
+  | { type: 'newer' }
+  | { type: 'date'; date: string };
 
 const ChatsPage = () => {
   const { 
@@ -46,7 +77,17 @@ const ChatsPage = () => {
     loadChats,
     loadingChats,
     getMessages,
+    getHistoryStatus,
+    loadMessages,
+    loadOlderMessages,
+    loadNewerMessages,
+    jumpToDate,
+    loadingHistory,
+    getTypingUsers,
+    startTyping,
+    stopTyping,
     updateMessage,
+    toggleReaction,
     deleteMessage
   } = useChat();
   const { currentUser } = useAuth();
@@ -60,14 +101,73 @@ const ChatsPage = () => {
   const [isMobileChat, setIsMobileChat] = useState(false);
   const [editingMessage, setEditingMessage] = useState<{id: string, content: string} | null>(null);
   const [isConfirmingDelete, setIsConfirmingDelete] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [jumpDate, setJumpDate] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const pendingScroll = useRef<PendingScroll | null>(null);
+  const previousLastMessageId = useRef<string | undefined>(undefined);
   
   // Get messages for the active chat
-  const activeMessages = activeChat ? getMessages(activeChat.id) : [];
+  const activeMessages = activeChat ? getMessages(activeChat.id) : NO_MESSAGES;
+  const historyStatus = activeChat ? getHistoryStatus(activeChat.id) : { hasOlder: false, hasNewer: false };
+  const lastMessageId = activeMessages[activeMessages.length - 1]?.id;
+  
+  // activeChat es una copia; los cursores de lectura se actualizan en la lista de chats
+  const activeReadCursors = chats.find(chat => chat.id === activeChat?.id)?.readCursors || {};
+  // Quién ha leído hasta cada mensaje (sin contar al usuario actual)
+  const seenByMessage: Record<string, string[]> = {};
+  Object.entries(activeReadCursors).forEach(([userId, messageId]) => {
+    if (messageId && userId !== currentUser?.id) {
+      seenByMessage[messageId] = [...(seenByMessage[messageId] || []), userId];
+    }
+  });
+  
+  const getMessagesViewport = () =>
+    messagesContainerRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') || null;
+  
+  // Colocar el scroll antes de pintar para que no salte al añadir mensajes
+  useLayoutEffect(() => {
+    const pending = pendingScroll.current;
+    pendingScroll.current = null;
+    const viewport = getMessagesViewport();
+    
+    if (pending?.type === 'older' && viewport) {
+      // Mantener a la vista los mismos mensajes tras añadir los anteriores encima
+      viewport.scrollTop += viewport.scrollHeight - pending.previousScrollHeight;
+    } else if (pending?.type === 'date') {
+      const firstOfDay = activeMessages.find(message => toDayKey(message.timestamp) >= pending.date);
+      const separator = firstOfDay && document.getElementById(`chat-day-${toDayKey(firstOfDay.timestamp)}`);
+      if (separator) {
+        separator.scrollIntoView({ block: 'start' });
+      } else {
+        scrollToBottom('auto');
+      }
+    } else if (!pending && lastMessageId !== previousLastMessageId.current) {
+      // Animar solo cuando llegan mensajes nuevos; al abrir un chat, ir directamente al final
+      const isAppended = activeMessages.some(message => message.id === previousLastMessageId.current);
+      scrollToBottom(isAppended ? 'smooth' : 'auto');
+    }
+    
+    previousLastMessageId.current = lastMessageId;
+  }, [activeMessages, lastMessageId]);
   
   useEffect(() => {
-    scrollToBottom();
-  }, [activeMessages.length]);
+    pendingScroll.current = null;
+  }, [activeChat?.id]);
+  
+  // Al cambiar de chat deja de mostrarse que el usuario escribe en el anterior
+  useEffect(() => {
+    const chatId = activeChat?.id;
+    return () => {
+      if (chatId) stopTyping(chatId);
+    };
+  }, [activeChat?.id, stopTyping]);
+  
+  const typingText = activeChat
+    ? formatTypingText(getTypingUsers(activeChat.id).map(typing => typing.name || getUserById(typing.userId)?.name || 'Alguien'))
+    : null;
   
   useEffect(() => {
     if (currentUser) {
@@ -76,8 +176,33 @@ const ChatsPage = () => {
     }
   }, [currentUser]);
   
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const scrollToBottom = (behavior: ScrollBehavior = "smooth") => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
+  };
+  
+  // Cargar más historial al acercarse al principio o, tras saltar a una fecha, al final
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const viewport = e.target as HTMLDivElement;
+    if (!activeChat || loadingHistory || !viewport.hasAttribute('data-radix-scroll-area-viewport')) return;
+    
+    if (viewport.scrollTop < SCROLL_LOAD_THRESHOLD && historyStatus.hasOlder) {
+      pendingScroll.current = { type: 'older', previousScrollHeight: viewport.scrollHeight };
+      loadOlderMessages(activeChat.id);
+    } else if (
+      viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < SCROLL_LOAD_THRESHOLD &&
+      historyStatus.hasNewer
+    ) {
+      pendingScroll.current = { type: 'newer' };
+      loadNewerMessages(activeChat.id);
+    }
+  };
+  
+  const handleJumpToDate = async () => {
+    if (!activeChat || !jumpDate) return;
+    
+    setIsDatePickerOpen(false);
+    pendingScroll.current = { type: 'date', date: jumpDate };
+    await jumpToDate(activeChat.id, jumpDate);
   };
   
   const getChatName = (chat: ChatType) => {
@@ -110,6 +235,17 @@ const ChatsPage = () => {
     return name.charAt(0).toUpperCase();
   };
   
+  const handleMessageTextChange = (text: string) => {
+    setMessageText(text);
+    if (!activeChat) return;
+    
+    if (text.trim()) {
+      startTyping(activeChat.id);
+    } else {
+      stopTyping(activeChat.id);
+    }
+  };
+  
   const handleSendMessage = () => {
     if (!activeChat || !messageText.trim()) return;
     
@@ -322,11 +458,17 @@ const ChatsPage = () => {
                               <Users className="h-3 w-3" />
                             </Badge>
                           ) : (
-                            <div className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-white dark:border-gray-800
-                              ${isUserOnline(chat.participants.find((id) => id !== currentUser?.id)) 
-                                ? 'bg-green-500' 
-                                : 'bg-gray-300'}
-                            `} />
+                            <>
+                              <div className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-white dark:border-gray-800
+                                ${isUserOnline(chat.participants.find((id) => id !== currentUser?.id)) 
+                                  ? 'bg-green-500' 
+                                  : 'bg-gray-300'}
+                              `} />
+                              <RatingBadge 
+                                userId={chat.participants.find((id) => id !== currentUser?.id)} 
+                                className="absolute -bottom-1 -left-2" 
+                              />
+                            </>
                           )}
                         </div>
                         <div className="flex-1 min-w-0">
@@ -338,11 +480,18 @@ const ChatsPage = () => {
                               </span>
                             )}
                           </div>
-                          <p className="text-sm text-gray-500 truncate mt-1">
-                            {chat.lastMessage 
-                              ? chat.lastMessage.content 
-                              : 'No hay mensajes aún'}
-                          </p>
+                          <div className="flex items-center justify-between gap-2 mt-1">
+                            <p className={`text-sm truncate ${chat.unreadCount ? 'text-gray-800 dark:text-gray-200 font-medium' : 'text-gray-500'}`}>
+                              {chat.lastMessage 
+                                ? chat.lastMessage.content 
+                                : 'No hay mensajes aún'}
+                            </p>
+                            {!!chat.unreadCount && activeChat?.id !== chat.id && (
+                              <Badge className="bg-[#9b87f5] hover:bg-[#9b87f5] rounded-full px-1.5 min-w-[1.25rem] h-5 justify-center shrink-0">
+                                {chat.unreadCount > 99 ? '99+' : chat.unreadCount}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))}
@@ -406,8 +555,10 @@ const ChatsPage = () => {
                   </Avatar>
                   <div className="flex-1 min-w-0">
                     <h2 className="font-semibold truncate">{getChatName(activeChat)}</h2>
-                    <p className="text-xs text-gray-500">
-                      {activeChat.isGroup 
+                    <p className="text-xs text-gray-500 truncate">
+                      {typingText ? (
+                        <span className="text-[#9b87f5] italic">{typingText}</span>
+                      ) : activeChat.isGroup 
                         ? `${activeChat.participants.length} participantes` 
                         : isUserOnline(activeChat.participants.find((id) => id !== currentUser?.id))
                           ? 'En línea'
@@ -416,6 +567,47 @@ const ChatsPage = () => {
                     </p>
                   </div>
                   
+                  <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <PopoverTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <CalendarDays className="h-5 w-5" />
+                            </Button>
+                          </PopoverTrigger>
+                        </TooltipTrigger>
+                        <TooltipContent>Ir a una fecha</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                    <PopoverContent align="end" className="w-64">
+                      <form
+                        className="space-y-3"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleJumpToDate();
+                        }}
+                      >
+                        <Label htmlFor="chat-jump-date" className="block">Ir a los mensajes del día</Label>
+                        <Input
+                          id="chat-jump-date"
+                          type="date"
+                          value={jumpDate}
+                          max={toDayKey(new Date())}
+                          onChange={(e) => setJumpDate(e.target.value)}
+                        />
+                        <Button
+                          type="submit"
+                          size="sm"
+                          className="w-full bg-[#9b87f5] hover:bg-[#8a74f0]"
+                          disabled={!jumpDate || loadingHistory}
+                        >
+                          Ir
+                        </Button>
+                      </form>
+                    </PopoverContent>
+                  </Popover>
+                  
                   {activeChat.isGroup && (
                     <TooltipProvider>
                       <Tooltip>
@@ -435,166 +627,296 @@ const ChatsPage = () => {
                 </div>
                 
                 {/* Messages area with proper visualization */}
-                <ScrollArea id="messages-container" className="flex-1 p-4 bg-gray-50 dark:bg-gray-900">
-                  {activeMessages.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-full text-center">
-                      <p className="text-gray-500">No hay mensajes aún</p>
-                      <p className="text-sm text-gray-400 mt-2">Envía un mensaje para iniciar la conversación</p>
+                <div className="relative flex-1 min-h-0 flex flex-col">
+                  {loadingHistory && (
+                    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 bg-white dark:bg-gray-800 rounded-full shadow p-1.5">
+                      <Loader2 className="h-4 w-4 animate-spin text-[#9b87f5]" />
                     </div>
-                  ) : (
-                    <div className="space-y-4">
-                      {activeMessages.map((message, index, messages) => {
-                        const isCurrentUser = currentUser && message.senderId === currentUser.id;
-                        const isSystemMessage = message.senderId === "system";
-                        const sender = isSystemMessage ? null : getUserById(message.senderId);
-                        const isEditing = editingMessage && editingMessage.id === message.id;
-                        const isDeleted = message.deleted;
+                  )}
+                  <ScrollArea
+                    id="messages-container"
+                    ref={messagesContainerRef}
+                    className="flex-1 p-4 bg-gray-50 dark:bg-gray-900"
+                    onScrollCapture={handleMessagesScroll}
+                  >
+                    {activeMessages.length === 0 ? (
+                      <div className="flex flex-col items-center justify-center h-full text-center">
+                        <p className="text-gray-500">No hay mensajes aún</p>
+                        <p className="text-sm text-gray-400 mt-2">Envía un mensaje para iniciar la conversación</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        {activeMessages.map((message, index, messages) => {
+                          const isCurrentUser = currentUser && message.senderId === currentUser.id;
+                          const isSystemMessage = message.senderId === "system";
+                          const sender = isSystemMessage ? null : getUserById(message.senderId);
+                          const isEditing = editingMessage && editingMessage.id === message.id;
+                          const isDeleted = message.deleted;
+                        const seenBy = (seenByMessage[message.id] || []).filter(userId => userId !== message.senderId);
                         
-                        const showDateSeparator = index === 0 || 
-                          new Date(message.timestamp).toDateString() !== 
-                          new Date(messages[index - 1].timestamp).toDateString();
+                          const showDateSeparator = index === 0 || 
+                            new Date(message.timestamp).toDateString() !== 
+                            new Date(messages[index - 1].timestamp).toDateString();
                         
-                        return (
-                          <React.Fragment key={message.id}>
-                            {showDateSeparator && (
-                              <div className="flex justify-center my-4">
-                                <div className="bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-xs text-gray-500">
-                                  {formatDate(message.timestamp)}
+                          return (
+                            <React.Fragment key={message.id}>
+                              {showDateSeparator && (
+                                <div id={`chat-day-${toDayKey(message.timestamp)}`} className="flex justify-center my-4">
+                                  <div className="bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-xs text-gray-500">
+                                    {formatDate(message.timestamp)}
+                                  </div>
                                 </div>
-                              </div>
-                            )}
+                              )}
                             
-                            {isSystemMessage ? (
-                              <div className="flex justify-center my-4">
-                                <div className="bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-xs text-gray-500 flex items-center">
-                                  <Info className="h-3 w-3 mr-1" />
-                                  {message.content}
+                              {isSystemMessage ? (
+                                <div className="flex justify-center my-4">
+                                  <div className="bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-xs text-gray-500 flex items-center">
+                                    <Info className="h-3 w-3 mr-1" />
+                                    {message.content}
+                                  </div>
                                 </div>
-                              </div>
-                            ) : (
-                              <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group mb-2`}>
-                                {/* Avatar for received messages only */}
-                                {!isCurrentUser && (
-                                  <Avatar className="h-8 w-8 mr-2 self-end flex-shrink-0">
-                                    <AvatarImage src={sender?.photoURL} />
-                                    <AvatarFallback className="bg-gray-300 text-gray-700 text-xs">
-                                      {sender?.name?.charAt(0).toUpperCase() || '?'}
-                                    </AvatarFallback>
-                                  </Avatar>
-                                )}
-                                
-                                <div className="max-w-[70%]">
-                                  {/* Sender name for group chats */}
-                                  {!isCurrentUser && activeChat.isGroup && (
-                                    <div className="text-xs text-gray-500 ml-1 mb-1">
-                                      {sender?.name || 'Usuario'}
-                                    </div>
+                              ) : (
+                                <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group mb-2`}>
+                                  {/* Avatar for received messages only */}
+                                  {!isCurrentUser && (
+                                    <Avatar className="h-8 w-8 mr-2 self-end flex-shrink-0">
+                                      <AvatarImage src={sender?.photoURL} />
+                                      <AvatarFallback className="bg-gray-300 text-gray-700 text-xs">
+                                        {sender?.name?.charAt(0).toUpperCase() || '?'}
+                                      </AvatarFallback>
+                                    </Avatar>
                                   )}
-                                  
-                                  {/* Message bubble with different colors for sent/received */}
-                                  <div className={`px-4 py-2 rounded-2xl relative ${
-                                    isDeleted
-                                      ? 'bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500 italic'
-                                      : isCurrentUser 
-                                        ? 'bg-[#9b87f5] text-white rounded-br-none' 
-                                        : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-bl-none'
-                                  } group`}>
-                                    {isEditing ? (
-                                      <div className="flex items-center">
-                                        <Input
-                                          value={editingMessage.content}
-                                          onChange={(e) => setEditingMessage({...editingMessage, content: e.target.value})}
-                                          className="bg-white text-gray-800 border-0"
-                                          autoFocus
-                                        />
-                                        <Button 
-                                          size="sm" 
-                                          variant="ghost"
-                                          onClick={() => handleEditMessage(message.id, editingMessage.content)}
-                                          className="ml-2"
-                                        >
-                                          <Check className="h-4 w-4" />
-                                        </Button>
-                                        <Button 
-                                          size="sm" 
-                                          variant="ghost"
-                                          onClick={() => setEditingMessage(null)}
-                                          className="ml-1"
-                                        >
-                                          <X className="h-4 w-4" />
-                                        </Button>
+                                
+                                  <div className="max-w-[70%]">
+                                    {/* Sender name for group chats */}
+                                    {!isCurrentUser && activeChat.isGroup && (
+                                      <div className="text-xs text-gray-500 ml-1 mb-1">
+                                        {sender?.name || 'Usuario'}
                                       </div>
-                                    ) : (
-                                      <p className="break-words">{message.content}</p>
                                     )}
+                                  
+                                    {/* Message bubble with different colors for sent/received */}
+                                    <div className={`px-4 py-2 rounded-2xl relative ${
+                                      isDeleted
+                                        ? 'bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500 italic'
+                                        : isCurrentUser 
+                                          ? 'bg-[#9b87f5] text-white rounded-br-none' 
+                                          : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-bl-none'
+                                    } group`}>
+                                      {isEditing ? (
+                                        <div className="flex items-center">
+                                          <Input
+                                            value={editingMessage.content}
+                                            onChange={(e) => setEditingMessage({...editingMessage, content: e.target.value})}
+                                            className="bg-white text-gray-800 border-0"
+                                            autoFocus
+                                          />
+                                          <Button 
+                                            size="sm" 
+                                            variant="ghost"
+                                            onClick={() => handleEditMessage(message.id, editingMessage.content)}
+                                            className="ml-2"
+                                          >
+                                            <Check className="h-4 w-4" />
+                                          </Button>
+                                          <Button 
+                                            size="sm" 
+                                            variant="ghost"
+                                            onClick={() => setEditingMessage(null)}
+                                            className="ml-1"
+                                          >
+                                            <X className="h-4 w-4" />
+                                          </Button>
+                                        </div>
+                                      ) : (
+                                        <p className="break-words">{message.content}</p>
+                                      )}
+                                    
+                                      {/* Opciones de mensaje (editar/eliminar) para mensajes propios no eliminados */}
+                                      {isCurrentUser && !isDeleted && !isEditing && (
+                                        <Popover>
+                                          <PopoverTrigger asChild>
+                                            <Button 
+                                              variant="ghost" 
+                                              size="icon" 
+                                              className="h-6 w-6 p-0 absolute top-1 right-1 opacity-0 group-hover:opacity-100"
+                                            >
+                                              <MoreVertical className="h-4 w-4 text-white" />
+                                            </Button>
+                                          </PopoverTrigger>
+                                          <PopoverContent className="w-auto p-2">
+                                            <div className="flex flex-col space-y-1">
+                                              <Button 
+                                                variant="ghost" 
+                                                size="sm" 
+                                                className="flex justify-start px-2"
+                                                onClick={() => setEditingMessage({ id: message.id, content: message.content })}
+                                              >
+                                                <Edit className="h-4 w-4 mr-2" />
+                                                Editar
+                                              </Button>
+                                              <Button 
+                                                variant="ghost" 
+                                                size="sm" 
+                                                className="flex justify-start text-red-500 hover:text-red-600 px-2"
+                                                onClick={() => setIsConfirmingDelete(message.id)}
+                                              >
+                                                <Trash2 className="h-4 w-4 mr-2" />
+                                                Eliminar
+                                              </Button>
+                                            </div>
+                                          </PopoverContent>
+                                        </Popover>
+                                      )}
+                                    
+                                      {/* Denunciar mensajes recibidos */}
+                                      {!isCurrentUser && !isDeleted && (
+                                        <ReportDialog targetType="message" targetId={message.id}>
+                                          <Button 
+                                            variant="ghost" 
+                                            size="icon" 
+                                            className="h-6 w-6 p-0 absolute top-1 -right-7 opacity-0 group-hover:opacity-100"
+                                            title="Denunciar mensaje"
+                                          >
+                                            <Flag className="h-3 w-3 text-gray-400" />
+                                            <span className="sr-only">Denunciar mensaje</span>
+                                          </Button>
+                                        </ReportDialog>
+                                      )}
                                     
-                                    {/* Opciones de mensaje (editar/eliminar) para mensajes propios no eliminados */}
-                                    {isCurrentUser && !isDeleted && !isEditing && (
-                                      <Popover>
+                                      {/* Reaccionar al mensaje */}
+                                    {!isDeleted && !isEditing && (
+                                      <Popover
+                                        open={reactionPickerFor === message.id}
+                                        onOpenChange={(open) => setReactionPickerFor(open ? message.id : null)}
+                                      >
                                         <PopoverTrigger asChild>
                                           <Button 
                                             variant="ghost" 
                                             size="icon" 
-                                            className="h-6 w-6 p-0 absolute top-1 right-1 opacity-0 group-hover:opacity-100"
+                                            className={`h-6 w-6 p-0 absolute top-1 opacity-0 group-hover:opacity-100 ${isCurrentUser ? '-left-7' : '-right-14'}`}
+                                            title="Reaccionar"
                                           >
-                                            <MoreVertical className="h-4 w-4 text-white" />
+                                            <SmilePlus className="h-4 w-4 text-gray-400" />
+                                            <span className="sr-only">Reaccionar</span>
                                           </Button>
                                         </PopoverTrigger>
-                                        <PopoverContent className="w-auto p-2">
-                                          <div className="flex flex-col space-y-1">
-                                            <Button 
-                                              variant="ghost" 
-                                              size="sm" 
-                                              className="flex justify-start px-2"
-                                              onClick={() => setEditingMessage({ id: message.id, content: message.content })}
-                                            >
-                                              <Edit className="h-4 w-4 mr-2" />
-                                              Editar
-                                            </Button>
-                                            <Button 
-                                              variant="ghost" 
-                                              size="sm" 
-                                              className="flex justify-start text-red-500 hover:text-red-600 px-2"
-                                              onClick={() => setIsConfirmingDelete(message.id)}
-                                            >
-                                              <Trash2 className="h-4 w-4 mr-2" />
-                                              Eliminar
-                                            </Button>
+                                        <PopoverContent className="w-auto p-1" side="top">
+                                          <div className="flex space-x-1">
+                                            {QUICK_REACTIONS.map(emoji => (
+                                              <button
+                                                key={emoji}
+                                                type="button"
+                                                className="h-8 w-8 rounded-md text-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                onClick={() => {
+                                                  toggleReaction(message.id, emoji);
+                                                  setReactionPickerFor(null);
+                                                }}
+                                              >
+                                                {emoji}
+                                              </button>
+                                            ))}
                                           </div>
                                         </PopoverContent>
                                       </Popover>
                                     )}
                                     
                                     {/* Edited indicator */}
-                                    {message.edited && !isDeleted && (
-                                      <span className="text-xs opacity-70 ml-1">(editado)</span>
-                                    )}
-                                  </div>
+                                      {message.edited && !isDeleted && (
+                                        <span className="text-xs opacity-70 ml-1">(editado)</span>
+                                      )}
+                                    </div>
                                   
-                                  {/* Message timestamp */}
-                                  <div className={`text-xs text-gray-400 mt-1 ${isCurrentUser ? 'text-right' : 'text-left'}`}>
-                                    {formatTime(message.timestamp)}
+                                    {/* Reacciones agrupadas por emoji; pulsar una la añade o la quita */}
+                                    {!isDeleted && message.reactions && message.reactions.length > 0 && (
+                                      <div className={`flex flex-wrap gap-1 mt-1 ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+                                        {message.reactions.map(reaction => {
+                                          const hasReacted = !!currentUser && reaction.userIds.includes(currentUser.id);
+                                          return (
+                                            <button
+                                              key={reaction.emoji}
+                                              type="button"
+                                              onClick={() => toggleReaction(message.id, reaction.emoji)}
+                                              title={reaction.userIds
+                                                .map(userId => userId === currentUser?.id ? 'Tú' : getUserById(userId)?.name || 'Usuario')
+                                                .join(', ')}
+                                              className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                                                hasReacted
+                                                  ? 'border-[#9b87f5] bg-[#9b87f5]/10 text-[#9b87f5]'
+                                                  : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                                              }`}
+                                            >
+                                              <span>{reaction.emoji}</span>
+                                              <span>{reaction.count}</span>
+                                            </button>
+                                          );
+                                        })}
+                                      </div>
+                                    )}
+                                    
+                                    {/* Message timestamp */}
+                                    <div className={`text-xs text-gray-400 mt-1 ${isCurrentUser ? 'text-right' : 'text-left'}`}>
+                                      {formatTime(message.timestamp)}
+                                    </div>
+                                    
+                                    {/* Participantes que han leído hasta este mensaje */}
+                                    {seenBy.length > 0 && (
+                                      <div
+                                        className={`flex items-center gap-0.5 mt-1 ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
+                                        title={`Visto por ${seenBy.map(userId => getUserById(userId)?.name || 'Usuario').join(', ')}`}
+                                      >
+                                        {seenBy.slice(0, MAX_SEEN_AVATARS).map(userId => {
+                                          const reader = getUserById(userId);
+                                          return (
+                                            <Avatar key={userId} className="h-4 w-4">
+                                              <AvatarImage src={reader?.photoURL} />
+                                              <AvatarFallback className="bg-gray-300 text-gray-700 text-[8px]">
+                                                {reader?.name?.charAt(0).toUpperCase() || '?'}
+                                              </AvatarFallback>
+                                            </Avatar>
+                                          );
+                                        })}
+                                        {seenBy.length > MAX_SEEN_AVATARS && (
+                                          <span className="text-[10px] text-gray-400 ml-0.5">
+                                            +{seenBy.length - MAX_SEEN_AVATARS}
+                                          </span>
+                                        )}
+                                      </div>
+                                    )}
                                   </div>
-                                </div>
                                 
-                                {/* Avatar for sent messages only */}
-                                {isCurrentUser && (
-                                  <Avatar className="h-8 w-8 ml-2 self-end flex-shrink-0">
-                                    <AvatarImage src={currentUser.photoURL} />
-                                    <AvatarFallback className="bg-[#9b87f5] text-white text-xs">
-                                      {currentUser.name?.charAt(0).toUpperCase() || 'Y'}
-                                    </AvatarFallback>
-                                  </Avatar>
-                                )}
-                              </div>
-                            )}
-                          </React.Fragment>
-                        );
-                      })}
-                      <div ref={messagesEndRef} />
-                    </div>
+                                  {/* Avatar for sent messages only */}
+                                  {isCurrentUser && (
+                                    <Avatar className="h-8 w-8 ml-2 self-end flex-shrink-0">
+                                      <AvatarImage src={currentUser.photoURL} />
+                                      <AvatarFallback className="bg-[#9b87f5] text-white text-xs">
+                                        {currentUser.name?.charAt(0).toUpperCase() || 'Y'}
+                                      </AvatarFallback>
+                                    </Avatar>
+                                  )}
+                                </div>
+                              )}
+                            </React.Fragment>
+                          );
+                        })}
+                        <div ref={messagesEndRef} />
+                      </div>
+                    )}
+                  </ScrollArea>
+                
+                  {/* Tras saltar a una fecha, volver a los últimos mensajes */}
+                  {historyStatus.hasNewer && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 rounded-full shadow"
+                      onClick={() => loadMessages(activeChat.id)}
+                    >
+                      <ArrowDown className="h-4 w-4 mr-1" />
+                      Ir a los mensajes recientes
+                    </Button>
                   )}
-                </ScrollArea>
+                </div>
                 
                 {/* Message input */}
                 <div className="p-4 border-t">
@@ -602,7 +924,7 @@ const ChatsPage = () => {
                     <Input
                       placeholder="Escribe un mensaje..."
                       value={messageText}
-                      onChange={(e) => setMessageText(e.target.value)}
+                      onChange={(e) => handleMessageTextChange(e.target.value)}
                       onKeyDown={(e) => {
                         if (e.key === 'Enter' && !e.shiftKey) {
                           e.preventDefault();
@@ -666,6 +988,7 @@ const ChatsPage = () => {
           isOpen={isMobileChat}
           onClose={() => setIsMobileChat(false)}
           title={getChatName(activeChat)}
+          typingText={typingText}
           messages={activeMessages}
           isGroup={activeChat.isGroup}
           onEditMessage={(id, content) => setEditingMessage({ id, content })}
@@ -675,7 +998,7 @@ const ChatsPage = () => {
             <Input
               placeholder="Escribe un mensaje..."
               value={messageText}
-              onChange={(e) => setMessageText(e.target.value)}
+              onChange={(e) => handleMessageTextChange(e.target.value)}
               className="flex-1"
             />
             <Button
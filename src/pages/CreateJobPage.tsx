@@ -1,5 +1,4 @@
-
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import MainLayout from '@/components/Layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,17 +7,28 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { X } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { useData } from '@/contexts/DataContext';
 import { useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { JobAttachmentType, JobTemplateType, JobType } from '@/types';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { AttachmentPicker } from '@/components/Attachments/AttachmentPicker';
+import { JobTemplatePicker } from '@/components/JobTemplates/JobTemplatePicker';
+import { SaveTemplateDialog } from '@/components/JobTemplates/SaveTemplateDialog';
+import { BUDGET_TYPES, BUDGET_TYPE_LABELS, CURRENCIES } from '@/lib/budget';
+import { endOfDayISO, toDateInputValue, toDateTimeInputValue } from '@/lib/utils';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 
+// El borrador se guarda en el servidor tras unos segundos sin cambios
+const AUTOSAVE_DELAY = 2000;
+
 // Define the form validation schema
 const formSchema = z.object({
   title: z.string().min(3, {
@@ -30,44 +40,250 @@ const formSchema = z.object({
   category: z.string().min(1, {
     message: "Debes seleccionar una categoría.",
   }),
+  budgetType: z.enum(['fixed', 'hourly', 'range']),
+  currency: z.string().length(3),
+  // Importe fijo o por hora; en los rangos, el mínimo
   budget: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "El presupuesto debe ser un número mayor que 0.",
-  })
+  }),
+  budgetMax: z.string(),
+  // Opcional: último día para enviar ofertas
+  deadline: z.string().refine((val) => !val || new Date(endOfDayISO(val)) > new Date(), {
+    message: "La fecha límite no puede estar en el pasado.",
+  }),
+  // Publicación programada (fecha y hora locales)
+  schedulePublish: z.boolean(),
+  publishAt: z.string()
+}).superRefine((values, ctx) => {
+  if (values.budgetType === 'range') {
+    const max = Number(values.budgetMax);
+    if (isNaN(max) || max <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['budgetMax'], message: "El máximo debe ser un número mayor que 0." });
+    } else if (max < Number(values.budget)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['budgetMax'], message: "El máximo no puede ser menor que el mínimo." });
+    }
+  }
+  
+  if (values.schedulePublish) {
+    const publishAt = new Date(values.publishAt);
+    if (!values.publishAt || isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['publishAt'], message: "Elige una fecha y hora futuras." });
+    } else if (values.deadline && new Date(endOfDayISO(values.deadline)) <= publishAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deadline'], message: "La fecha límite debe ser posterior a la publicación." });
+    }
+  }
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Datos del borrador tal como estén: el servidor no exige nada hasta publicarlo
+const toDraftData = (values: FormValues, skills: string[]): Partial<JobType> => ({
+  title: values.title,
+  description: values.description,
+  category: values.category,
+  skills,
+  budgetType: values.budgetType,
+  currency: values.currency,
+  ...(values.budgetType === 'range'
+    ? { budgetMin: Number(values.budget) || 0, budgetMax: Number(values.budgetMax) || 0 }
+    : { budget: Number(values.budget) || 0 }),
+  deadline: values.deadline ? endOfDayISO(values.deadline) : null
+});
+
+const toAmountValue = (value?: number | null) => (value ? String(value) : '');
+
+// Valores del formulario para seguir editando un borrador guardado
+const fromDraft = (draft: JobType): FormValues => {
+  const amount = toAmountValue;
+  return {
+    title: draft.title || '',
+    description: draft.description || '',
+    category: draft.category || '',
+    budgetType: draft.budgetType || 'fixed',
+    currency: draft.currency || 'USD',
+    budget: amount(draft.budgetMin ?? draft.budget),
+    budgetMax: draft.budgetType === 'range' ? amount(draft.budgetMax) : '',
+    deadline: toDateInputValue(draft.deadline),
+    schedulePublish: !!draft.publishAt,
+    publishAt: toDateTimeInputValue(draft.publishAt)
+  };
+};
+
+// Campos que rellena una plantilla; el plazo y la programación se conservan
+const fromTemplate = (template: JobTemplateType, current: FormValues): FormValues => ({
+  ...current,
+  title: template.title,
+  description: template.description,
+  category: template.category,
+  budgetType: template.budgetType,
+  currency: template.currency,
+  budget: toAmountValue(template.budgetMin),
+  budgetMax: template.budgetType === 'range' ? toAmountValue(template.budgetMax) : ''
 });
 
 const CreateJobPage = () => {
   const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
   const [currentSkill, setCurrentSkill] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [draftAttachments, setDraftAttachments] = useState<JobAttachmentType[]>([]);
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
   
   const { jobCategories, skillsList } = useData();
-  const { createJob } = useJobs();
+  const { loadJob, saveDraft, publishDraft, addJobAttachments, removeJobAttachment } = useJobs();
   const { currentUser } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  
+  // ?draft=<id> retoma un borrador; el primer guardado automático crea uno nuevo
+  const draftIdRef = useRef<string | null>(searchParams.get('draft'));
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submittedRef = useRef(false);
+  const mountedRef = useRef(true);
+  const draftLoadedRef = useRef(false);
 
   // Initialize the form
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: "",
       description: "",
       category: "",
-      budget: ""
+      budgetType: "fixed",
+      currency: "USD",
+      budget: "",
+      budgetMax: "",
+      deadline: "",
+      schedulePublish: false,
+      publishAt: ""
     },
   });
+  
+  const budgetType = form.watch('budgetType');
+  const schedulePublish = form.watch('schedulePublish');
+
+  // Guardar el borrador con los valores actuales. Los guardados se encadenan para
+  // que el primero (que crea el borrador) termine antes del siguiente.
+  const persistDraft = (): Promise<JobType | null> => {
+    const run = async () => {
+      setDraftStatus('saving');
+      const draft = await saveDraft(draftIdRef.current, toDraftData(form.getValues(), selectedSkills));
+      
+      if (!draft) {
+        setDraftStatus('error');
+        return null;
+      }
+      
+      if (!draftIdRef.current) {
+        draftIdRef.current = draft.id;
+        // Tras salir de la página no se toca la URL de la nueva
+        if (mountedRef.current) {
+          setSearchParams({ draft: draft.id }, { replace: true });
+        }
+      }
+      setDraftStatus('saved');
+      setLastSavedAt(new Date());
+      return draft;
+    };
+    
+    const saving = saveQueueRef.current.then(run);
+    saveQueueRef.current = saving.catch(() => undefined);
+    return saving;
+  };
+  
+  // Los temporizadores usan siempre la última versión (con las habilidades actuales)
+  const persistDraftRef = useRef(persistDraft);
+  persistDraftRef.current = persistDraft;
+  
+  const scheduleAutosave = () => {
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      persistDraftRef.current();
+    }, AUTOSAVE_DELAY);
+  };
+  const scheduleAutosaveRef = useRef(scheduleAutosave);
+  scheduleAutosaveRef.current = scheduleAutosave;
+  
+  // Guardar automáticamente con cada cambio del usuario (no con form.reset)
+  useEffect(() => {
+    const subscription = form.watch((_, { type }) => {
+      if (type === 'change') scheduleAutosaveRef.current();
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+  
+  // Al salir de la página se guarda lo que quede pendiente
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      if (autosaveTimerRef.current && !submittedRef.current) {
+        clearTimeout(autosaveTimerRef.current);
+        persistDraftRef.current();
+      }
+    };
+  }, []);
+  
+  // Cargar (una sola vez) el borrador indicado en la URL al entrar
+  useEffect(() => {
+    // Los borradores creados aquí por el guardado automático no se recargan
+    if (draftLoadedRef.current) return;
+    draftLoadedRef.current = true;
+    
+    const draftId = draftIdRef.current;
+    if (!draftId) return;
+    
+    loadJob(draftId).then(draft => {
+      if (!draft || draft.status !== 'draft') {
+        draftIdRef.current = null;
+        setSearchParams({}, { replace: true });
+        toast({
+          variant: "destructive",
+          title: "Borrador no disponible",
+          description: "El borrador no existe o ya se ha publicado."
+        });
+        return;
+      }
+      
+      form.reset(fromDraft(draft));
+      setSelectedSkills(draft.skills || []);
+      setDraftAttachments(draft.attachments || []);
+      setDraftStatus('saved');
+      setLastSavedAt(new Date(draft.updatedAt));
+    });
+  }, [loadJob, form, setSearchParams]);
 
   const handleAddSkill = () => {
     if (currentSkill && !selectedSkills.includes(currentSkill)) {
       setSelectedSkills([...selectedSkills, currentSkill]);
       setCurrentSkill('');
+      scheduleAutosave();
     }
   };
 
   const handleRemoveSkill = (skill: string) => {
     setSelectedSkills(selectedSkills.filter(s => s !== skill));
+    scheduleAutosave();
+  };
+  
+  const handleSelectTemplate = (template: JobTemplateType) => {
+    form.reset(fromTemplate(template, form.getValues()));
+    setSelectedSkills(template.skills || []);
+    scheduleAutosave();
+  };
+  
+  const handleRemoveDraftAttachment = async (attachment: JobAttachmentType) => {
+    if (!draftIdRef.current) return;
+    const removed = await removeJobAttachment(draftIdRef.current, attachment.id);
+    if (removed) {
+      setDraftAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    }
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (values: FormValues) => {
     if (!currentUser) {
       toast({
         variant: "destructive",
@@ -78,23 +294,37 @@ const CreateJobPage = () => {
     }
 
     setIsSubmitting(true);
+    submittedRef.current = true;
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
 
     try {
-      // Create the job using the JobContext's createJob function
-      await createJob({
-        title: values.title,
-        description: values.description,
-        budget: Number(values.budget),
-        category: values.category,
-        skills: selectedSkills,
-        userId: currentUser.id,
-        status: 'open'
-      });
+      // Guardar el borrador con los últimos cambios y publicarlo (o programarlo)
+      const draft = await persistDraft();
+      if (!draft) {
+        throw new Error('No se pudo guardar el borrador');
+      }
+      
+      // Los adjuntos se suben antes de que la propuesta sea visible
+      if (attachments.length > 0) {
+        await addJobAttachments(draft.id, attachments);
+        setAttachments([]);
+      }
+      
+      const job = await publishDraft(
+        draft.id,
+        values.schedulePublish ? new Date(values.publishAt).toISOString() : undefined
+      );
+      
+      if (!job) {
+        submittedRef.current = false;
+        return;
+      }
 
-      // Redirect to the jobs page
-      navigate('/jobs');
+      // Las propuestas programadas se siguen en el perfil, entre los borradores
+      navigate(job.status === 'draft' ? '/profile' : '/jobs');
     } catch (error) {
       console.error("Error creating job:", error);
+      submittedRef.current = false;
       toast({
         variant: "destructive",
         title: "Error",
@@ -110,7 +340,23 @@ const CreateJobPage = () => {
       <div className="container py-10">
         <Card>
           <CardContent className="p-8">
-            <h1 className="text-2xl font-semibold mb-6 dark:text-white">Crear una nueva propuesta</h1>
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-6">
+              <h1 className="text-2xl font-semibold dark:text-white">Crear una nueva propuesta</h1>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {draftStatus === 'saving' && 'Guardando borrador...'}
+                {draftStatus === 'saved' && lastSavedAt && 
+                  `Borrador guardado a las ${lastSavedAt.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}`}
+                {draftStatus === 'error' && (
+                  <span className="text-red-600 dark:text-red-400">No se pudo guardar el borrador</span>
+                )}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-gray-50 dark:bg-gray-800 p-3 mb-6">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                ¿Publicas propuestas parecidas a menudo? Empieza desde una plantilla.
+              </p>
+              <JobTemplatePicker onSelect={handleSelectTemplate} />
+            </div>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                 <FormField
@@ -221,27 +467,188 @@ const CreateJobPage = () => {
                   )}
                 </div>
                 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="budgetType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="mb-1 block dark:text-gray-200">Tipo de presupuesto*</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                            {BUDGET_TYPES.map((type) => (
+                              <SelectItem key={type} value={type} className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">
+                                {BUDGET_TYPE_LABELS[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="mb-1 block dark:text-gray-200">Moneda*</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                            {CURRENCIES.map((currency) => (
+                              <SelectItem key={currency} value={currency} className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700">
+                                {currency}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="budget"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="mb-1 block dark:text-gray-200">
+                          {budgetType === 'range' ? 'Presupuesto mínimo*' : budgetType === 'hourly' ? 'Tarifa por hora*' : 'Presupuesto*'}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="Ingresa el importe"
+                            min={1}
+                            className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {budgetType === 'range' && (
+                    <FormField
+                      control={form.control}
+                      name="budgetMax"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="mb-1 block dark:text-gray-200">Presupuesto máximo*</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="Ingresa el importe máximo"
+                              min={1}
+                              className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+                
                 <FormField
                   control={form.control}
-                  name="budget"
+                  name="deadline"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="mb-1 block dark:text-gray-200">Presupuesto (USD)*</FormLabel>
+                      <FormLabel className="mb-1 block dark:text-gray-200">Fecha límite para recibir ofertas</FormLabel>
                       <FormControl>
                         <Input
-                          type="number"
-                          placeholder="Ingresa el presupuesto"
-                          min={1}
+                          type="date"
+                          min={toDateInputValue(new Date())}
                           className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
                           {...field}
                         />
                       </FormControl>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Opcional. Al vencer, la propuesta se cierra y podrás renovarla desde tu perfil.
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
                 
+                <div>
+                  <Label className="mb-1 block dark:text-gray-200">Archivos adjuntos</Label>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                    Briefs, mockups o especificaciones (máx. 10 MB por archivo)
+                  </p>
+                  {draftAttachments.length > 0 && (
+                    <div className="mb-2">
+                      <AttachmentList attachments={draftAttachments} onRemove={handleRemoveDraftAttachment} />
+                    </div>
+                  )}
+                  <AttachmentPicker 
+                    files={attachments} 
+                    onChange={setAttachments} 
+                    existingCount={draftAttachments.length}
+                    disabled={isSubmitting} 
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <FormField
+                    control={form.control}
+                    name="schedulePublish"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <Checkbox 
+                            checked={field.value} 
+                            onCheckedChange={(checked) => field.onChange(checked === true)} 
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal dark:text-gray-200">Programar la publicación</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  {schedulePublish && (
+                    <FormField
+                      control={form.control}
+                      name="publishAt"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="datetime-local"
+                              min={toDateTimeInputValue(new Date())}
+                              className="md:w-64 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                              {...field}
+                            />
+                          </FormControl>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Hasta entonces la propuesta queda entre tus borradores y solo tú puedes verla.
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+                
                 <div className="flex justify-end space-x-3 pt-4">
+                  <div className="mr-auto">
+                    <SaveTemplateDialog getTemplateData={() => toDraftData(form.getValues(), selectedSkills)} />
+                  </div>
                   <Button 
                     type="button" 
                     variant="outline" 
@@ -255,7 +662,9 @@ const CreateJobPage = () => {
                     className="bg-wfc-purple hover:bg-wfc-purple-medium"
                     disabled={isSubmitting}
                   >
-                    {isSubmitting ? 'Creando...' : 'Crear propuesta'}
+                    {isSubmitting 
+                      ? (schedulePublish ? 'Programando...' : 'Publicando...') 
+                      : (schedulePublish ? 'Programar publicación' : 'Publicar propuesta')}
                   </Button>
                 </div>
               </form>
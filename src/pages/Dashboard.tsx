@@ -6,11 +6,15 @@ import { useChat } from '@/contexts/ChatContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
-import { Briefcase, MessageCircle, Timer, ArrowRight } from 'lucide-react';
+import { JobType } from '@/types';
+import { Briefcase, MessageCircle, Timer, ArrowRight, Heart, TrendingUp, BellRing, Trash2, Sparkles, Check } from 'lucide-react';
+import { serializeFilters } from '@/lib/jobFilters';
+import { JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { formatBudget } from '@/lib/budget';
 
 const Dashboard = () => {
   const { currentUser } = useAuth();
-  const { jobs, loading: loadingJobs } = useJobs();
+  const { jobs, popularJobs, recommendedJobs, savedSearches, deleteSavedSearch, loading: loadingJobs } = useJobs();
   const { chats, loadingChats } = useChat();
 
   // Filtrar propuestas recientes
@@ -26,6 +30,26 @@ const Dashboard = () => {
     })
     .slice(0, 3);
 
+  // Motivos legibles de una recomendación ("3 de 4 habilidades coinciden"...)
+  const getRecommendationReasons = (job: JobType) => {
+    const recommendation = job.recommendation;
+    if (!recommendation) return [];
+    
+    const reasons: string[] = [];
+    if (recommendation.totalSkills > 0 && recommendation.matchedSkills.length > 0) {
+      reasons.push(
+        `${recommendation.matchedSkills.length} de ${recommendation.totalSkills} habilidades coinciden`
+      );
+    }
+    if (recommendation.categoryMatch) {
+      reasons.push(`Te interesan las propuestas de ${job.category}`);
+    }
+    if (recommendation.budgetFit !== null && recommendation.budgetFit >= 0.7) {
+      reasons.push('Presupuesto en tu rango habitual');
+    }
+    return reasons;
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('es-ES', {
@@ -90,6 +114,120 @@ const Dashboard = () => {
           </Card>
         </div>
         
+        {/* Recomendaciones según habilidades, categorías y presupuesto */}
+        {recommendedJobs.length > 0 && (
+          <div>
+            <div className="flex items-center mb-4">
+              <Sparkles className="h-5 w-5 text-wfc-purple mr-2" />
+              <h2 className="text-xl font-semibold">Recomendados para ti</h2>
+            </div>
+            
+            <div className="grid md:grid-cols-3 gap-4">
+              {recommendedJobs.map((job) => (
+                <Link key={job.id} to={`/jobs/${job.id}`}>
+                  <Card className="h-full hover:border-wfc-purple transition-colors">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base font-medium line-clamp-1">{job.title}</CardTitle>
+                      <CardDescription className="text-sm">
+                        {job.userName} • {formatBudget(job)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                      {getRecommendationReasons(job).map((reason) => (
+                        <p key={reason} className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                          <Check className="h-4 w-4 mr-1 text-green-600 shrink-0" /> {reason}
+                        </p>
+                      ))}
+                      {job.recommendation && job.recommendation.matchedSkills.length > 0 && (
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          {job.recommendation.matchedSkills.map((skill) => (
+                            <span 
+                              key={skill} 
+                              className="bg-wfc-purple/10 text-wfc-purple text-xs px-2 py-0.5 rounded-full"
+                            >
+                              {skill}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Propuestas populares (ordenadas por el servidor) */}
+        {popularJobs.length > 0 && (
+          <div>
+            <div className="flex items-center mb-4">
+              <TrendingUp className="h-5 w-5 text-wfc-purple mr-2" />
+              <h2 className="text-xl font-semibold">Propuestas populares</h2>
+            </div>
+            
+            <div className="grid md:grid-cols-3 gap-4">
+              {popularJobs.map((job) => (
+                <Link key={job.id} to={`/jobs/${job.id}`}>
+                  <Card className="h-full hover:border-wfc-purple transition-colors">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base font-medium line-clamp-1">{job.title}</CardTitle>
+                      <CardDescription className="text-sm">
+                        {job.userName} • {formatBudget(job)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span className="flex items-center">
+                          <Heart className="h-4 w-4 mr-1" /> {job.likesCount || 0}
+                        </span>
+                        <span className="flex items-center">
+                          <MessageCircle className="h-4 w-4 mr-1" /> {job.commentsCount || 0}
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Búsquedas guardadas con alertas */}
+        {savedSearches.length > 0 && (
+          <div>
+            <div className="flex items-center mb-4">
+              <BellRing className="h-5 w-5 text-wfc-purple mr-2" />
+              <h2 className="text-xl font-semibold">Búsquedas guardadas</h2>
+            </div>
+            
+            <div className="flex flex-wrap gap-2">
+              {savedSearches.map((search) => (
+                <div 
+                  key={search.id} 
+                  className="flex items-center border border-gray-200 dark:border-gray-700 rounded-full pl-4 pr-1 py-1"
+                >
+                  <Link 
+                    to={`/jobs?${serializeFilters(search.filters).toString()}`} 
+                    className="text-sm font-medium hover:text-wfc-purple"
+                  >
+                    {search.name}
+                  </Link>
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-7 w-7 ml-1 rounded-full text-gray-500 hover:text-red-600"
+                    onClick={() => deleteSavedSearch(search.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Eliminar búsqueda</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Propuestas recientes */}
         <div>
           <div className="flex justify-between items-center mb-4">
@@ -126,7 +264,7 @@ const Dashboard = () => {
                           </CardDescription>
                         </div>
                         <div className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
-                          {job.status === 'open' ? 'Abierto' : job.status === 'in-progress' ? 'En progreso' : 'Completado'}
+                          {JOB_STATUS_LABELS[job.status]}
                         </div>
                       </div>
                     </CardHeader>
@@ -0,0 +1,295 @@
+
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import MainLayout from '@/components/Layout/MainLayout';
+import { useData } from '@/contexts/DataContext';
+import { useChat } from '@/contexts/ChatContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MessageCircle, User, X } from 'lucide-react';
+import { userService } from '@/services/api';
+import { FreelancerFiltersType, UserType } from '@/types';
+import { truncateText } from '@/lib/utils';
+
+const SORT_OPTIONS: { value: NonNullable<FreelancerFiltersType['sort']>; label: string }[] = [
+  { value: 'newest', label: 'Más recientes' },
+  { value: 'oldest', label: 'Más antiguos' },
+  { value: 'rate_asc', label: 'Tarifa: menor a mayor' },
+  { value: 'rate_desc', label: 'Tarifa: mayor a menor' }
+];
+
+// Usuario tal y como lo devuelve GET /api/users/freelancers
+interface FreelancerRow {
+  id: string;
+  name: string;
+  email: string;
+  role: UserType['role'];
+  avatar: string | null;
+  status: boolean;
+  bio: string | null;
+  skills: string[] | null;
+  hourlyRate: number | null;
+  createdAt: string;
+}
+
+const FreelancersPage = () => {
+  const { skillsList } = useData();
+  const { createPrivateChat } = useChat();
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<FreelancerFiltersType>({ sort: 'newest' });
+  const [rateMin, setRateMin] = useState('');
+  const [rateMax, setRateMax] = useState('');
+  const [freelancers, setFreelancers] = useState<UserType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [contactingId, setContactingId] = useState<string | null>(null);
+
+  // Aplicar el rango de tarifas después de que el usuario deje de escribir
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const toNumber = (value: string) => value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+      setFilters(prev => ({ ...prev, rateMin: toNumber(rateMin), rateMax: toNumber(rateMax) }));
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [rateMin, rateMax]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    userService.getFreelancers(filters)
+      .then((users: FreelancerRow[]) => {
+        if (cancelled) return;
+        setFreelancers(users.map(user => ({
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          photoURL: user.avatar || null,
+          bio: user.bio || '',
+          skills: Array.isArray(user.skills) ? user.skills : [],
+          isOnline: user.status,
+          hourlyRate: user.hourlyRate ?? undefined,
+          joinedAt: user.createdAt ? new Date(user.createdAt).getTime() : undefined
+        })));
+      })
+      .catch(error => {
+        console.error('Error loading freelancers:', error);
+        if (!cancelled) setFreelancers([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const addSkill = (skill: string) => {
+    if (filters.skills?.includes(skill)) return;
+    setFilters(prev => ({ ...prev, skills: [...(prev.skills || []), skill] }));
+  };
+
+  const removeSkill = (skill: string) => {
+    setFilters(prev => {
+      const skills = prev.skills?.filter(s => s !== skill);
+      return { ...prev, skills: skills?.length ? skills : undefined };
+    });
+  };
+
+  const handleContact = async (freelancer: UserType) => {
+    setContactingId(freelancer.id);
+    try {
+      const chat = await createPrivateChat(freelancer.id);
+      if (chat) {
+        navigate('/chats');
+      }
+    } finally {
+      setContactingId(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto py-8">
+        <h1 className="text-2xl font-bold mb-4 dark:text-white">Freelancers</h1>
+
+        <div className="grid md:grid-cols-4 gap-6">
+          <aside className="md:col-span-1 space-y-6">
+            <div className="space-y-2">
+              <Label>Habilidades</Label>
+              <Select value="" onValueChange={addSkill}>
+                <SelectTrigger className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                  <SelectValue placeholder="Añadir habilidad" />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                  {skillsList
+                    .filter(skill => !filters.skills?.includes(skill))
+                    .map(skill => (
+                      <SelectItem
+                        key={skill}
+                        value={skill}
+                        className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700"
+                      >
+                        {skill}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-wrap gap-1">
+                {filters.skills?.map(skill => (
+                  <Badge key={skill} variant="secondary" className="dark:bg-gray-700 dark:text-white">
+                    {skill}
+                    <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => removeSkill(skill)} />
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tarifa por hora ($)</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Mín."
+                  value={rateMin}
+                  onChange={(e) => setRateMin(e.target.value)}
+                  className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                />
+                <span className="text-gray-500">-</span>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Máx."
+                  value={rateMax}
+                  onChange={(e) => setRateMax(e.target.value)}
+                  className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="online-only">Solo conectados</Label>
+              <Switch
+                id="online-only"
+                checked={!!filters.online}
+                onCheckedChange={(checked) => setFilters(prev => ({ ...prev, online: checked || undefined }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ordenar por</Label>
+              <Select
+                value={filters.sort || 'newest'}
+                onValueChange={(value) => setFilters(prev => ({ ...prev, sort: value as FreelancerFiltersType['sort'] }))}
+              >
+                <SelectTrigger className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                  {SORT_OPTIONS.map(option => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700"
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </aside>
+
+          <div className="md:col-span-3">
+            {isLoading ? (
+              <div className="grid sm:grid-cols-2 gap-4">
+                {[1, 2, 3, 4].map(index => (
+                  <Skeleton key={index} className="h-48 w-full" />
+                ))}
+              </div>
+            ) : freelancers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No se encontraron freelancers con estos filtros.
+              </div>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-4">
+                {freelancers.map(freelancer => (
+                  <Card key={freelancer.id} className="dark:bg-gray-800 dark:border-gray-700">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <div className="relative">
+                          <Avatar className="h-12 w-12">
+                            <AvatarImage src={freelancer.photoURL || ''} alt={freelancer.name} />
+                            <AvatarFallback className="bg-wfc-purple-medium text-white">
+                              {freelancer.name?.charAt(0).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          {freelancer.isOnline && (
+                            <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-white dark:border-gray-800" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <Link to={`/users/${freelancer.id}`} className="font-medium hover:underline dark:text-white">
+                            {freelancer.name}
+                          </Link>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {freelancer.hourlyRate ? `$${freelancer.hourlyRate}/h` : 'Tarifa no indicada'}
+                          </p>
+                        </div>
+                      </div>
+
+                      {freelancer.bio && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{truncateText(freelancer.bio, 120)}</p>
+                      )}
+
+                      {freelancer.skills && freelancer.skills.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {freelancer.skills.slice(0, 6).map(skill => (
+                            <Badge
+                              key={skill}
+                              variant="outline"
+                              className={filters.skills?.includes(skill) ? 'border-wfc-purple text-wfc-purple' : ''}
+                            >
+                              {skill}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex space-x-2 pt-1">
+                        <Link to={`/users/${freelancer.id}`} className="flex-1">
+                          <Button variant="outline" size="sm" className="w-full">
+                            <User className="h-4 w-4 mr-1" /> Ver perfil
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          className="flex-1 bg-wfc-purple hover:bg-wfc-purple-medium"
+                          onClick={() => handleContact(freelancer)}
+                          disabled={contactingId === freelancer.id}
+                        >
+                          <MessageCircle className="h-4 w-4 mr-1" /> Contactar
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default FreelancersPage;
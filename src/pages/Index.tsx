@@ -6,6 +6,7 @@
  * - Header with navigation
  * - Hero section
  * - Features section
+ * - Popular jobs section
  * - Call-to-action section
  * - Benefits section
  * - Footer
@@ -13,9 +14,13 @@
 
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Briefcase, MessageCircle, Users, CheckCircle } from 'lucide-react';
+import { Briefcase, MessageCircle, Users, CheckCircle, Heart } from 'lucide-react';
+import { useJobs } from '@/contexts/JobContext';
+import { formatBudget } from '@/lib/budget';
 
 const Index = () => {
+  const { popularJobs } = useJobs();
+  
   return (
     <div className="min-h-screen flex flex-col bg-wfc-background">
       {/* Header with navigation links */}
@@ -126,6 +131,41 @@ const Index = () => {
         </div>
       </section>
       
+      {/* Popular jobs ranked by the server (likes, comments and recency) */}
+      {popularJobs.length > 0 && (
+        <section className="py-16 bg-wfc-background dark:bg-gray-900">
+          <div className="container-custom">
+            <h2 className="text-2xl md:text-3xl font-bold text-center mb-12 dark:text-white">
+              Propuestas populares
+            </h2>
+            
+            <div className="grid md:grid-cols-3 gap-6">
+              {popularJobs.map((job) => (
+                <Link 
+                  key={job.id} 
+                  to={`/jobs/${job.id}`}
+                  className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm border border-gray-200 dark:border-gray-700 hover:border-wfc-purple transition-colors"
+                >
+                  <h3 className="text-lg font-semibold mb-2 dark:text-white line-clamp-1">{job.title}</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2 mb-4">{job.description}</p>
+                  <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+                    <span>{formatBudget(job)}</span>
+                    <div className="flex items-center space-x-4">
+                      <span className="flex items-center">
+                        <Heart className="h-4 w-4 mr-1" /> {job.likesCount || 0}
+                      </span>
+                      <span className="flex items-center">
+                        <MessageCircle className="h-4 w-4 mr-1" /> {job.commentsCount || 0}
+                      </span>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+      
       {/* CTA Section encouraging sign up */}
       <section className="py-16 bg-wfc-background dark:bg-gray-900">
         <div className="container-custom">
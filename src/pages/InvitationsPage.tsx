@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import MainLayout from '@/components/Layout/MainLayout';
+import { useJobs } from '@/contexts/JobContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Check, X } from 'lucide-react';
+import { InvitationStatus, InvitationType } from '@/types';
+import { formatDate } from '@/lib/utils';
+
+const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pendiente',
+  accepted: 'Aceptada',
+  declined: 'Rechazada'
+};
+
+const INVITATION_STATUS_CLASSES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-800'
+};
+
+// La propuesta puede haberse cerrado después de recibir la invitación
+const jobAcceptsProposals = (invitation: InvitationType) =>
+  invitation.jobStatus === 'open' &&
+  !(invitation.jobDeadline && new Date(invitation.jobDeadline).getTime() <= Date.now());
+
+/**
+ * Bandeja de invitaciones recibidas por un freelancer.
+ * Aceptar una invitación lleva al formulario de oferta de la propuesta.
+ */
+const InvitationsPage = () => {
+  const { getInvitations, respondToInvitation } = useJobs();
+  const { notifications } = useNotifications();
+  const navigate = useNavigate();
+  const [invitations, setInvitations] = useState<InvitationType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    setInvitations(await getInvitations());
+    setIsLoading(false);
+  }, [getInvitations]);
+
+  // Recargar cuando llega el aviso de una nueva invitación
+  const invitationNotifications = notifications.filter(n => n.type === 'job-invitation').length;
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations, invitationNotifications]);
+
+  const handleRespond = async (invitation: InvitationType, accept: boolean) => {
+    setRespondingId(invitation.id);
+    const updated = await respondToInvitation(invitation.id, accept);
+    setRespondingId(null);
+
+    if (!updated) return;
+
+    if (accept) {
+      navigate(`/jobs/${invitation.jobId}#enviar-oferta`);
+    } else {
+      setInvitations(prev => prev.map(i => i.id === updated.id ? { ...i, ...updated } : i));
+    }
+  };
+
+  const pending = invitations.filter(i => i.status === 'pending');
+  const answered = invitations.filter(i => i.status !== 'pending');
+
+  const renderInvitation = (invitation: InvitationType) => (
+    <div key={invitation.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <div className="flex items-start gap-3">
+        <Avatar className="h-10 w-10">
+          <AvatarImage src={invitation.invitedByPhoto || ''} alt={invitation.invitedByName} />
+          <AvatarFallback className="bg-wfc-purple-medium text-white">
+            {invitation.invitedByName?.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm">
+              <Link to={`/users/${invitation.invitedBy}`} className="font-medium hover:underline">
+                {invitation.invitedByName || 'Usuario'}
+              </Link>
+              {' '}te invita a{' '}
+              <Link to={`/jobs/${invitation.jobId}`} className="font-medium text-wfc-purple hover:underline">
+                {invitation.jobTitle}
+              </Link>
+            </p>
+            <Badge className={INVITATION_STATUS_CLASSES[invitation.status]}>
+              {INVITATION_STATUS_LABELS[invitation.status]}
+            </Badge>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{formatDate(invitation.createdAt)}</p>
+          {invitation.message && (
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line mt-2">{invitation.message}</p>
+          )}
+
+          {invitation.status === 'pending' && (
+            jobAcceptsProposals(invitation) ? (
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                  onClick={() => handleRespond(invitation, true)}
+                  disabled={respondingId === invitation.id}
+                >
+                  <Check className="h-4 w-4 mr-1" /> Aceptar y enviar oferta
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRespond(invitation, false)}
+                  disabled={respondingId === invitation.id}
+                >
+                  <X className="h-4 w-4 mr-1" /> Rechazar
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mt-3">
+                Esta propuesta ya no acepta ofertas.
+              </p>
+            )
+          )}
+          {invitation.status === 'accepted' && jobAcceptsProposals(invitation) && (
+            <Button
+              size="sm"
+              variant="link"
+              className="px-0 mt-2 text-wfc-purple"
+              onClick={() => navigate(`/jobs/${invitation.jobId}#enviar-oferta`)}
+            >
+              Ir a la propuesta
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Invitaciones</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Clientes que te han invitado a enviar una oferta a sus propuestas
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pendientes</CardTitle>
+            <CardDescription>
+              {pending.length} {pending.length === 1 ? 'invitación' : 'invitaciones'} por responder
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-24 w-full" />
+              </div>
+            ) : pending.length === 0 ? (
+              <p className="text-center text-gray-500 py-6">No tienes invitaciones pendientes</p>
+            ) : (
+              <div className="space-y-4">{pending.map(renderInvitation)}</div>
+            )}
+          </CardContent>
+        </Card>
+
+        {answered.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Respondidas</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">{answered.map(renderInvitation)}</div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default InvitationsPage;
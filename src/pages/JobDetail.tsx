@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -12,20 +12,46 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
-import { MessageCircle, Calendar, DollarSign, User } from 'lucide-react';
+import { MessageCircle, Calendar, DollarSign, User, Hourglass } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
-import { JobType } from '@/types';
+import { JobType, ProposalType, ReviewType } from '@/types';
 import { formatDate } from '@/lib/utils';
 import { CommentsList } from '@/components/Comments/CommentsList';
+import { ProposalForm } from '@/components/Proposals/ProposalForm';
+import { ProposalItem } from '@/components/Proposals/ProposalItem';
+import { ProposalsList } from '@/components/Proposals/ProposalsList';
 import { Skeleton } from '@/components/ui/skeleton';
+import { SaveJobButton } from '@/components/SaveJobButton';
+import { LikeJobButton } from '@/components/LikeJobButton';
+import { JobStatusTimeline } from '@/components/JobStatusTimeline';
+import { AttachmentList } from '@/components/Attachments/AttachmentList';
+import { DeadlineCountdown } from '@/components/DeadlineCountdown';
+import { InviteFreelancerDialog } from '@/components/Invitations/InviteFreelancerDialog';
+import { ReviewForm } from '@/components/Reviews/ReviewForm';
+import { ReviewsList } from '@/components/Reviews/ReviewsList';
+import { JOB_STATUS_CLASSES, JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { BUDGET_TYPE_LABELS, formatBudget } from '@/lib/budget';
 
 const JobDetail = () => {
   // Hooks de React Router para obtener el ID de la propuesta y navegación
   const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   
   // Hooks de contexto para acceder a datos y funcionalidades
-  const { getJobById, addComment, jobs, refreshJobs } = useJobs(); 
+  const { 
+    getJobById, 
+    loadJob,
+    addComment, 
+    jobs, 
+    getProposals,
+    sendProposal,
+    acceptProposal,
+    rejectProposal,
+    withdrawProposal,
+    getJobReviews,
+    submitReview
+  } = useJobs(); 
   const { currentUser } = useAuth(); // Información del usuario actual
   const { createPrivateChat } = useChat(); // Funcionalidades de chat
   const { getUserById } = useData(); // Para obtener datos de usuarios
@@ -38,10 +64,20 @@ const JobDetail = () => {
   const [error, setError] = useState<string | null>(null);
   const [isLoadingComments, setIsLoadingComments] = useState(false);
   
+  // Estados para las ofertas de freelancers
+  const [proposals, setProposals] = useState<ProposalType[]>([]);
+  const [isLoadingProposals, setIsLoadingProposals] = useState(false);
+  const [isSubmittingProposal, setIsSubmittingProposal] = useState(false);
+  const [isProcessingProposal, setIsProcessingProposal] = useState(false);
+  
+  // Valoraciones entre cliente y freelancer cuando la propuesta se completa
+  const [reviews, setReviews] = useState<ReviewType[]>([]);
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+  
   console.log("JobDetail: jobId =", jobId);
   console.log("JobDetail: jobs disponibles =", jobs?.length || 0);
   
-  // Cargar trabajo cuando se monta el componente
+  // Cargar trabajo desde el servidor (con sus comentarios) cuando se monta el componente
   useEffect(() => {
     const loadJobDetails = async () => {
       if (!jobId) {
@@ -51,14 +87,14 @@ const JobDetail = () => {
       }
       
       setIsLoading(true);
+      setIsLoadingComments(true);
       try {
-        // Intentar obtener el trabajo del caché local primero
-        const jobData = getJobById(jobId);
+        const jobData = await loadJob(jobId);
         
         if (jobData) {
-          console.log("Trabajo encontrado localmente:", jobData);
-          console.log("Fecha de creación:", jobData.createdAt);
+          console.log("Trabajo cargado:", jobData);
           setJob(jobData);
+          setError(null);
         } else {
           console.error("Trabajo no encontrado");
           setError("No se pudo encontrar la propuesta solicitada");
@@ -73,12 +109,50 @@ const JobDetail = () => {
         });
       } finally {
         setIsLoading(false);
+        setIsLoadingComments(false);
       }
     };
     
     loadJobDetails();
+  }, [jobId, loadJob]);
+
+  // Mantener la propuesta sincronizada con el contexto (comentarios, respuestas, cambios de estado)
+  useEffect(() => {
+    if (!jobId) return;
+    
+    const jobData = getJobById(jobId);
+    if (jobData) {
+      setJob(jobData);
+    }
   }, [jobId, getJobById, jobs]);
 
+  // Cargar ofertas: el dueño ve todas, un freelancer solo la suya
+  useEffect(() => {
+    if (!jobId || !currentUser) return;
+    
+    const loadProposals = async () => {
+      setIsLoadingProposals(true);
+      const proposalsData = await getProposals(jobId);
+      setProposals(proposalsData);
+      setIsLoadingProposals(false);
+    };
+    
+    loadProposals();
+  }, [jobId, currentUser, getProposals]);
+
+  // Las valoraciones solo existen en propuestas completadas
+  const isCompleted = job?.status === 'completed';
+  useEffect(() => {
+    if (!jobId || !isCompleted) return;
+    getJobReviews(jobId).then(setReviews);
+  }, [jobId, isCompleted, getJobReviews]);
+
+  // Al aceptar una invitación se llega con #enviar-oferta: ir directamente al formulario
+  useEffect(() => {
+    if (location.hash !== '#enviar-oferta' || isLoading || isLoadingProposals) return;
+    document.getElementById('enviar-oferta')?.scrollIntoView({ behavior: 'smooth' });
+  }, [location.hash, isLoading, isLoadingProposals]);
+
   // Obtener información del propietario de la propuesta
   const jobOwner = job ? getUserById(job.userId) : undefined;
   
@@ -244,38 +318,75 @@ const JobDetail = () => {
     
     setIsSubmittingComment(true);
     try {
-      // Llamar a la función para añadir el comentario a la propuesta
+      // El contexto actualiza la lista de comentarios y muestra el resultado
       const newComment = await addComment(job.id, commentText);
-      setCommentText(''); // Limpiar el campo de comentario
       
-      // Actualizar el estado local del trabajo para incluir el nuevo comentario
-      if (newComment && job) {
-        const updatedComments = [...(job.comments || []), newComment];
-        setJob({
-          ...job,
-          comments: updatedComments
-        });
-        
-        // También actualizar la lista completa de trabajos para mantener la coherencia
-        await refreshJobs();
+      // Solo limpiar el campo si el servidor guardó el comentario
+      if (newComment) {
+        setCommentText('');
       }
-      
-      toast({
-        title: "Comentario enviado",
-        description: "Tu comentario ha sido publicado correctamente"
-      });
-    } catch (error) {
-      console.error("Error al enviar comentario:", error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "No se pudo enviar el comentario"
-      });
     } finally {
       setIsSubmittingComment(false);
     }
   };
 
+  /**
+   * Funciones para gestionar las ofertas
+   */
+  const handleSendProposal = async (proposalData: Pick<ProposalType, 'coverLetter' | 'bidAmount' | 'estimatedDuration'>) => {
+    setIsSubmittingProposal(true);
+    const proposal = await sendProposal(job.id, proposalData);
+    if (proposal) {
+      setProposals([proposal]);
+    }
+    setIsSubmittingProposal(false);
+  };
+
+  const handleSubmitReview = async (rating: number, comment: string) => {
+    setIsSubmittingReview(true);
+    const review = await submitReview(job.id, rating, comment);
+    if (review) {
+      setReviews(prev => [...prev, review]);
+    }
+    setIsSubmittingReview(false);
+  };
+
+  const handleAcceptProposal = async (proposal: ProposalType) => {
+    setIsProcessingProposal(true);
+    const updatedJob = await acceptProposal(job.id, proposal.id);
+    if (updatedJob) {
+      setProposals(await getProposals(job.id));
+    }
+    setIsProcessingProposal(false);
+  };
+
+  const handleRejectProposal = async (proposal: ProposalType) => {
+    setIsProcessingProposal(true);
+    const updatedProposal = await rejectProposal(job.id, proposal.id);
+    if (updatedProposal) {
+      setProposals(prev => prev.map(p => p.id === updatedProposal.id ? updatedProposal : p));
+    }
+    setIsProcessingProposal(false);
+  };
+
+  const handleWithdrawProposal = async (proposal: ProposalType) => {
+    setIsProcessingProposal(true);
+    const success = await withdrawProposal(job.id, proposal.id);
+    if (success) {
+      setProposals([]);
+    }
+    setIsProcessingProposal(false);
+  };
+
+  const isOwner = currentUser?.id === job.userId;
+  const ownProposal = !isOwner ? proposals.find(p => p.userId === currentUser?.id) : undefined;
+  const deadlinePassed = !!job.deadline && new Date(job.deadline).getTime() <= Date.now();
+  const canSendProposal = currentUser?.role === 'freelancer' && !isOwner && !ownProposal && job.status === 'open' && !deadlinePassed;
+  // El cliente y el freelancer contratado se valoran una vez completada la propuesta
+  const hiredProposal = proposals.find(p => p.status === 'accepted');
+  const isParticipant = isOwner ? !!hiredProposal : ownProposal?.status === 'accepted';
+  const canReview = isCompleted && isParticipant && !reviews.some(review => review.reviewerId === currentUser?.id);
+
   // Renderizado del componente
   return (
     <MainLayout>
@@ -291,19 +402,30 @@ const JobDetail = () => {
             </div>
             
             <div className="flex items-center gap-2">
+              <LikeJobButton job={job} />
+              
+              {/* Guardar la propuesta para revisarla más tarde */}
+              <SaveJobButton jobId={job.id} showLabel />
+              
+              {/* El dueño puede invitar a freelancers mientras acepta ofertas */}
+              {isOwner && job.status === 'open' && !deadlinePassed && (
+                <InviteFreelancerDialog job={job} />
+              )}
+              
               {/* Badge que muestra el estado de la propuesta */}
-              <Badge className={`
-                ${job.status === 'open' ? 'bg-green-100 text-green-800 hover:bg-green-200' : 
-                  job.status === 'in progress' ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' : 
-                  'bg-gray-100 text-gray-800 hover:bg-gray-200'}
-              `}>
-                {job.status === 'open' ? 'Abierto' : 
-                 job.status === 'in progress' ? 'En progreso' : 
-                 'Completado'}
+              <Badge className={JOB_STATUS_CLASSES[job.status]}>
+                {JOB_STATUS_LABELS[job.status]}
               </Badge>
             </div>
           </div>
           
+          {/* Propuesta retirada por un moderador: solo la ven su autor y los administradores */}
+          {job.hiddenAt && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950 dark:border-amber-800 p-3 text-sm text-amber-800 dark:text-amber-200">
+              Un moderador ha ocultado esta propuesta por incumplir las normas de la comunidad. Ya no aparece en los listados.
+            </div>
+          )}
+          
           {/* Layout principal con contenido y sidebar */}
           <div className="grid md:grid-cols-3 gap-6">
             {/* Columna principal (2/3 del ancho) */}
@@ -332,6 +454,95 @@ const JobDetail = () => {
                 </CardContent>
               </Card>
               
+              {/* Archivos adjuntos por el cliente */}
+              {job.attachments && job.attachments.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Archivos adjuntos</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <AttachmentList attachments={job.attachments} />
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Ofertas recibidas (solo para el dueño de la propuesta) */}
+              {isOwner && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Ofertas recibidas</CardTitle>
+                    <CardDescription>
+                      {proposals.length} {proposals.length === 1 ? 'oferta' : 'ofertas'} de freelancers
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ProposalsList
+                      proposals={proposals}
+                      loading={isLoadingProposals}
+                      onAccept={job.status === 'open' ? handleAcceptProposal : undefined}
+                      onReject={handleRejectProposal}
+                      isProcessing={isProcessingProposal}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Oferta enviada por el freelancer actual */}
+              {ownProposal && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Tu oferta</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ProposalItem
+                      proposal={ownProposal}
+                      onWithdraw={handleWithdrawProposal}
+                      isProcessing={isProcessingProposal}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Formulario para enviar una oferta */}
+              {canSendProposal && !isLoadingProposals && (
+                <Card id="enviar-oferta" className="scroll-mt-4">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Enviar oferta</CardTitle>
+                    <CardDescription>
+                      Presenta tu oferta al cliente con tu precio y plazo estimado
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ProposalForm
+                      onSubmit={handleSendProposal}
+                      isSubmitting={isSubmittingProposal}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+              
+              {/* Valoraciones de la propuesta completada */}
+              {isCompleted && (reviews.length > 0 || canReview) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Valoraciones</CardTitle>
+                    {canReview && (
+                      <CardDescription>
+                        {isOwner
+                          ? `¿Qué tal fue trabajar con ${hiredProposal?.userName || 'el freelancer'}?`
+                          : `¿Qué tal fue trabajar con ${jobOwner?.name || 'el cliente'}?`}
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {canReview && (
+                      <ReviewForm onSubmit={handleSubmitReview} isSubmitting={isSubmittingReview} />
+                    )}
+                    {reviews.length > 0 && <ReviewsList reviews={reviews} />}
+                  </CardContent>
+                </Card>
+              )}
+              
               {/* Tarjeta de comentarios */}
               <Card>
                 <CardHeader>
@@ -386,7 +597,8 @@ const JobDetail = () => {
                     <DollarSign className="h-5 w-5 text-gray-500 mr-2" />
                     <div>
                       <h4 className="text-sm text-gray-600">Presupuesto</h4>
-                      <p className="font-medium">${job.budget}</p>
+                      <p className="font-medium">{formatBudget(job)}</p>
+                      <p className="text-xs text-gray-500">{BUDGET_TYPE_LABELS[job.budgetType || 'fixed']}</p>
                     </div>
                   </div>
                   {/* Fecha de publicación */}
@@ -397,6 +609,17 @@ const JobDetail = () => {
                       <p className="font-medium">{formatDate(job.createdAt)}</p>
                     </div>
                   </div>
+                  {/* Fecha límite para enviar ofertas */}
+                  {job.deadline && (
+                    <div className="flex items-center">
+                      <Hourglass className="h-5 w-5 text-gray-500 mr-2" />
+                      <div>
+                        <h4 className="text-sm text-gray-600">Fecha límite</h4>
+                        <p className="font-medium">{formatDate(job.deadline)}</p>
+                        {job.status === 'open' && <DeadlineCountdown deadline={job.deadline} />}
+                      </div>
+                    </div>
+                  )}
                   {/* Categoría */}
                   <div className="flex items-center">
                     <Badge className="bg-purple-100 text-purple-800 hover:bg-purple-200 mr-2">
@@ -407,6 +630,18 @@ const JobDetail = () => {
                 </CardContent>
               </Card>
               
+              {/* Historial de cambios de estado */}
+              {job.statusHistory && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Historial de estados</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <JobStatusTimeline history={job.statusHistory} />
+                  </CardContent>
+                </Card>
+              )}
+              
               {/* Tarjeta con información del cliente */}
               <Card>
                 <CardHeader>
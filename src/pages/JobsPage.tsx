@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import MainLayout from '@/components/Layout/MainLayout';
 import { useJobs } from '@/contexts/JobContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -10,68 +10,133 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { X } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
+import { JobType, JobFiltersType, JobFacetsType } from '@/types';
+import { JobFiltersPanel } from '@/components/JobFiltersPanel';
+import { SaveSearchDialog } from '@/components/SaveSearchDialog';
+import { parseFilters, serializeFilters } from '@/lib/jobFilters';
 
 const JobsPage = () => {
-  const { jobs, loading } = useJobs();
+  const { jobs, fetchJobsPage } = useJobs();
   const { currentUser } = useAuth();
-  const { getUserById } = useData();
-  const [searchQuery, setSearchQuery] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [filteredJobs, setFilteredJobs] = useState(jobs || []);
-  const [jobCategories, setJobCategories] = useState<string[]>([]);
+  const { getUserById, jobCategories } = useData();
+  // Los filtros viven en la URL para poder compartir una vista filtrada
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchParamsKey = searchParams.toString();
+  const filters = useMemo(() => parseFilters(new URLSearchParams(searchParamsKey)), [searchParamsKey]);
+  const [searchQuery, setSearchQuery] = useState(filters.search || '');
+  const [facets, setFacets] = useState<JobFacetsType | undefined>(undefined);
+  // Páginas del listado cargadas hasta ahora con los filtros actuales
+  const [feedJobs, setFeedJobs] = useState<JobType[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingFirstPage, setIsLoadingFirstPage] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Cambia con cada primera página, para descartar las páginas siguientes de filtros anteriores
+  const feedRequestRef = useRef(0);
 
-  // Extraer categorías únicas de los trabajos
+  const updateFilters = useCallback((changes: Partial<JobFiltersType>) => {
+    setSearchParams(prev => serializeFilters({ ...parseFilters(prev), ...changes }), { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  // Esperar a que el usuario deje de escribir antes de buscar en el servidor
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const query = searchQuery.trim();
+      updateFilters({ search: query || undefined });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, updateFilters]);
+
+  // Al cambiar los filtros, empezar de nuevo desde la primera página
   useEffect(() => {
-    if (jobs && jobs.length > 0) {
-      const categories = [...new Set(jobs.map(job => job.category))];
-      setJobCategories(categories);
+    let cancelled = false;
+    feedRequestRef.current += 1;
+    setIsLoadingFirstPage(true);
+    
+    fetchJobsPage(filters, null, true).then(page => {
+      // Ignorar respuestas de filtros que ya no son los actuales
+      if (cancelled) return;
+      setFeedJobs(page.jobs);
+      setNextCursor(page.nextCursor);
+      setFacets(page.facets);
+      setIsLoadingFirstPage(false);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, fetchJobsPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    
+    setIsLoadingMore(true);
+    const feedRequest = feedRequestRef.current;
+    const page = await fetchJobsPage(filters, nextCursor);
+    
+    // Los filtros han cambiado mientras se cargaba: la página ya no corresponde al listado
+    if (feedRequest !== feedRequestRef.current) {
+      setIsLoadingMore(false);
+      return;
     }
-  }, [jobs]);
+    
+    setFeedJobs(prevJobs => [
+      ...prevJobs,
+      ...page.jobs.filter(job => !prevJobs.some(j => j.id === job.id))
+    ]);
+    setNextCursor(page.nextCursor);
+    setIsLoadingMore(false);
+  }, [filters, nextCursor, isLoadingMore, fetchJobsPage]);
 
-  // Enriquecer los trabajos con información de usuario
-  const enrichedJobs = React.useMemo(() => {
-    if (!jobs) return [];
+  // Scroll infinito: cargar la siguiente página cuando el final de la lista es visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
     
-    return jobs.map(job => {
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  // Enriquecer los trabajos con información de usuario
+  const filteredJobs = useMemo(() => {
+    return feedJobs.map(job => {
       const user = getUserById(job.userId);
+      // La caché del contexto tiene el estado más reciente (me gusta, edición, etc.)
+      const contextJob = jobs.find(j => j.id === job.id);
       return {
         ...job,
+        ...contextJob,
+        searchSnippet: job.searchSnippet,
         userName: user?.name || job.userName || 'Usuario'
       };
     });
-  }, [jobs, getUserById]);
-
-  useEffect(() => {
-    if (!enrichedJobs) return;
-    
-    let results = enrichedJobs;
-    if (searchQuery) {
-      results = results.filter(job => 
-        job.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-        job.description.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-    if (categoryFilter !== 'all') {
-      results = results.filter(job => job.category === categoryFilter);
-    }
-    setFilteredJobs(results);
-  }, [enrichedJobs, searchQuery, categoryFilter]);
-
-  if (loading) {
-    return <MainLayout>Cargando...</MainLayout>;
-  }
+  }, [feedJobs, jobs, getUserById]);
 
   return (
     <MainLayout>
       <div className="container mx-auto py-8">
         <div className="flex justify-between items-center mb-4">
           <h1 className="text-2xl font-bold dark:text-white">Explorar Trabajos</h1>
-          {currentUser?.role === 'client' && (
-            <Link to="/jobs/create">
-              <Button>Publicar un Trabajo</Button>
-            </Link>
-          )}
+          <div className="flex items-center space-x-2">
+            <SaveSearchDialog filters={filters} />
+            {currentUser?.role === 'client' && (
+              <Link to="/jobs/create">
+                <Button>Publicar un Trabajo</Button>
+              </Link>
+            )}
+          </div>
         </div>
 
         <div className="mb-4 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
@@ -82,8 +147,11 @@ const JobsPage = () => {
             onChange={(e) => setSearchQuery(e.target.value)}
             className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
           />
-          <Select onValueChange={setCategoryFilter} defaultValue={categoryFilter}>
-            <SelectTrigger className="w-full sm:w-[180px] dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+          <Select 
+            onValueChange={(value) => updateFilters({ category: value !== 'all' ? value : undefined })} 
+            value={filters.category || 'all'}
+          >
+            <SelectTrigger className="w-full sm:w-[220px] dark:bg-gray-800 dark:border-gray-700 dark:text-white">
               <SelectValue placeholder="Filtrar por categoría" />
             </SelectTrigger>
             <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
@@ -96,7 +164,7 @@ const JobsPage = () => {
                   value={category} 
                   className="dark:text-white dark:focus:text-white dark:focus:bg-gray-700"
                 >
-                  {category}
+                  {category} ({facets?.category.find(facet => facet.value === category)?.count ?? 0})
                 </SelectItem>
               ))}
             </SelectContent>
@@ -104,27 +172,59 @@ const JobsPage = () => {
         </div>
 
         <div className="mb-4">
-          {categoryFilter !== 'all' && (
+          {filters.category && (
             <Badge variant="secondary" className="mr-2 mb-2 dark:bg-gray-700 dark:text-white">
-              {categoryFilter}
-              <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => setCategoryFilter('all')} />
+              {filters.category}
+              <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => updateFilters({ category: undefined })} />
             </Badge>
           )}
+          {filters.skills?.map(skill => (
+            <Badge key={skill} variant="secondary" className="mr-2 mb-2 dark:bg-gray-700 dark:text-white">
+              {skill}
+              <X 
+                className="h-3 w-3 ml-1 cursor-pointer" 
+                onClick={() => {
+                  const skills = filters.skills?.filter(s => s !== skill);
+                  updateFilters({ skills: skills?.length ? skills : undefined });
+                }} 
+              />
+            </Badge>
+          ))}
         </div>
           
-        <div className="space-y-4">
-          {filteredJobs && filteredJobs.length > 0 ? (
-            filteredJobs.map(job => (
-              <JobCard 
-                key={job.id} 
-                job={job}
-              />
-            ))
-          ) : (
-            <div className="text-center py-8 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-              <p className="text-gray-500 dark:text-gray-400">No se encontraron propuestas con los criterios seleccionados</p>
-            </div>
-          )}
+        <div className="grid md:grid-cols-4 gap-6">
+          <aside className="md:col-span-1">
+            <JobFiltersPanel 
+              filters={filters} 
+              facets={facets} 
+              onChange={updateFilters} 
+              onClear={clearFilters} 
+            />
+          </aside>
+          
+          <div className="md:col-span-3 space-y-4">
+            {isLoadingFirstPage ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">Cargando...</div>
+            ) : filteredJobs.length > 0 ? (
+              <>
+                {filteredJobs.map(job => (
+                  <JobCard 
+                    key={job.id} 
+                    job={job}
+                  />
+                ))}
+                
+                {/* Marcador para el scroll infinito */}
+                <div ref={sentinelRef} className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                  {isLoadingMore ? 'Cargando más propuestas...' : nextCursor ? '' : 'No hay más propuestas'}
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-8 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <p className="text-gray-500 dark:text-gray-400">No se encontraron propuestas con los criterios seleccionados</p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </MainLayout>
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import MainLayout from '@/components/Layout/MainLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/components/ui/use-toast';
+import { Ban, Check, EyeOff, ExternalLink, Undo2 } from 'lucide-react';
+import { moderationService } from '@/services/api';
+import { REPORT_REASON_LABELS, REPORT_STATUS_LABELS, REPORT_TARGET_LABELS } from '@/lib/moderation';
+import { ReportStatus, ReportType } from '@/types';
+import { formatDate } from '@/lib/utils';
+
+// Dónde ver el contenido denunciado (los mensajes solo los ven los participantes del chat)
+const contentLink = (report: ReportType) => {
+  if (report.targetType === 'user') return `/users/${report.targetId}`;
+  if (report.jobId) return `/jobs/${report.jobId}`;
+  return null;
+};
+
+/**
+ * Cola de moderación para administradores.
+ * Cada denuncia permite ocultar el contenido, descartarla o suspender la cuenta denunciada;
+ * ocultar o descartar cierra también las demás denuncias pendientes del mismo contenido.
+ */
+const ModerationPage = () => {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<ReportType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReports(await moderationService.getReports(status));
+    } catch (error) {
+      console.error('Error al cargar las denuncias:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudieron cargar las denuncias"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  // Ejecutar una acción de moderación y recargar la cola
+  const runAction = async (report: ReportType, action: () => Promise<unknown>, successMessage: string) => {
+    setWorkingId(report.id);
+    try {
+      await action();
+      toast({ title: successMessage });
+      await loadReports();
+    } catch (error) {
+      console.error('Error en la acción de moderación:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo completar la acción"
+      });
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const renderReport = (report: ReportType) => {
+    const link = contentLink(report);
+    const isWorking = workingId === report.id;
+
+    return (
+      <Card key={report.id}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{REPORT_TARGET_LABELS[report.targetType]}</Badge>
+              <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{REPORT_REASON_LABELS[report.reason]}</Badge>
+              {report.targetHiddenAt && <Badge variant="secondary">Oculto</Badge>}
+            </div>
+            <span className="text-xs text-gray-500">{formatDate(report.createdAt)}</span>
+          </div>
+
+          {report.snapshot && (
+            <blockquote className="border-l-4 border-gray-200 dark:border-gray-700 pl-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line line-clamp-6">
+              {report.snapshot}
+            </blockquote>
+          )}
+
+          {report.note && (
+            <p className="text-sm">
+              <span className="font-medium">Nota: </span>
+              {report.note}
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Denunciado por{' '}
+              <Link to={`/users/${report.reporterId}`} className="font-medium hover:underline">
+                {report.reporterName || 'Usuario'}
+              </Link>
+            </span>
+            {report.targetUserId && (
+              <span className="flex items-center gap-2">
+                Cuenta denunciada:
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={report.targetUserPhoto || ''} alt={report.targetUserName || ''} />
+                  <AvatarFallback className="bg-wfc-purple-medium text-white text-xs">
+                    {report.targetUserName?.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <Link to={`/users/${report.targetUserId}`} className="font-medium hover:underline">
+                  {report.targetUserName || 'Usuario'}
+                </Link>
+                {report.targetUserSuspendedAt && <Badge variant="destructive">Suspendida</Badge>}
+              </span>
+            )}
+            {link && (
+              <Link to={link} className="flex items-center text-wfc-purple hover:underline">
+                <ExternalLink className="h-4 w-4 mr-1" />
+                Ver contenido
+              </Link>
+            )}
+          </div>
+
+          {report.status !== 'open' && (
+            <p className="text-xs text-gray-500">
+              {report.status === 'dismissed'
+                ? 'Descartada'
+                : report.resolution === 'suspended' ? 'Resuelta suspendiendo la cuenta' : 'Resuelta ocultando el contenido'}
+              {report.resolvedAt && ` el ${formatDate(report.resolvedAt)}`}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {report.status === 'open' && report.targetType !== 'user' && (
+              <Button
+                size="sm"
+                className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                disabled={isWorking}
+                onClick={() => runAction(report, () => moderationService.hideContent(report.id), 'Contenido ocultado')}
+              >
+                <EyeOff className="h-4 w-4 mr-1" /> Ocultar contenido
+              </Button>
+            )}
+            {report.status === 'open' && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => runAction(report, () => moderationService.dismissReport(report.id), 'Denuncia descartada')}
+              >
+                <Check className="h-4 w-4 mr-1" /> Descartar
+              </Button>
+            )}
+            {report.targetUserId && !report.targetUserSuspendedAt && report.status === 'open' && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="destructive" disabled={isWorking}>
+                    <Ban className="h-4 w-4 mr-1" /> Suspender cuenta
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Suspender a {report.targetUserName || 'este usuario'}</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      No podrá iniciar sesión hasta que se levante la suspensión. Se resolverán todas las denuncias pendientes contra esta cuenta.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-red-600 hover:bg-red-700"
+                      onClick={() => runAction(
+                        report,
+                        () => moderationService.suspendUser(report.targetUserId as string),
+                        'Cuenta suspendida'
+                      )}
+                    >
+                      Suspender
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            {report.targetUserId && report.targetUserSuspendedAt && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => runAction(
+                  report,
+                  () => moderationService.unsuspendUser(report.targetUserId as string),
+                  'Suspensión levantada'
+                )}
+              >
+                <Undo2 className="h-4 w-4 mr-1" /> Levantar suspensión
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Moderación</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Denuncias de propuestas, comentarios, mensajes y usuarios
+          </p>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+          <TabsList>
+            {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map((value) => (
+              <TabsTrigger key={value} value={value}>{REPORT_STATUS_LABELS[value]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            {status === 'open' ? 'No hay denuncias pendientes' : 'No hay denuncias en esta lista'}
+          </p>
+        ) : (
+          <div className="space-y-4">{reports.map(renderReport)}</div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ModerationPage;
@@ -12,10 +12,10 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/components/ui/use-toast';
-import { X, Camera, Edit, Trash2, AlertTriangle, Upload } from 'lucide-react';
+import { X, Camera, Edit, Trash2, AlertTriangle, Upload, BookmarkMinus, RefreshCw, Copy } from 'lucide-react';
 import { useJobs } from '@/contexts/JobContext';
-import { Link } from 'react-router-dom';
-import { JobType } from '@/types';
+import { Link, useNavigate } from 'react-router-dom';
+import { JobType, UserReviewsType } from '@/types';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
@@ -29,20 +29,30 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import EditJobForm from '@/components/EditJobForm';
+import { JOB_STATUS_CLASSES, JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { formatBudget } from '@/lib/budget';
+import { DeadlineCountdown } from '@/components/DeadlineCountdown';
+import { UserReviewsCard } from '@/components/Reviews/UserReviewsCard';
 
 const ProfilePage = () => {
   const { currentUser, updateUserProfile, uploadProfilePhoto } = useAuth();
+  const navigate = useNavigate();
   const { skillsList, loadData } = useData();
-  const { userJobs = [], refreshJobs, updateJob, deleteJob } = useJobs();
+  const { 
+    userJobs = [], savedJobs, unsaveJob, refreshJobs, updateJob, deleteJob,
+    loadJob, addJobAttachments, removeJobAttachment, renewJob, duplicateJob, getUserReviews
+  } = useJobs();
   
   const [isUpdating, setIsUpdating] = useState(false);
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [savedJobs, setSavedJobs] = useState<JobType[]>([]);
   const [selectedSkill, setSelectedSkill] = useState('');
   const [editingJob, setEditingJob] = useState<JobType | null>(null);
   const [isSubmittingJob, setIsSubmittingJob] = useState(false);
+  const [renewingJobId, setRenewingJobId] = useState<string | null>(null);
+  const [duplicatingJobId, setDuplicatingJobId] = useState<string | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [reviewsData, setReviewsData] = useState<UserReviewsType | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -51,6 +61,7 @@ const ProfilePage = () => {
     email: currentUser?.email || '',
     bio: currentUser?.bio || '',
     skills: currentUser?.skills || [],
+    hourlyRate: currentUser?.hourlyRate ? String(currentUser.hourlyRate) : '',
   });
 
   useEffect(() => {
@@ -60,48 +71,42 @@ const ProfilePage = () => {
         email: currentUser.email || '',
         bio: currentUser.bio || '',
         skills: Array.isArray(currentUser.skills) ? currentUser.skills : [],
+        hourlyRate: currentUser.hourlyRate ? String(currentUser.hourlyRate) : '',
       });
     }
   }, [currentUser]);
-
-  useEffect(() => {
-    // Filter userJobs to only include those that belong to the current user
-    const filteredJobs = Array.isArray(userJobs) 
-      ? userJobs.filter(job => job.userId === currentUser?.id)
-      : [];
-    
-    const loadSavedJobs = async () => {
-      if (currentUser) {
-        try {
-          // Si tienes una función para obtener trabajos guardados, úsala
-          // const saved = await getSavedJobs(currentUser.id);
-          // Mientras tanto, usamos un array vacío o simulamos datos
-          const saved: JobType[] = [];
-          setSavedJobs(saved);
-        } catch (error) {
-          console.error('Error loading saved jobs:', error);
-        }
-      }
-    };
-    
-    loadSavedJobs();
-  }, [userJobs, currentUser]);
   
-  const handleEditJob = (job: JobType) => {
+  // Valoraciones recibidas (también alimentan la calificación de las estadísticas)
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (currentUserId) {
+      getUserReviews(currentUserId).then(setReviewsData);
+    }
+  }, [currentUserId, getUserReviews]);
+
+  const handleEditJob = async (job: JobType) => {
     setEditingJob(job);
+    // El listado no trae los adjuntos: cargarlos del detalle
+    const fullJob = await loadJob(job.id);
+    if (fullJob) {
+      setEditingJob(current => current?.id === fullJob.id ? fullJob : current);
+    }
   };
   
   const handleCancelEdit = () => {
     setEditingJob(null);
   };
   
-  const handleUpdateJob = async (jobData: Partial<JobType>) => {
+  const handleUpdateJob = async (jobData: Partial<JobType> & { statusReason?: string }, newAttachments: File[]) => {
     if (!editingJob) return;
     
     setIsSubmittingJob(true);
     try {
       // Use the updateJob function from JobContext
       await updateJob(editingJob.id, jobData);
+      if (newAttachments.length > 0) {
+        await addJobAttachments(editingJob.id, newAttachments);
+      }
       await refreshJobs();
       setEditingJob(null);
       toast({
@@ -119,6 +124,24 @@ const ProfilePage = () => {
     }
   };
   
+  // Reabrir con un clic una propuesta vencida (el servidor le da un nuevo plazo)
+  const handleRenewJob = async (jobId: string) => {
+    setRenewingJobId(jobId);
+    await renewJob(jobId);
+    setRenewingJobId(null);
+  };
+  
+  // El duplicado es un borrador que se termina de editar en la página de creación
+  const handleDuplicateJob = async (jobId: string) => {
+    setDuplicatingJobId(jobId);
+    const draft = await duplicateJob(jobId);
+    setDuplicatingJobId(null);
+    
+    if (draft) {
+      navigate(`/jobs/create?draft=${draft.id}`);
+    }
+  };
+  
   const handleDeleteJob = async (jobId: string) => {
     try {
       // Use the deleteJob function from JobContext
@@ -148,6 +171,7 @@ const ProfilePage = () => {
         name: profileForm.name,
         bio: profileForm.bio,
         skills: profileForm.skills,
+        hourlyRate: profileForm.hourlyRate !== '' ? Number(profileForm.hourlyRate) : undefined,
       });
       
       toast({
@@ -250,10 +274,12 @@ const ProfilePage = () => {
     );
   }
 
-  // Extract userJobs for this user only
-  const myJobs = Array.isArray(userJobs) 
+  // Extract userJobs for this user only (drafts are listed separately)
+  const ownJobs = Array.isArray(userJobs) 
     ? userJobs.filter(job => job.userId === currentUser.id)
     : [];
+  const myJobs = ownJobs.filter(job => job.status !== 'draft');
+  const myDrafts = ownJobs.filter(job => job.status === 'draft');
 
   return (
     <MainLayout>
@@ -310,6 +336,24 @@ const ProfilePage = () => {
                       />
                     </div>
                     
+                    {currentUser?.role === 'freelancer' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="hourlyRate" className="dark:text-gray-200">Tarifa por hora ($)</Label>
+                        <Input
+                          id="hourlyRate"
+                          type="number"
+                          min="0"
+                          placeholder="Ej: 25"
+                          value={profileForm.hourlyRate}
+                          onChange={(e) => setProfileForm({...profileForm, hourlyRate: e.target.value})}
+                          className="dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                        />
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Los clientes pueden filtrar el directorio de freelancers por tarifa
+                        </p>
+                      </div>
+                    )}
+                    
                     <div className="space-y-2">
                       <Label className="dark:text-gray-200">Habilidades</Label>
                       <div className="flex flex-wrap gap-2 mb-2">
@@ -358,6 +402,10 @@ const ProfilePage = () => {
                     </Button>
                   </CardContent>
                 </Card>
+                
+                <div className="mt-6">
+                  <UserReviewsCard data={reviewsData} />
+                </div>
               </div>
               
               <div className="space-y-6">
@@ -435,7 +483,9 @@ const ProfilePage = () => {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-300">Calificación</span>
-                        <span className="font-medium dark:text-white">5.0 ⭐</span>
+                        <span className="font-medium dark:text-white">
+                          {reviewsData?.averageRating != null ? `${reviewsData.averageRating.toFixed(1)} ⭐` : 'Sin valoraciones'}
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-300">Miembro desde</span>
@@ -450,7 +500,76 @@ const ProfilePage = () => {
             </div>
           </TabsContent>
           
-          <TabsContent value="proposals" className="mt-6">
+          <TabsContent value="proposals" className="mt-6 space-y-6">
+            {myDrafts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="dark:text-white">Borradores</CardTitle>
+                  <CardDescription className="dark:text-gray-300">
+                    Propuestas sin publicar. Solo tú puedes verlas.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {myDrafts.map((draft) => (
+                    <div 
+                      key={draft.id}
+                      className="border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4 flex flex-col md:flex-row md:items-center justify-between gap-3"
+                    >
+                      <div>
+                        <h3 className="font-medium dark:text-white">{draft.title || 'Sin título'}</h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Guardado el {new Date(draft.updatedAt).toLocaleString('es-ES')}
+                        </p>
+                        {draft.publishAt && (
+                          <p className="text-sm text-wfc-purple mt-1">
+                            Se publicará el {new Date(draft.publishAt).toLocaleString('es-ES')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex space-x-3">
+                        <Button asChild size="sm" className="bg-wfc-purple hover:bg-wfc-purple-medium">
+                          <Link to={`/jobs/create?draft=${draft.id}`}>
+                            <Edit className="h-4 w-4 mr-1" /> Continuar
+                          </Link>
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white dark:text-red-400 dark:border-red-400 dark:hover:bg-red-800"
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" /> Descartar
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                            <AlertDialogHeader>
+                              <AlertDialogTitle className="dark:text-white flex items-center">
+                                <AlertTriangle className="h-5 w-5 mr-2 text-red-500" />
+                                Descartar borrador
+                              </AlertDialogTitle>
+                              <AlertDialogDescription className="dark:text-gray-300">
+                                ¿Seguro que quieres descartar este borrador? Esta acción no se puede deshacer.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel className="dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600">Cancelar</AlertDialogCancel>
+                              <AlertDialogAction 
+                                onClick={() => handleDeleteJob(draft.id)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Descartar
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+            
             <Card>
               <CardHeader>
                 <CardTitle className="dark:text-white">Mis Propuestas</CardTitle>
@@ -477,6 +596,7 @@ const ProfilePage = () => {
                         <EditJobForm 
                           job={editingJob}
                           onSubmit={handleUpdateJob}
+                          onRemoveAttachment={(attachment) => removeJobAttachment(editingJob.id, attachment.id)}
                           onCancel={handleCancelEdit}
                           isSubmitting={isSubmittingJob}
                         />
@@ -497,21 +617,33 @@ const ProfilePage = () => {
                               <p className="text-sm text-gray-500 dark:text-gray-400">
                                 Publicado el {job.timestamp ? formatDate(job.timestamp) : "-"} • {job.comments?.length || 0} comentarios
                               </p>
+                              {job.status === 'open' && job.deadline && (
+                                <DeadlineCountdown deadline={job.deadline} className="mt-1" />
+                              )}
+                              {job.status === 'expired' && job.deadline && (
+                                <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
+                                  El plazo para recibir ofertas venció el {formatDate(new Date(job.deadline).getTime())}
+                                </p>
+                              )}
                             </div>
                             <div className="mt-2 md:mt-0">
-                              <Badge className={`
-                                ${job.status === 'open' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 
-                                  job.status === 'in progress' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 
-                                  'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}
-                              `}>
-                                {job.status === 'open' ? 'Abierto' : 
-                                  job.status === 'in progress' ? 'En progreso' : 
-                                  'Completado'}
+                              <Badge className={JOB_STATUS_CLASSES[job.status]}>
+                                {JOB_STATUS_LABELS[job.status]}
                               </Badge>
                             </div>
                           </div>
                           
                           <div className="flex mt-4 space-x-3">
+                            {job.status === 'expired' && (
+                              <Button 
+                                size="sm" 
+                                onClick={() => handleRenewJob(job.id)}
+                                disabled={renewingJobId === job.id}
+                                className="bg-wfc-purple hover:bg-wfc-purple-medium"
+                              >
+                                <RefreshCw className={`h-4 w-4 mr-1 ${renewingJobId === job.id ? 'animate-spin' : ''}`} /> Renovar
+                              </Button>
+                            )}
                             <Button 
                               variant="outline" 
                               size="sm" 
@@ -520,6 +652,14 @@ const ProfilePage = () => {
                             >
                               <Edit className="h-4 w-4 mr-1" /> Editar
                             </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => handleDuplicateJob(job.id)}
+                              disabled={duplicatingJobId === job.id}
+                            >
+                              <Copy className="h-4 w-4 mr-1" /> Duplicar
+                            </Button>
                             
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
@@ -583,7 +723,47 @@ const ProfilePage = () => {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {/* Contenido de trabajos guardados */}
+                    {savedJobs.map((job) => (
+                      <div 
+                        key={job.id} 
+                        className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:border-wfc-purple dark:hover:border-wfc-purple"
+                      >
+                        <div className="flex flex-col md:flex-row justify-between">
+                          <div>
+                            <h3 className="font-medium dark:text-white">
+                              <Link to={`/jobs/${job.id}`} className="hover:text-wfc-purple">
+                                {job.title}
+                              </Link>
+                            </h3>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {job.userName || 'Usuario'} • {formatDate(new Date(job.createdAt).getTime())} • {formatBudget(job)}
+                            </p>
+                          </div>
+                          <div className="mt-2 md:mt-0">
+                            <Badge className={`
+                              ${job.status === 'open' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 
+                                job.status === 'in progress' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 
+                                'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}
+                            `}>
+                              {job.status === 'open' ? 'Abierto' : 
+                                job.status === 'in progress' ? 'En progreso' : 
+                                'Completado'}
+                            </Badge>
+                          </div>
+                        </div>
+                        
+                        <div className="flex mt-4 space-x-3">
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={() => unsaveJob(job.id)}
+                            className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white dark:text-red-400 dark:border-red-400 dark:hover:bg-red-800"
+                          >
+                            <BookmarkMinus className="h-4 w-4 mr-1" /> Quitar
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 )}
               </CardContent>
@@ -10,11 +10,17 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { MessageCircle, Calendar, Verified } from 'lucide-react';
+import { MessageCircle, Calendar, Verified, Flag } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { formatDate } from '@/lib/utils';
-import { UserType, JobType } from '@/types';
+import { JOB_STATUS_CLASSES, JOB_STATUS_LABELS } from '@/lib/jobStatus';
+import { UserType, JobType, UserReviewsType } from '@/types';
 import { Skeleton } from '@/components/ui/skeleton';
+import { InviteFreelancerDialog } from '@/components/Invitations/InviteFreelancerDialog';
+import { UserReviewsCard } from '@/components/Reviews/UserReviewsCard';
+import { RatingBadge } from '@/components/Reviews/RatingBadge';
+import { PortfolioGallery } from '@/components/Portfolio/PortfolioGallery';
+import { ReportDialog } from '@/components/Moderation/ReportDialog';
 
 /**
  * Componente de Página de Perfil de Usuario
@@ -22,6 +28,7 @@ import { Skeleton } from '@/components/ui/skeleton';
  * Esta página muestra el perfil de otro usuario incluyendo:
  * - Información personal del usuario y foto de perfil
  * - Biografía y habilidades del usuario
+ * - Portafolio de los freelancers (editable en el propio perfil)
  * - Botón para contactar/chatear con el usuario
  * - Lista de propuestas publicadas por el usuario
  * 
@@ -35,7 +42,7 @@ const UserProfile = () => {
   
   // Hooks de contexto para acceder a datos y funcionalidades
   const { getUserById } = useData(); // Para obtener datos del usuario
-  const { jobs } = useJobs(); // Para obtener propuestas
+  const { fetchJobsPage, getUserReviews } = useJobs(); // Para obtener propuestas y valoraciones
   const { currentUser } = useAuth(); // Usuario actual autenticado
   const { createPrivateChat, findExistingChat } = useChat(); // Funcionalidades de chat
   const { toast } = useToast();
@@ -43,6 +50,7 @@ const UserProfile = () => {
   // Estados para manejo de carga y datos
   const [profileUser, setProfileUser] = useState<UserType | null>(null);
   const [userJobs, setUserJobs] = useState<JobType[]>([]);
+  const [reviewsData, setReviewsData] = useState<UserReviewsType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Efecto para cargar datos del usuario y sus propuestas
@@ -53,15 +61,23 @@ const UserProfile = () => {
         const user = getUserById(userId);
         setProfileUser(user || null);
         
-        // Filtrar propuestas de este usuario
-        const jobsByUser = jobs.filter(job => job.userId === userId);
-        setUserJobs(jobsByUser);
+        // Pedir al servidor las propuestas de este usuario (primera página)
+        const page = await fetchJobsPage({ userId });
+        // En el propio perfil el servidor incluye los borradores, que no son públicos
+        setUserJobs(page.jobs.filter(job => job.status !== 'draft'));
       }
       setIsLoading(false);
     };
     
     fetchProfileUser();
-  }, [userId, getUserById, jobs]);
+  }, [userId, getUserById, fetchJobsPage]);
+  
+  // Valoraciones recibidas por el usuario
+  useEffect(() => {
+    if (!userId) return;
+    setReviewsData(null);
+    getUserReviews(userId).then(setReviewsData);
+  }, [userId, getUserReviews]);
   
   /**
    * Manejar el clic en el botón "Contactar"
@@ -187,6 +203,10 @@ const UserProfile = () => {
                     <Verified className="ml-1 h-5 w-5 text-blue-500" />
                   )}
                 </h2>
+                <RatingBadge userId={profileUser.id} className="mt-1" />
+                {profileUser.role === 'freelancer' && !!profileUser.hourlyRate && (
+                  <p className="text-sm text-gray-500 mt-1">${profileUser.hourlyRate}/h</p>
+                )}
                 
                 {/* Solo mostrar botón de contacto si no es el usuario actual */}
                 {currentUser && currentUser.id !== userId && (
@@ -198,6 +218,23 @@ const UserProfile = () => {
                     Contactar
                   </Button>
                 )}
+                
+                {/* Invitar al freelancer a enviar una oferta a una propuesta propia */}
+                {currentUser && currentUser.id !== userId && profileUser.role === 'freelancer' && (
+                  <div className="mt-2 w-full [&>button]:w-full">
+                    <InviteFreelancerDialog freelancer={profileUser} />
+                  </div>
+                )}
+                
+                {/* Denunciar la cuenta a los moderadores */}
+                {currentUser && currentUser.id !== userId && (
+                  <ReportDialog targetType="user" targetId={profileUser.id}>
+                    <Button variant="ghost" size="sm" className="mt-2 w-full text-gray-500 hover:text-red-600">
+                      <Flag className="h-4 w-4 mr-2" />
+                      Denunciar usuario
+                    </Button>
+                  </ReportDialog>
+                )}
               </div>
               
               {/* Información del usuario */}
@@ -253,6 +290,14 @@ const UserProfile = () => {
           </CardContent>
         </Card>
         
+        {/* Portafolio: el propio freelancer puede añadir trabajos y reordenarlos */}
+        {profileUser.role === 'freelancer' && (
+          <PortfolioGallery userId={profileUser.id} editable={currentUser?.id === profileUser.id} />
+        )}
+        
+        {/* Valoraciones recibidas */}
+        <UserReviewsCard data={reviewsData} />
+        
         {/* Propuestas del usuario */}
         <Card>
           <CardHeader>
@@ -279,14 +324,8 @@ const UserProfile = () => {
                         </p>
                       </div>
                       <div className="mt-2 md:mt-0">
-                        <Badge className={`
-                          ${job.status === 'open' ? 'bg-green-100 text-green-800' : 
-                            job.status === 'in progress' ? 'bg-blue-100 text-blue-800' : 
-                            'bg-gray-100 text-gray-800'}
-                        `}>
-                          {job.status === 'open' ? 'Abierto' : 
-                            job.status === 'in progress' ? 'En progreso' : 
-                            'Completado'}
+                        <Badge className={JOB_STATUS_CLASSES[job.status]}>
+                          {JOB_STATUS_LABELS[job.status]}
                         </Badge>
                       </div>
                     </div>
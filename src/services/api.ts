@@ -1,5 +1,16 @@
 
 import axios from 'axios';
+import {
+  FreelancerFiltersType,
+  MessageReactionType,
+  MessagesPageType,
+  PortfolioFileType,
+  PortfolioItemType,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+  ReportType
+} from '@/types';
 
 // Create axios instance with base URL
 const api = axios.create({
@@ -26,6 +37,11 @@ api.interceptors.response.use(
         window.location.href = '/login';
       }
     }
+    // Cuenta suspendida por un moderador: cerrar la sesión
+    if (error.response && error.response.status === 403 && error.response.data?.suspended) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
     return Promise.reject(error);
   }
 );
@@ -63,6 +79,17 @@ export const userService = {
     return response.data;
   },
   
+  getFreelancers: async (filters: FreelancerFiltersType = {}) => {
+    const response = await api.get('/users/freelancers', {
+      params: {
+        ...filters,
+        skills: filters.skills?.length ? filters.skills.join(',') : undefined,
+        online: filters.online || undefined
+      }
+    });
+    return response.data;
+  },
+  
   updateProfile: async (userData: any) => {
     const response = await api.put('/users/profile', userData);
     return response.data;
@@ -110,18 +137,23 @@ export const chatService = {
   deleteChat: async (chatId: string) => {
     const response = await api.delete(`/chats/${chatId}`);
     return response.data;
+  },
+  
+  // Avanza el cursor de lectura del usuario (por defecto, hasta el último mensaje)
+  markAsRead: async (chatId: string, messageId?: string) => {
+    const response = await api.put(`/chats/${chatId}/read`, { messageId });
+    return response.data;
   }
 };
 
 export const messageService = {
-  getMessages: async (chatId: string) => {
-    try {
-      const response = await api.get(`/messages/${chatId}`);
-      return response.data;
-    } catch (err) {
-      console.error("Error fetching messages:", err);
-      return [];
-    }
+  // Sin opciones devuelve la última página; before/after son ids de mensaje y date es YYYY-MM-DD
+  getMessages: async (
+    chatId: string,
+    options: { before?: string; after?: string; date?: string } = {}
+  ): Promise<MessagesPageType> => {
+    const response = await api.get(`/messages/${chatId}`, { params: options });
+    return response.data;
   },
   
   sendMessage: async (chatId: string, content: string) => {
@@ -141,6 +173,16 @@ export const messageService = {
     }
   },
   
+  // Añade la reacción o la quita si el usuario ya había reaccionado con ese emoji
+  toggleReaction: async (messageId: string, emoji: string): Promise<{ messageId: string; reactions: MessageReactionType[] }> => {
+    const response = await api.post(`/messages/${messageId}/reactions`, { emoji }, {
+      headers: {
+        'X-Socket-Request': 'false' // Marcar explícitamente como solicitud HTTP
+      }
+    });
+    return response.data;
+  },
+  
   updateMessage: async (messageId: string, text: string) => {
     try {
       const response = await api.put(`/messages/${messageId}`, { 
@@ -213,6 +255,137 @@ export const fileService = {
   }
 };
 
+// Datos editables de un elemento del portafolio
+export interface PortfolioItemInput {
+  title?: string;
+  description?: string;
+  link?: string | null;
+  tags?: string[];
+}
+
+export const portfolioService = {
+  getUserPortfolio: async (userId: string): Promise<PortfolioItemType[]> => {
+    const response = await api.get(`/users/${userId}/portfolio`);
+    return response.data.items;
+  },
+  
+  createItem: async (itemData: PortfolioItemInput): Promise<PortfolioItemType> => {
+    const response = await api.post('/portfolio', itemData);
+    return response.data.item;
+  },
+  
+  updateItem: async (itemId: string, itemData: PortfolioItemInput): Promise<PortfolioItemType> => {
+    const response = await api.put(`/portfolio/${itemId}`, itemData);
+    return response.data.item;
+  },
+  
+  deleteItem: async (itemId: string) => {
+    const response = await api.delete(`/portfolio/${itemId}`);
+    return response.data;
+  },
+  
+  // Guardar el orden de la galería (todos los elementos, del primero al último)
+  reorder: async (itemIds: string[]): Promise<PortfolioItemType[]> => {
+    const response = await api.put('/portfolio/order', { itemIds });
+    return response.data.items;
+  },
+  
+  uploadFile: (itemId: string, file: File): Promise<PortfolioFileType> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      
+      reader.onload = async (e) => {
+        try {
+          const data = e.target?.result?.toString().split(',')[1]; // Get base64 data
+          
+          if (!data) {
+            throw new Error('Failed to read file');
+          }
+          
+          const response = await api.post(`/portfolio/${itemId}/files`, {
+            filename: file.name,
+            contentType: file.type || 'application/octet-stream',
+            size: file.size,
+            data
+          });
+          
+          resolve(response.data.file);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+      
+      reader.readAsDataURL(file);
+    });
+  },
+  
+  deleteFile: async (itemId: string, fileId: number) => {
+    const response = await api.delete(`/portfolio/${itemId}/files/${fileId}`);
+    return response.data;
+  }
+};
+
+export const reportService = {
+  createReport: async (
+    targetType: ReportTargetType,
+    targetId: string,
+    reason: ReportReason,
+    note?: string
+  ): Promise<ReportType> => {
+    const response = await api.post('/reports', { targetType, targetId, reason, note });
+    return response.data.report;
+  }
+};
+
+// Solo para administradores
+export const moderationService = {
+  getReports: async (status: ReportStatus = 'open'): Promise<ReportType[]> => {
+    const response = await api.get('/admin/reports', { params: { status } });
+    return response.data.reports;
+  },
+  
+  hideContent: async (reportId: string) => {
+    const response = await api.post(`/admin/reports/${reportId}/hide`);
+    return response.data;
+  },
+  
+  dismissReport: async (reportId: string) => {
+    const response = await api.post(`/admin/reports/${reportId}/dismiss`);
+    return response.data;
+  },
+  
+  suspendUser: async (userId: string) => {
+    const response = await api.post(`/admin/users/${userId}/suspend`);
+    return response.data;
+  },
+  
+  unsuspendUser: async (userId: string) => {
+    const response = await api.delete(`/admin/users/${userId}/suspend`);
+    return response.data;
+  }
+};
+
+export const notificationService = {
+  getNotifications: async () => {
+    const response = await api.get('/notifications');
+    return response.data.notifications;
+  },
+  
+  markAsRead: async (notificationId: string) => {
+    const response = await api.put(`/notifications/${notificationId}/read`);
+    return response.data.notification;
+  },
+  
+  markAllAsRead: async () => {
+    const response = await api.put('/notifications/read-all');
+    return response.data;
+  }
+};
+
 export const socketService = {
   socket: null as any,
   
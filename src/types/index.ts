@@ -4,12 +4,25 @@ export interface UserType {
   name: string;
   email: string;
   photoURL: string | null;
-  role: 'client' | 'freelancer';
+  role: 'client' | 'freelancer' | 'admin';
   skills?: string[];
   bio?: string;
   joinedAt?: number;
   isOnline?: boolean;
   location?: string;
+  hourlyRate?: number;
+  rating?: number | null; // media de las valoraciones recibidas
+  reviewCount?: number;
+  suspendedAt?: string | null; // cuenta suspendida por un moderador
+}
+
+// Filtros del directorio de freelancers (GET /api/users/freelancers)
+export interface FreelancerFiltersType {
+  skills?: string[]; // el freelancer debe tener todas
+  rateMin?: number;
+  rateMax?: number;
+  online?: boolean;
+  sort?: 'newest' | 'oldest' | 'rate_asc' | 'rate_desc';
 }
 
 export interface AuthState {
@@ -31,6 +44,8 @@ export interface ChatType {
     content?: string;
     timestamp?: Date;
   };
+  unreadCount?: number; // mensajes de otros participantes que el usuario aún no ha leído
+  readCursors?: Record<string, string | null>; // último mensaje leído por cada participante
 }
 
 export interface MessageType {
@@ -44,16 +59,39 @@ export interface MessageType {
   deleted?: boolean;
   edited?: boolean;
   senderName?: string;
+  reactions?: MessageReactionType[];
+}
+
+// Reacciones de un mensaje agrupadas por emoji
+export interface MessageReactionType {
+  emoji: string;
+  count: number;
+  userIds: string[]; // en el orden en que reaccionaron
+}
+
+// Una página del historial de un chat, de más antiguo a más reciente
+export interface MessagesPageType {
+  messages: MessageType[];
+  hasOlder: boolean;
+  hasNewer: boolean; // false cuando la página llega hasta el último mensaje
 }
 
 export interface JobType {
   id: string;
   title: string;
   description: string;
-  budget: number;
+  budget: number; // importe fijo o por hora; en los rangos, el máximo
+  budgetType?: BudgetType;
+  budgetMin?: number;
+  budgetMax?: number;
+  currency?: string; // código ISO 4217, p. ej. "USD"
   category: string;
   skills?: string[];
-  status: "open" | "in progress" | "completed";
+  status: "open" | "in progress" | "completed" | "cancelled" | "expired" | "draft";
+  deadline?: string | null; // fecha límite para enviar ofertas
+  publishAt?: string | null; // publicación programada de un borrador
+  statusHistory?: JobStatusEntryType[]; // solo al cargar el detalle de la propuesta
+  attachments?: JobAttachmentType[]; // solo al cargar el detalle de la propuesta
   userId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -61,6 +99,87 @@ export interface JobType {
   userPhoto?: string;
   timestamp?: number;
   comments?: CommentType[];
+  likesCount?: number;
+  commentsCount?: number;
+  likedByMe?: boolean;
+  popularityScore?: number;
+  searchRank?: number;
+  searchSnippet?: string; // fragmento de la descripción con las coincidencias entre <mark></mark>
+  recommendation?: JobRecommendationType; // solo en GET /api/jobs/recommended
+  hiddenAt?: string | null; // ocultada por un moderador (solo la ven su autor y los administradores)
+}
+
+// Modelo de precio: importe fijo, tarifa por hora o rango mínimo-máximo
+export type BudgetType = 'fixed' | 'hourly' | 'range';
+
+// Archivo adjunto a una propuesta (se descarga con fileService.getFileUrl)
+export interface JobAttachmentType {
+  id: number;
+  filename: string;
+  contentType: string;
+  size: number; // bytes
+  jobId: string;
+  createdAt: string;
+}
+
+// Un cambio de estado de una propuesta (fromStatus es null en la creación)
+export interface JobStatusEntryType {
+  id: string;
+  jobId: string;
+  fromStatus: JobType['status'] | null;
+  toStatus: JobType['status'];
+  reason?: string | null;
+  userId: string | null;
+  userName?: string;
+  userPhoto?: string;
+  createdAt: string;
+}
+
+// Por qué se recomienda una propuesta al usuario actual
+export interface JobRecommendationType {
+  score: number;
+  matchedSkills: string[];
+  totalSkills: number;
+  categoryMatch: boolean; // la categoría coincide con propuestas que le interesaron antes
+  budgetFit: number | null; // 0-1, cercanía al presupuesto habitual (null sin historial)
+}
+
+// Filtros del listado de propuestas (se envían como query a GET /api/jobs)
+export interface JobFiltersType {
+  search?: string;
+  category?: string;
+  userId?: string;
+  status?: JobType['status'];
+  budgetMin?: number;
+  budgetMax?: number;
+  budgetType?: BudgetType;
+  currency?: string;
+  skills?: string[];
+  skillsMatch?: 'any' | 'all'; // alguna o todas las habilidades
+  postedWithin?: number; // días
+}
+
+export interface FacetCountType<T = string> {
+  value: T;
+  count: number;
+}
+
+// Cuántas propuestas hay para cada opción de filtro, con el resto de filtros aplicados
+export interface JobFacetsType {
+  category: FacetCountType[];
+  status: FacetCountType<JobType['status']>[];
+  skills: FacetCountType[];
+  budget: (FacetCountType & { min: number; max: number | null })[];
+  budgetType: FacetCountType<BudgetType>[];
+  currency: FacetCountType[];
+  postedWithin: FacetCountType<number>[];
+}
+
+// Una página del listado; nextCursor es null en la última página
+export interface JobsPageType {
+  jobs: JobType[];
+  nextCursor: string | null;
+  facets?: JobFacetsType;
 }
 
 export interface CommentType {
@@ -85,3 +204,156 @@ export interface ReplyType {
   userPhoto?: string;
   content?: string;
 }
+
+export interface ProposalType {
+  id: string;
+  jobId: string;
+  userId: string;
+  coverLetter: string;
+  bidAmount: number;
+  estimatedDuration: number; // días
+  status: 'pending' | 'accepted' | 'rejected';
+  createdAt: Date;
+  updatedAt: Date;
+  userName?: string;
+  userPhoto?: string;
+}
+
+// Búsqueda del listado guardada con un nombre; avisa cuando se publica una propuesta que coincide
+export interface SavedSearchType {
+  id: string;
+  userId: string;
+  name: string;
+  filters: JobFiltersType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Valoración que deja cada parte (cliente y freelancer contratado) al completarse una propuesta
+export interface ReviewType {
+  id: string;
+  jobId: string;
+  reviewerId: string;
+  revieweeId: string;
+  rating: number; // de 1 a 5
+  comment: string;
+  createdAt: Date;
+  updatedAt: Date;
+  reviewerName?: string | null;
+  reviewerPhoto?: string | null;
+  jobTitle?: string;
+}
+
+export interface UserReviewsType {
+  reviews: ReviewType[];
+  averageRating: number | null;
+  reviewCount: number;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+// Invitación de un cliente a un freelancer para que envíe una oferta a su propuesta
+export interface InvitationType {
+  id: string;
+  jobId: string;
+  userId: string;
+  invitedBy: string;
+  message: string | null;
+  status: InvitationStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  // Bandeja del freelancer: datos de la propuesta y de quien invita
+  jobTitle?: string;
+  jobStatus?: JobType['status'];
+  jobDeadline?: string | null;
+  invitedByName?: string;
+  invitedByPhoto?: string | null;
+  // Invitaciones enviadas: datos del freelancer invitado
+  userName?: string;
+  userPhoto?: string | null;
+}
+
+// Plantilla para empezar una propuesta; sin userId es global (disponible para todos)
+export interface JobTemplateType {
+  id: string;
+  userId: string | null;
+  name: string;
+  title: string;
+  description: string;
+  category: string;
+  skills: string[];
+  budgetType: BudgetType;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Imagen o archivo de un elemento del portafolio (se descarga con fileService.getFileUrl)
+export interface PortfolioFileType {
+  id: number;
+  filename: string;
+  contentType: string;
+  size: number; // bytes
+  portfolioItemId: string;
+  createdAt: string;
+}
+
+// Trabajo destacado en el portafolio de un freelancer; position fija el orden de la galería
+export interface PortfolioItemType {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  link: string | null;
+  tags: string[]; // habilidades de SKILLS_LIST
+  position: number;
+  files: PortfolioFileType[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Contenido que se puede denunciar
+export type ReportTargetType = 'job' | 'comment' | 'message' | 'user';
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'fraud' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+// Denuncia en la cola de moderación; snapshot guarda el contenido tal como se denunció
+export interface ReportType {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUserId: string | null; // cuenta denunciada (autor del contenido)
+  reason: ReportReason;
+  note: string | null;
+  snapshot: string | null;
+  status: ReportStatus;
+  resolution: 'hidden' | 'suspended' | null;
+  reporterId: string;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  reporterName?: string | null;
+  reporterPhoto?: string | null;
+  targetUserName?: string | null;
+  targetUserPhoto?: string | null;
+  targetUserSuspendedAt?: string | null;
+  jobId?: string | null; // propuesta donde está el contenido (propuestas y comentarios)
+  targetHiddenAt?: string | null;
+}
+
+export interface NotificationType {
+  id: string;
+  userId: string;
+  type: string; // p. ej. 'saved-search'
+  title: string;
+  message?: string;
+  link?: string; // ruta de la app a la que lleva la notificación
+  data?: Record<string, unknown>;
+  read: boolean;
+  createdAt: string;
+}